@@ -1,118 +1,270 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { GoogleGenAI, LiveServerMessage, Type, FunctionDeclaration, Modality } from '@google/genai';
-import { SessionState, TranscriptionRecord, FormData } from './types';
-import { createBlob, decode, decodeAudioData } from './AudioUtils';
+import React, { useState, useEffect, useRef, useMemo, useReducer } from 'react';
+import { SessionState, TranscriptionRecord, FormData, LanguageCode, Draft, Submission, FieldSource, FieldProvenance, FormProvenance, FieldCorrection, ScannedDocument, ConsentRecord, ConsentScope, DuplicateResolution } from './types';
+import { createPcmBlob, decode, decodeAudioData, PcmRecorder } from './AudioUtils';
+import { MicCapture, DEFAULT_CHUNK_MS } from './micCapture';
+import { VoiceActivityDetector, rmsToLevel } from './voiceActivity';
 import { api } from './api';
+import { syncWorker } from './syncWorker';
+import HistoryDrawer from './HistoryDrawer';
+import DraftList from './DraftList';
+import SubmissionDetail from './SubmissionDetail';
+import LockScreen, { LockScreenMode } from './LockScreen';
+import OperatorPanel from './OperatorPanel';
+import ConsentDialog from './ConsentDialog';
+import DuplicateDialog from './DuplicateDialog';
+import { hasConsent, consentNotice } from './consent';
+import CorrectionPanel from './CorrectionPanel';
+import DocumentReview from './DocumentReview';
+import CameraCapture from './CameraCapture';
+import { scanDocument, readDocumentFiles, DocumentError, ReviewedField } from './documents';
+import { provider, LiveMessage } from './aiProvider';
+import { ScriptedProvider } from './scriptedProvider';
+import { DEMO_SCRIPTS, DemoScript } from './demoScripts';
+import { LiveSessionManager, LiveConnectionStatus } from './liveSessionManager';
+import { speakLocally } from './localSpeech';
+import { sessionReducer, INITIAL_SESSION, canHandle, isLive, isAtRest, screenOf } from './sessionMachine';
+import { answerToolCall, ToolHost } from './toolCalls';
+import {
+  FORM_SCHEMAS,
+  DEFAULT_SCHEMA_ID,
+  getSchema,
+  fieldLabel,
+  schemaTitle,
+  emptyFormData,
+  hasAnyValue,
+  isSchemaComplete,
+  buildUpdateFieldTool,
+  buildStartCorrectionTool,
+  buildConfirmCorrectionTool,
+  buildRequestConfirmationTool,
+  buildConfirmSubmissionTool,
+  buildRecordConsentTool,
+  buildSystemInstruction,
+  buildCorrectionInstruction,
+  buildReadAloudPrompt
+} from './formSchemas';
+import { validateField } from './validation';
+import { dualScript, hasLatinSpelling } from './transliterate';
+import { LANGUAGES, DEFAULT_LANGUAGE, UIStrings, formatString, getLanguage, sourceLabel, buildHelpPrompt, buildSummaryPrompt } from './i18n';
 
-// Declare external aistudio helpers
-declare global {
-  interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
-  }
-
-  interface Window {
-    // Fixed: Remove readonly modifier to match existing declarations of aistudio
-    aistudio?: AIStudio;
-  }
-}
+// Values below this are flagged for the operator to double-check
+const LOW_CONFIDENCE = 0.7;
 
-// --- Model Configuration ---
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-const PRO_EXTRACTION_MODEL = 'gemini-3-pro-preview';
-const FAST_LITE_MODEL = 'gemini-flash-lite-latest';
-const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
-const SUMMARY_MODEL = 'gemini-3-flash-preview';
-
-const updateFormFieldTool: FunctionDeclaration = {
-  name: 'update_form_field',
-  description: 'Update a specific field in the user form when they provide information.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      field: {
-        type: Type.STRING,
-        description: 'The field to update: "fullName", "dob", or "city".',
-        enum: ['fullName', 'dob', 'city']
-      },
-      value: {
-        type: Type.STRING,
-        description: 'The value to set for the field.'
-      }
-    },
-    required: ['field', 'value']
-  }
-};
+// Relative bar heights for the mic level meter, highest in the middle
+const METER_WEIGHTS = [0.45, 0.65, 0.85, 1, 1, 0.85, 0.65, 0.45];
+
+// Lock the device after this long without a touch or key press while idle
+const LOCK_AFTER_MS = 3 * 60 * 1000;
+
+// In kiosk mode an unattended screen first goes back to the welcome screen; the lock follows once that stands untouched too
+const KIOSK_RESET_AFTER_MS = 90 * 1000;
 
 const App: React.FC = () => {
   // --- State ---
-  const [sessionState, setSessionState] = useState<SessionState>(SessionState.IDLE);
+  const [session, dispatch] = useReducer(sessionReducer, INITIAL_SESSION);
+  const sessionState = session.status;
+  // Dialogs open over the welcome screen, so the main panel follows this rather than the status
+  const screen = screenOf(session);
   const [transcriptions, setTranscriptions] = useState<TranscriptionRecord[]>([]);
-  const [isDone, setIsDone] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
-  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
-  const [isReadingForm, setIsReadingForm] = useState(false);
+  const [openSubmission, setOpenSubmission] = useState<Submission | null>(null);
   const [isMuted, setIsMuted] = useState(false);
-  const [submissions, setSubmissions] = useState<any[]>([]);
+  const [submissionCount, setSubmissionCount] = useState(0);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [quickHelpText, setQuickHelpText] = useState<string>("");
-  const [isGettingHelp, setIsGettingHelp] = useState(false);
-  const [formData, setFormData] = useState<FormData>({
-    fullName: '',
-    dob: '',
-    city: ''
-  });
+  const [languageCode, setLanguageCode] = useState<LanguageCode>(DEFAULT_LANGUAGE);
+  const [schemaId, setSchemaId] = useState<string>(DEFAULT_SCHEMA_ID);
+  const [formData, setFormData] = useState<FormData>(() => emptyFormData(getSchema(DEFAULT_SCHEMA_ID)));
+  const [latinData, setLatinData] = useState<FormData>({});
+  const [provenance, setProvenance] = useState<FormProvenance>({});
+  const [draftId, setDraftId] = useState<string>(() => crypto.randomUUID());
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  // Applicant data is only readable while this is null (or while changing the PIN)
+  const [lockMode, setLockMode] = useState<LockScreenMode | null>('unlock');
+  const [correction, setCorrection] = useState<FieldCorrection | null>(null);
+  const [documents, setDocuments] = useState<ScannedDocument[]>([]);
+  const [scanError, setScanError] = useState('');
+  // Training mode: the conversation comes from a script and nothing is stored or synced
+  const [demoScript, setDemoScript] = useState<DemoScript | null>(null);
+  const [kioskMode, setKioskMode] = useState(false);
+  // Queue number of the applicant being served, when they were called from the kiosk queue
+  const [queueToken, setQueueToken] = useState<number | undefined>(undefined);
+  const [consent, setConsent] = useState<ConsentRecord[]>([]);
+  const [cloudSummary, setCloudSummary] = useState(true);
+  // 0–1, drives the LISTENING meter
+  const [micLevel, setMicLevel] = useState(0);
   
   // --- Refs ---
-  const inputAudioCtxRef = useRef<AudioContext | null>(null);
   const outputAudioCtxRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const streamRef = useRef<MediaStream | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const vadRef = useRef(new VoiceActivityDetector({ chunkMs: DEFAULT_CHUNK_MS }));
+  // Set when the user talks over the assistant; the rest of that reply is dropped
+  const bargedInRef = useRef(false);
   const currentInputTranscriptionRef = useRef('');
   const currentOutputTranscriptionRef = useRef('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const draftTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Per-turn audio kept as evidence alongside the transcript
+  const micRecorderRef = useRef(new PcmRecorder(16000));
+  const speakerRecorderRef = useRef(new PcmRecorder(24000));
+  const liveRef = useRef<LiveSessionManager | null>(null);
+  // Live callbacks are created once per session, so they read these instead of state
+  const correctionRef = useRef<FieldCorrection | null>(null);
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+  const latinDataRef = useRef(latinData);
+  latinDataRef.current = latinData;
+  const transcriptionsRef = useRef(transcriptions);
+  transcriptionsRef.current = transcriptions;
+  const consentRef = useRef(consent);
+  consentRef.current = consent;
+  // The values read back by request_confirmation, kept for confirm_submission
+  const readBackRef = useRef<string | null>(null);
+  // Set once the user confirms by voice; the form is submitted after the assistant's closing turn
+  const submitAfterTurnRef = useRef(false);
+  // Set when the applicant declines consent; the session ends after the assistant acknowledges it
+  const closeAfterTurnRef = useRef(false);
 
   // Initialize Data
   useEffect(() => {
     const init = async () => {
-      const draft = await api.getDraft();
-      if (draft) setFormData(draft);
-      const history = await api.getAllSubmissions();
-      setSubmissions(history);
+      const preferred = await api.getPreferredLanguage();
+      if (preferred) setLanguageCode(getLanguage(preferred).code);
+      setKioskMode(await api.getKioskMode());
+      setCloudSummary(await api.getCloudSummary());
+      setLockMode((await api.hasPin()) ? 'unlock' : 'setup');
+      setSubmissionCount(await api.countSubmissions());
     };
     init();
   }, []);
 
+  useEffect(() => () => liveRef.current?.close(), []);
+
+  const schema = useMemo(() => getSchema(schemaId), [schemaId]);
+  const language = useMemo(() => getLanguage(languageCode), [languageCode]);
+  const t = language.strings;
+  const ai = useMemo(() => demoScript ? new ScriptedProvider(demoScript) : provider, [demoScript]);
+
+  useEffect(() => {
+    document.documentElement.lang = language.code;
+  }, [language]);
+
   // Form Completeness Check
-  const isFormComplete = useMemo(() => {
-    return !!(formData.fullName.trim() && formData.dob.trim() && formData.city.trim());
-  }, [formData]);
+  const isFormComplete = useMemo(() => isSchemaComplete(schema, formData), [schema, formData]);
+
+  const persistDraft = async () => {
+    if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
+    if (!api.isUnlocked || demoScript) return;
+    if (!hasAnyValue(schema, formData) && transcriptions.length === 0) return;
+    await api.saveDraft({
+      id: draftId,
+      formType: schema.id,
+      language: language.code,
+      values: formData,
+      latin: latinData,
+      provenance,
+      documents,
+      transcript: transcriptions,
+      consent,
+      updatedAt: new Date().toISOString(),
+      token: queueToken
+    });
+    setDrafts(await api.listDrafts());
+  };
 
   // Auto-save draft
   useEffect(() => {
-    const persist = async () => {
-      if (formData.fullName || formData.dob || formData.city) {
-        setIsSaving(true);
-        await api.saveDraft(formData);
-        setIsSaving(false);
-      }
+    draftTimerRef.current = setTimeout(persistDraft, 1000);
+    return () => clearTimeout(draftTimerRef.current!);
+  }, [draftId, schema, language, formData, latinData, provenance, documents, transcriptions, queueToken, consent]);
+
+  const handleUnlocked = async () => {
+    const wasChangingPin = lockMode === 'change';
+    setLockMode(null);
+    if (wasChangingPin) return;
+    // Retention runs before anything is loaded, so purged records never reach the screen
+    try {
+      await api.applyRetention(await api.getRetentionPolicy());
+    } catch (e) {
+      console.error("Retention Error:", e);
+    }
+    const savedDrafts = await api.listDrafts();
+    setDrafts(savedDrafts);
+    // Pick up where the device left off; a kiosk waits for the operator to call the next applicant
+    if (savedDrafts.length > 0 && !kioskMode) loadDraft(savedDrafts[0]);
+    setSubmissionCount(await api.countSubmissions());
+    syncWorker.start();
+    syncWorker.flush();
+  };
+
+  // Saves the open draft, forgets the key and clears every piece of applicant data from memory
+  const lockApp = async () => {
+    if (!api.isUnlocked) return;
+    await persistDraft();
+    api.lock();
+    setDraftId(crypto.randomUUID());
+    resetForm();
+    setTranscriptions([]);
+    setQueueToken(undefined);
+    setConsent([]);
+    setDrafts([]);
+    setOpenSubmission(null);
+    setDemoScript(null);
+    liveRef.current?.close();
+    stopAllAudio();
+    dispatch({ type: 'RESET' });
+    setShowHistory(false);
+    setQuickHelpText("");
+    setLockMode('unlock');
+  };
+
+  /** Hides everything on screen that belongs to the applicant being served */
+  const clearApplicantView = () => {
+    setOpenSubmission(null);
+    setScanError('');
+    setShowHistory(false);
+    setQuickHelpText("");
+  };
+
+  // Back to the welcome screen for the next person; an unfinished draft stays in the queue
+  const resetKiosk = async () => {
+    await persistDraft();
+    liveRef.current?.close();
+    stopAllAudio();
+    setDraftId(crypto.randomUUID());
+    resetForm();
+    setTranscriptions([]);
+    setQueueToken(undefined);
+    setConsent([]);
+    clearApplicantView();
+    dispatch({ type: 'RESET' });
+  };
+
+  const isKioskBlank = sessionState === SessionState.IDLE && queueToken === undefined && !showHistory
+    && !hasAnyValue(schema, formData) && transcriptions.length === 0;
+
+  // Inactivity lock, or kiosk reset; never interrupts a live conversation
+  useEffect(() => {
+    if (lockMode !== null || !isAtRest(sessionState)) return;
+    const shouldReset = kioskMode && !isKioskBlank;
+    const onIdle = shouldReset ? resetKiosk : lockApp;
+    const idleMs = shouldReset ? KIOSK_RESET_AFTER_MS : LOCK_AFTER_MS;
+    let timer = setTimeout(onIdle, idleMs);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(onIdle, idleMs);
     };
-    const timer = setTimeout(persist, 1000);
-    return () => clearTimeout(timer);
-  }, [formData]);
-
-  const systemInstruction = useMemo(() => {
-    return `You are "Mukh-Lipi", a voice-first AI assistant for India.
-CURRENT STATUS: Name: ${formData.fullName || 'Empty'}, DOB: ${formData.dob || 'Empty'}, City: ${formData.city || 'Empty'}.
-RULES:
-1. Speak polite Hindi only.
-2. Ask ONE question for missing info.
-3. Call 'update_form_field' tool for any data heard.
-4. If everything is full, summarize all data in Hindi and ask confirmation: "Kya main ise jama kar doon?".
-5. ONLY when the user confirms after the summary, say "Dhanyavaad, aapka form jama ho gaya hai." to signal the end of the session.`;
-  }, [formData]);
+    const events = ['pointerdown', 'keydown', 'scroll'];
+    events.forEach(name => window.addEventListener(name, resetTimer, true));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(name => window.removeEventListener(name, resetTimer, true));
+    };
+  }, [lockMode, sessionState, kioskMode, isKioskBlank, draftId, schema, formData, provenance, transcriptions, queueToken]);
 
   const stopAllAudio = () => {
     sourcesRef.current.forEach(source => {
@@ -120,290 +272,628 @@ RULES:
     });
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
-    if (sessionState === SessionState.SPEAKING) {
-      setSessionState(SessionState.LISTENING);
-    }
+    dispatch({ type: 'PLAYBACK_STOPPED' });
   };
 
-  const updateField = (field: keyof FormData, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+  const stopMicCapture = () => {
+    micCaptureRef.current?.stop();
+    micCaptureRef.current = null;
+    setMicLevel(0);
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    if (window.aistudio) {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        await window.aistudio.openSelectKey();
-        return;
+  /** Releases the mic; the next connection opens it afresh */
+  const releaseMic = () => {
+    stopMicCapture();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  const startAudio = async () => {
+    vadRef.current.reset();
+    bargedInRef.current = false;
+    // Echo cancellation keeps the assistant's own voice from triggering barge-in
+    streamRef.current = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+    });
+    micCaptureRef.current = await MicCapture.start(streamRef.current, {
+      onChunk: (pcm, rms) => {
+        micRecorderRef.current.push(new Uint8Array(pcm.buffer));
+        setMicLevel(rmsToLevel(rms));
+        const wasSpeaking = vadRef.current.isSpeaking;
+        if (vadRef.current.update(rms)) {
+          dispatch({ type: 'USER_STARTED_SPEAKING' });
+          if (sourcesRef.current.size > 0) {
+            bargedInRef.current = true;
+            stopAllAudio();
+          }
+        } else if (wasSpeaking && !vadRef.current.isSpeaking) {
+          // The user has finished; the model is working on its reply
+          dispatch({ type: 'USER_STOPPED_SPEAKING' });
+        }
+        liveRef.current?.sendRealtimeInput({ media: createPcmBlob(pcm) });
       }
+    });
+  };
+
+  const recordConsent = (scope: ConsentScope, agreed: boolean, method: ConsentRecord['method']) => {
+    const record: ConsentRecord = { scope, agreed, method, language: language.code, notice: consentNotice(language, scope), at: new Date().toISOString() };
+    // Eager, so tool calls later in the same message already see the answer
+    consentRef.current = [...consentRef.current, record];
+    setConsent(consentRef.current);
+  };
+
+  /** Returns the value as stored, which for text fields may be in the other script */
+  const updateField = (field: string, value: string, source: FieldSource, confidence = 1): string => {
+    const fieldSchema = schema.fields.find(f => f.id === field);
+    if (!fieldSchema) return value;
+    if (hasLatinSpelling(fieldSchema)) {
+      const spelled = dualScript(fieldSchema, value, language.code);
+      value = spelled.value;
+      updateLatin(field, spelled.latin);
     }
+    setFormData(prev => ({ ...prev, [field]: value }));
+    // Tool calls later in the same message must see the new value before the re-render
+    formDataRef.current = { ...formDataRef.current, [field]: value };
+    const entry: FieldProvenance = { source, at: new Date().toISOString(), confidence };
+    setProvenance(prev => ({ ...prev, [field]: entry }));
+    return value;
+  };
+
+  const updateLatin = (field: string, latin: string) => {
+    setLatinData(prev => ({ ...prev, [field]: latin }));
+    latinDataRef.current = { ...latinDataRef.current, [field]: latin };
+  };
+
+  const resetForm = (target = schema) => {
+    setFormData(emptyFormData(target));
+    setLatinData({});
+    setProvenance({});
+    setDocuments([]);
+    changeCorrection(null);
+  };
+
+  const changeCorrection = (next: FieldCorrection | null) => {
+    correctionRef.current = next;
+    setCorrection(next);
+  };
+
+  // Tells a running conversation about something the operator did on screen
+  const notifySession = (text: string) => {
+    liveRef.current?.sendClientContent({ turns: text, turnComplete: true });
+  };
+
+  /** Re-asks a single field; the conversation is started if it isn't running */
+  const beginCorrection = (fieldId: string) => {
+    if (!liveRef.current && !canHandle(sessionState, 'CONNECT')) return;
+    const next: FieldCorrection = { fieldId, oldValue: formDataRef.current[fieldId] || '' };
+    changeCorrection(next);
+    // While reconnecting the next connection picks the correction up from correctionRef
+    if (liveRef.current) notifySession(buildCorrectionInstruction(schema, next, language).trim());
+    else if (ai.isAvailable()) startSession();
+  };
+
+  /** Applies or drops the value heard during a correction */
+  const settleCorrection = (accept: boolean) => {
+    const current = correctionRef.current;
+    if (!current) return;
+    if (accept && current.proposedValue !== undefined) {
+      updateField(current.fieldId, current.proposedValue, 'voice', current.proposedConfidence);
+    }
+    changeCorrection(null);
+  };
+
+  /** Operator fallback when speech keeps failing; returns false if the value doesn't validate */
+  const applyTypedCorrection = (raw: string): boolean => {
+    const fieldSchema = schema.fields.find(f => f.id === correctionRef.current?.fieldId);
+    if (!fieldSchema) return false;
+    const check = validateField(fieldSchema, raw);
+    if (!check.ok) return false;
+    updateField(fieldSchema.id, check.value, 'typed');
+    changeCorrection(null);
+    notifySession(`The operator typed "${check.value}" for "${fieldSchema.id}" and it is saved. Continue with the form.`);
+    return true;
+  };
+
+  const selectLanguage = (code: LanguageCode) => {
+    setLanguageCode(code);
+    api.savePreferredLanguage(code);
+  };
+
+  const selectSchema = (id: string) => {
+    if (id === schemaId) return;
+    setSchemaId(id);
+    resetForm(getSchema(id));
+  };
+
+  const loadDraft = (draft: Draft) => {
+    const draftSchema = getSchema(draft.formType);
+    setDraftId(draft.id);
+    setSchemaId(draftSchema.id);
+    setFormData({ ...emptyFormData(draftSchema), ...draft.values });
+    setLatinData(draft.latin || {});
+    setProvenance(draft.provenance || {});
+    setDocuments(draft.documents || []);
+    changeCorrection(null);
+    setTranscriptions(draft.transcript || []);
+    setQueueToken(draft.token);
+    setConsent(draft.consent || []);
+    if (draft.language) setLanguageCode(getLanguage(draft.language).code);
+  };
+
+  // Save the open draft right away so switching doesn't drop its last second of edits
+  const resumeDraft = async (draft: Draft) => {
+    await persistDraft();
+    loadDraft(draft);
+  };
+
+  const startNewDraft = async () => {
+    await persistDraft();
+    setDraftId(crypto.randomUUID());
+    resetForm();
+    setTranscriptions([]);
+    setQueueToken(undefined);
+    setConsent([]);
+  };
+
+  /** Hands the next queue number to a walk-in; their draft waits until the operator calls them */
+  const addApplicant = async () => {
+    const defaultSchema = getSchema(DEFAULT_SCHEMA_ID);
+    await api.saveDraft({
+      id: crypto.randomUUID(),
+      formType: defaultSchema.id,
+      language: language.code,
+      values: emptyFormData(defaultSchema),
+      provenance: {},
+      documents: [],
+      transcript: [],
+      updatedAt: new Date().toISOString(),
+      token: await api.nextQueueToken()
+    });
+    setDrafts(await api.listDrafts());
+  };
+
+  const callApplicant = async (draft: Draft) => {
+    await resumeDraft(draft);
+    clearApplicantView();
+    dispatch({ type: 'RESET' });
+  };
+
+  const enterKiosk = async () => {
+    await api.saveKioskMode(true);
+    setKioskMode(true);
+    clearApplicantView();
+  };
+
+  const toggleCloudSummary = async (on: boolean) => {
+    await api.saveCloudSummary(on);
+    setCloudSummary(on);
+  };
+
+  const exitKiosk = async () => {
+    await api.saveKioskMode(false);
+    setKioskMode(false);
+    dispatch({ type: 'OPERATOR_CLOSED' });
+  };
+
+  /** Switches to a training script on a blank form; the open draft is saved first */
+  const startDemo = async (script: DemoScript) => {
+    await persistDraft();
+    setDemoScript(script);
+    setDraftId(crypto.randomUUID());
+    setSchemaId(script.formType);
+    resetForm(getSchema(script.formType));
+    setTranscriptions([]);
+    setQueueToken(undefined);
+    setConsent([]);
+    setLanguageCode(script.language);
+    dispatch({ type: 'RESET' });
+  };
+
+  const exitDemo = () => {
+    setDemoScript(null);
+    setDraftId(crypto.randomUUID());
+    resetForm();
+    setTranscriptions([]);
+    setQueueToken(undefined);
+    setConsent([]);
+  };
+
+  const discardDraft = async (draft: Draft) => {
+    await api.deleteDraft(draft.id);
+    setDrafts(await api.listDrafts());
+    if (draft.id === draftId) {
+      setDraftId(crypto.randomUUID());
+      resetForm();
+      setTranscriptions([]);
+      setQueueToken(undefined);
+      setConsent([]);
+    }
+  };
+
+  /** After an edit or deletion in the detail view; an amended record may be queued to sync again */
+  const handleSubmissionChanged = async (submission: Submission | null) => {
+    setOpenSubmission(submission);
+    setHistoryVersion(v => v + 1);
+    setSubmissionCount(await api.countSubmissions());
+    if (submission) syncWorker.flush();
+  };
+
+  /** Persists the turn's recorded audio and returns the clip id to reference from the transcript */
+  const storeTurnAudio = (recorder: PcmRecorder): string | undefined => {
+    const pcm = recorder.take();
+    if (!pcm || demoScript) return undefined;
+    const id = crypto.randomUUID();
+    api.saveAudioClip({ id, sampleRate: recorder.sampleRate, pcm }).catch(err => console.error("Audio Save Error:", err));
+    return id;
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    // Lets the same file be picked again after a failed scan
+    e.target.value = '';
+    if (files.length > 0) scanFiles(files);
+  };
+
+  // The camera is easier than the file picker; fall back to the picker where there is none
+  const openScanner = () => {
+    if (!hasConsent(consent, 'documents')) {
+      dispatch({ type: 'CONSENT_ASKED', scope: 'documents' });
+      return;
+    }
+    if (navigator.mediaDevices?.getUserMedia) dispatch({ type: 'CAMERA_OPENED' });
+    else fileInputRef.current?.click();
+  };
+
+  const answerConsentPrompt = (agreed: boolean) => {
+    if (!session.consentScope) return;
+    recordConsent(session.consentScope, agreed, 'tap');
+    dispatch({ type: 'CONSENT_ANSWERED' });
+    if (!agreed) return;
+    if (navigator.mediaDevices?.getUserMedia) dispatch({ type: 'CAMERA_OPENED' });
+    else fileInputRef.current?.click();
+  };
 
-    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+  const scanFiles = async (files: File[]) => {
+    if (!(await ai.requestAccess())) return;
+    if (!ai.isAvailable()) {
       console.error("API key not found");
-      setSessionState(SessionState.ERROR);
+      dispatch({ type: 'FAILED' });
       return;
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-    setSessionState(SessionState.EXTRACTING);
+    setScanError('');
+    dispatch({ type: 'SCAN_STARTED' });
     try {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64Data = (reader.result as string).split(',')[1];
-        const response = await ai.models.generateContent({
-          model: PRO_EXTRACTION_MODEL,
-          contents: {
-            parts: [
-              { inlineData: { data: base64Data, mimeType: file.type } },
-              { text: "Act as an expert Indian document parser. Extract Full Name, Date of Birth (DD/MM/YYYY), and City/Village from this identity document. Respond ONLY in valid JSON format with keys: fullName, dob, city." }
-            ]
-          },
-          config: { responseMimeType: "application/json" }
-        });
-        const result = JSON.parse(response.text || '{}');
-        if (result.fullName) updateField('fullName', result.fullName);
-        if (result.dob) updateField('dob', result.dob);
-        if (result.city) updateField('city', result.city);
-        setSessionState(SessionState.IDLE);
-      };
-      reader.readAsDataURL(file);
+      const parts = await readDocumentFiles(files);
+      dispatch({ type: 'SCAN_FINISHED', scan: await scanDocument(ai, parts, schema) });
     } catch (err) {
-      console.error("Pro Extraction Error:", err);
-      setSessionState(SessionState.ERROR);
+      console.error("Document Scan Error:", err);
+      const code = err instanceof DocumentError ? err.code : undefined;
+      setScanError(code === 'unsupported' ? t.unsupportedFile : code === 'too_large' ? t.fileTooLarge : t.scanFailed);
+      dispatch({ type: 'SCAN_FAILED' });
     }
   };
 
-  const startSession = async () => {
-    if (window.aistudio) {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        await window.aistudio.openSelectKey();
-        return;
-      }
+  /** Applies the fields the operator kept from the review and attaches the document */
+  const mergeScan = (fields: ReviewedField[]) => {
+    if (!session.scan) return;
+    fields.forEach(f => updateField(f.fieldId, f.value, 'document', f.confidence));
+    const scanned = session.scan.document;
+    setDocuments(prev => [...prev.filter(d => d.type !== scanned.type), scanned]);
+    dispatch({ type: 'SCAN_REVIEWED' });
+  };
+
+  /** Maps the connection's lifecycle onto the screen and the audio pipeline */
+  const handleConnectionStatus = async (status: LiveConnectionStatus, attempt: number) => {
+    switch (status) {
+      case 'connecting':
+        dispatch({ type: 'CONNECT' });
+        break;
+      case 'open':
+        dispatch({ type: 'OPENED' });
+        try {
+          await startAudio();
+        } catch (err) {
+          console.error("Mic Capture Error:", err);
+          dispatch({ type: 'FAILED' });
+          liveRef.current?.close();
+        }
+        break;
+      case 'reconnecting':
+        releaseMic();
+        stopAllAudio();
+        // A half-heard turn can't be finished on the new connection
+        currentInputTranscriptionRef.current = '';
+        currentOutputTranscriptionRef.current = '';
+        micRecorderRef.current.reset();
+        speakerRecorderRef.current.reset();
+        dispatch({ type: 'CONNECTION_LOST' });
+        if (attempt === 1) speakLocally(t.reconnecting, language.code);
+        break;
+      case 'failed':
+        releaseMic();
+        stopAllAudio();
+        liveRef.current = null;
+        dispatch({ type: 'FAILED' });
+        break;
+      case 'closed':
+        // Playback is left to finish, e.g. the closing thank-you
+        releaseMic();
+        liveRef.current = null;
+        dispatch({ type: 'CLOSED' });
+        break;
     }
+  };
 
-    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+  const startSession = async () => {
+    if (!(await ai.requestAccess())) return;
+    if (!ai.isAvailable()) {
       console.error("API key not found");
-      setSessionState(SessionState.ERROR);
+      dispatch({ type: 'FAILED' });
       return;
     }
 
-    const ai = new GoogleGenAI({ apiKey });
     try {
-      setSessionState(SessionState.CONNECTING);
+      dispatch({ type: 'CONNECT' });
       
-      if (!inputAudioCtxRef.current) inputAudioCtxRef.current = new AudioContext({ sampleRate: 16000 });
       if (!outputAudioCtxRef.current) outputAudioCtxRef.current = new AudioContext({ sampleRate: 24000 });
-      
-      await inputAudioCtxRef.current.resume();
       await outputAudioCtxRef.current.resume();
+    } catch (err) {
+      console.error("Session Connect Error:", err);
+      dispatch({ type: 'FAILED' });
+      return;
+    }
+    micRecorderRef.current.reset();
+    speakerRecorderRef.current.reset();
+    readBackRef.current = null;
+    submitAfterTurnRef.current = false;
+    closeAfterTurnRef.current = false;
 
-      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      const sessionPromise = ai.live.connect({
-        model: LIVE_MODEL,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-          systemInstruction: systemInstruction,
-          tools: [{ functionDeclarations: [updateFormFieldTool] }],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setSessionState(SessionState.LISTENING);
-            const source = inputAudioCtxRef.current!.createMediaStreamSource(streamRef.current!);
-            const scriptProcessor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(s => {
-                try {
-                  s.sendRealtimeInput({ media: pcmBlob });
-                } catch (err) {}
-              }).catch(err => console.error(err));
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioCtxRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                if (fc.name === 'update_form_field') {
-                  const { field, value } = fc.args as { field: keyof FormData, value: string };
-                  updateField(field, value);
-                  sessionPromise.then(s => s.sendToolResponse({
-                    functionResponses: { id: fc.id, name: fc.name, response: { result: "ok" } }
-                  }));
-                }
-              }
-            }
-            if (message.serverContent?.outputTranscription) currentOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
-            if (message.serverContent?.inputTranscription) currentInputTranscriptionRef.current += message.serverContent.inputTranscription.text;
-            
-            if (message.serverContent?.turnComplete) {
-              if (currentInputTranscriptionRef.current) setTranscriptions(prev => [...prev, { role: 'user', text: currentInputTranscriptionRef.current, timestamp: Date.now() }]);
-              if (currentOutputTranscriptionRef.current) {
-                const text = currentOutputTranscriptionRef.current.toLowerCase();
-                setTranscriptions(prev => [...prev, { role: 'assistant', text: currentOutputTranscriptionRef.current, timestamp: Date.now() }]);
-                if (isFormComplete && (text.includes("dhanyavaad") || text.includes("धन्यवाद"))) {
-                  setIsDone(true);
-                  if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
-                }
-              }
-              currentInputTranscriptionRef.current = '';
-              currentOutputTranscriptionRef.current = '';
-            }
+    const tools: ToolHost = {
+      schema,
+      language,
+      formData: () => formDataRef.current,
+      latinData: () => latinDataRef.current,
+      hasConsent: () => hasConsent(consentRef.current, 'conversation'),
+      recordConsent: agreed => recordConsent('conversation', agreed, 'voice'),
+      updateField: (field, value, confidence) => updateField(field, value, 'voice', confidence),
+      correction: () => correctionRef.current,
+      changeCorrection,
+      settleCorrection,
+      readBack: () => readBackRef.current,
+      setReadBack: key => { readBackRef.current = key; },
+      onDeclined: () => { closeAfterTurnRef.current = true; },
+      onConfirmed: () => { submitAfterTurnRef.current = true; }
+    };
 
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && outputAudioCtxRef.current && !isMuted) {
-              setSessionState(SessionState.SPEAKING);
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioCtxRef.current.currentTime);
-              const buffer = await decodeAudioData(decode(audioData), outputAudioCtxRef.current, 24000, 1);
-              const source = outputAudioCtxRef.current.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputAudioCtxRef.current.destination);
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setSessionState(SessionState.LISTENING);
-              });
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-          },
-          onerror: (e: ErrorEvent) => {
-            console.error("Live Error:", e);
-            setSessionState(SessionState.ERROR);
-            if (e.message?.includes("Requested entity was not found") && window.aistudio) {
-              window.aistudio.openSelectKey();
+    liveRef.current?.close();
+    const live = new LiveSessionManager({
+      provider: ai,
+      // Rebuilt for every reconnect, so the assistant resumes from the current form and transcript
+      buildConfig: () => {
+        // Asked once per applicant; a reconnect after they agreed goes straight on
+        const askConsent = !hasConsent(consentRef.current, 'conversation');
+        return {
+          voiceName: language.voiceName,
+          systemInstruction: buildSystemInstruction(schema, formDataRef.current, language, transcriptionsRef.current, correctionRef.current, askConsent ? consentNotice(language, 'conversation') : null),
+          tools: [
+            ...(askConsent ? [buildRecordConsentTool()] : []),
+            buildUpdateFieldTool(schema),
+            buildStartCorrectionTool(schema),
+            buildConfirmCorrectionTool(),
+            buildRequestConfirmationTool(),
+            buildConfirmSubmissionTool()
+          ],
+        };
+      },
+      onStatus: (status, attempt) => {
+        if (liveRef.current === live) handleConnectionStatus(status, attempt);
+      },
+      onMessage: async (message: LiveMessage) => {
+        // The server heard the user over its reply; drop whatever is still queued
+        if (message.serverContent?.interrupted) {
+          bargedInRef.current = false;
+          stopAllAudio();
+        }
+        if (message.toolCall) {
+          for (const fc of message.toolCall.functionCalls) {
+            const response = answerToolCall(tools, fc.name, fc.args);
+            if (response) liveRef.current?.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response } });
+          }
+        }
+        if (message.serverContent?.outputTranscription) currentOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
+        if (message.serverContent?.inputTranscription) currentInputTranscriptionRef.current += message.serverContent.inputTranscription.text;
+        
+        if (message.serverContent?.turnComplete) {
+          // Nothing the applicant says is kept until they agree; the consent record itself is
+          if (hasConsent(consentRef.current, 'conversation')) {
+            const userText = currentInputTranscriptionRef.current;
+            const userClipId = storeTurnAudio(micRecorderRef.current);
+            if (userText) setTranscriptions(prev => [...prev, { role: 'user', text: userText, timestamp: Date.now(), audioClipId: userClipId }]);
+            const assistantClipId = storeTurnAudio(speakerRecorderRef.current);
+            if (currentOutputTranscriptionRef.current) {
+              const text = currentOutputTranscriptionRef.current;
+              setTranscriptions(prev => [...prev, { role: 'assistant', text, timestamp: Date.now(), audioClipId: assistantClipId }]);
             }
-          },
-          onclose: (e: CloseEvent) => setSessionState(SessionState.IDLE)
+          } else {
+            micRecorderRef.current.reset();
+            speakerRecorderRef.current.reset();
+          }
+          dispatch({ type: 'TURN_COMPLETE' });
+          // The form only counts as finished once the closing words have been spoken
+          if (submitAfterTurnRef.current) {
+            submitAfterTurnRef.current = false;
+            dispatch({ type: 'FORM_FINISHED' });
+            liveRef.current?.close();
+            dispatch({ type: 'SUBMIT_REQUESTED' });
+          }
+          if (closeAfterTurnRef.current) {
+            closeAfterTurnRef.current = false;
+            liveRef.current?.close();
+          }
+          currentInputTranscriptionRef.current = '';
+          currentOutputTranscriptionRef.current = '';
+          bargedInRef.current = false;
         }
-      });
-    } catch (err) {
-      console.error("Session Connect Error:", err);
-      setSessionState(SessionState.ERROR);
-    }
+
+        const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        const audioBytes = audioData ? decode(audioData) : null;
+        // Recorded even when muted: the evidence is what the assistant said, not what was heard
+        if (audioBytes) speakerRecorderRef.current.push(audioBytes);
+        if (audioBytes && outputAudioCtxRef.current && !isMuted && !bargedInRef.current) {
+          dispatch({ type: 'PLAYBACK_STARTED' });
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioCtxRef.current.currentTime);
+          const buffer = await decodeAudioData(audioBytes, outputAudioCtxRef.current, 24000, 1);
+          const source = outputAudioCtxRef.current.createBufferSource();
+          source.buffer = buffer;
+          source.connect(outputAudioCtxRef.current.destination);
+          source.addEventListener('ended', () => {
+            sourcesRef.current.delete(source);
+            if (sourcesRef.current.size === 0) dispatch({ type: 'PLAYBACK_STOPPED' });
+          });
+          source.start(nextStartTimeRef.current);
+          nextStartTimeRef.current += buffer.duration;
+          sourcesRef.current.add(source);
+        }
+      }
+    });
+    liveRef.current = live;
+    live.start();
   };
 
   const getQuickHelp = async () => {
-    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      setQuickHelpText("नमस्ते, मैं आपकी मदद के लिए यहाँ हूँ।");
+    if (!canHandle(sessionState, 'HELP_REQUESTED')) return;
+    if (!ai.isAvailable()) {
+      setQuickHelpText(t.helpFallback);
       return;
     }
-    const ai = new GoogleGenAI({ apiKey });
-    setIsGettingHelp(true);
+    dispatch({ type: 'HELP_REQUESTED' });
     try {
-      const response = await ai.models.generateContent({
-        model: FAST_LITE_MODEL,
-        contents: "Give a 2-sentence simple Hindi guide on how to use Mukh-Lipi form assistant for an illiterate user."
-      });
-      setQuickHelpText(response.text || "");
+      const text = await ai.generateText(buildHelpPrompt(language), 'help');
+      setQuickHelpText(text);
     } catch (e) {
-      setQuickHelpText("नमस्ते, मैं आपकी मदद के लिए यहाँ हूँ।");
+      setQuickHelpText(t.helpFallback);
     } finally {
-      setIsGettingHelp(false);
+      dispatch({ type: 'HELP_FINISHED' });
     }
   };
 
   const readFormAloud = async () => {
-    if (isReadingForm) return;
-    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      setIsReadingForm(false);
-      return;
-    }
-    const ai = new GoogleGenAI({ apiKey });
-    setIsReadingForm(true);
+    if (!canHandle(sessionState, 'READ_ALOUD_STARTED') || !ai.isAvailable()) return;
+    dispatch({ type: 'READ_ALOUD_STARTED' });
     try {
       if (outputAudioCtxRef.current) await outputAudioCtxRef.current.resume();
-      const prompt = `Read this form summary clearly in Hindi: Aapka naam ${formData.fullName || 'khaali'}, janm tithi ${formData.dob || 'khaali'}, aur shahar ${formData.city || 'khaali'} hai.`;
-      const response = await ai.models.generateContent({
-        model: TTS_MODEL,
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-        },
-      });
-
-      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      const audioData = await ai.synthesizeSpeech(buildReadAloudPrompt(schema, formData, language, latinData), language.voiceName);
       if (audioData && outputAudioCtxRef.current) {
         const buffer = await decodeAudioData(decode(audioData), outputAudioCtxRef.current, 24000, 1);
         const source = outputAudioCtxRef.current.createBufferSource();
         source.buffer = buffer;
         source.connect(outputAudioCtxRef.current.destination);
-        source.onended = () => setIsReadingForm(false);
+        source.onended = () => dispatch({ type: 'READ_ALOUD_FINISHED' });
         source.start();
       } else {
-        setIsReadingForm(false);
+        dispatch({ type: 'READ_ALOUD_FINISHED' });
       }
     } catch (e) {
       console.error("TTS Error:", e);
-      setIsReadingForm(false);
+      dispatch({ type: 'READ_ALOUD_FINISHED' });
     }
   };
 
-  const handleFinalSubmit = async () => {
-    if (!isFormComplete) return;
-    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      console.error("API key not found");
+  const handleFinalSubmit = async (resolution?: DuplicateResolution) => {
+    if (!canHandle(sessionState, 'SUBMIT_STARTED')) return;
+    // A submit queued by voice that can't go ahead goes back to rest
+    if (!isFormComplete) {
+      dispatch({ type: 'SUBMIT_FAILED' });
       return;
     }
-    const ai = new GoogleGenAI({ apiKey });
-    setIsSaving(true);
+    // Also ends the conversation before a duplicate warning, which the applicant hears from the device
+    liveRef.current?.close();
+    dispatch({ type: 'SUBMIT_STARTED' });
+    if (!resolution && !demoScript) {
+      let matches: Submission[] = [];
+      try {
+        matches = await api.findDuplicates({ formType: schema.id, values: formData, latin: latinData });
+      } catch (e) {
+        // Only a hint for the operator; a lookup that fails must not hold up the submit
+      }
+      if (matches.length > 0) {
+        dispatch({ type: 'DUPLICATES_FOUND', matches });
+        return;
+      }
+    }
+    // The draft is removed on submit; a late auto-save must not bring it back
+    if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
     let finalSummary = "";
+    // The summary is optional; without the model the record is saved without one
+    if (cloudSummary && ai.isAvailable()) {
+      try {
+        finalSummary = await ai.generateText(buildSummaryPrompt(language, transcriptions), 'summary');
+      } catch (e) {}
+    }
+
     try {
-      const summaryResp = await ai.models.generateContent({
-        model: SUMMARY_MODEL,
-        contents: `Summarize this form session transcription into a clean final application note: ${transcriptions.map(t => t.text).join(" ")}`
-      });
-      finalSummary = summaryResp?.text || "";
-    } catch (e) {}
-
-    await api.submitForm({ ...formData, summary: finalSummary });
-    const history = await api.getAllSubmissions();
-    setSubmissions(history);
-    setFormData({ fullName: '', dob: '', city: '' });
+      if (!demoScript) await api.submitForm({ formType: schema.id, language: language.code, values: formData, latin: latinData, provenance, documents, summary: finalSummary, transcript: transcriptions, consent }, draftId, resolution);
+    } catch (err) {
+      console.error("Submit Error:", err);
+      dispatch({ type: 'SUBMIT_FAILED' });
+      return;
+    }
+    if (!demoScript) syncWorker.flush();
+    setDraftId(crypto.randomUUID());
+    resetForm();
     setTranscriptions([]);
-    setIsDone(false);
-    setSessionState(SessionState.IDLE);
-    setIsSaving(false);
+    setQueueToken(undefined);
+    setConsent([]);
+    if (kioskMode) clearApplicantView();
+    setDrafts(await api.listDrafts());
+    setSubmissionCount(await api.countSubmissions());
+    setHistoryVersion(v => v + 1);
+    dispatch({ type: 'SUBMIT_FINISHED' });
   };
 
-  const clearAllHistory = async () => {
-    await api.clearDatabase();
-    setSubmissions([]);
-    setIsConfirmingClear(false);
-  };
+  // Runs after the render that follows the assistant's closing turn, so the submit sees its final values
+  useEffect(() => {
+    if (sessionState === SessionState.SUBMIT_QUEUED) handleFinalSubmit();
+  }, [sessionState]);
 
+  const activeFieldId = schema.fields.find(f => !formData[f.id])?.id;
+  const correctionField = correction ? schema.fields.find(f => f.id === correction.fieldId) : undefined;
   const lastAssistantMsg = transcriptions.filter(t => t.role === 'assistant').slice(-1)[0]?.text;
 
   return (
-    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 font-['Noto_Sans_Devanagari'] overflow-hidden">
+    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 overflow-hidden" style={{ fontFamily: language.fontFamily }}>
       <header className="bg-white border-b border-emerald-100 p-4 shadow-sm relative z-20">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="bg-emerald-600 p-2 rounded-lg text-white shadow-md">
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
             </div>
-            <h1 className="text-2xl font-bold text-emerald-800">मुख-लिपि AI</h1>
+            <h1 className="text-2xl font-bold text-emerald-800">{t.appTitle}</h1>
+            {demoScript && (
+              <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-full pl-3 pr-1 py-1" title={t.demoNotice}>
+                <span className="text-xs font-black text-amber-800">{t.demoMode}</span>
+                <button
+                  onClick={exitDemo}
+                  disabled={!isAtRest(sessionState)}
+                  className="text-xs font-bold text-amber-700 bg-white rounded-full px-2 py-0.5 disabled:opacity-50"
+                >
+                  {t.exitDemo}
+                </button>
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-4">
+             <select
+              aria-label={t.language}
+              value={language.code}
+              disabled={!isAtRest(sessionState)}
+              onChange={(e) => selectLanguage(e.target.value as LanguageCode)}
+              className="bg-emerald-50 text-emerald-700 font-bold text-sm rounded-full px-3 py-2 border border-emerald-100 disabled:opacity-50"
+             >
+               {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+             </select>
+
              <button 
               onClick={() => {
                 if (!isMuted) stopAllAudio();
@@ -418,67 +908,108 @@ RULES:
                )}
              </button>
 
+             {kioskMode ? (
+               <button
+                onClick={() => dispatch({ type: 'OPERATOR_OPENED' })}
+                disabled={!canHandle(sessionState, 'OPERATOR_OPENED')}
+                className="text-slate-500 hover:text-emerald-600 font-bold text-sm px-3 py-1 rounded-full hover:bg-slate-50 transition-all disabled:opacity-50"
+               >
+                 {t.operator}
+               </button>
+             ) : (
+               <>
+               <button
+                onClick={lockApp}
+                disabled={!isAtRest(sessionState)}
+                title={t.lockNow}
+                aria-label={t.lockNow}
+                className="p-2 rounded-full bg-slate-50 text-slate-500 hover:text-emerald-600 transition-all disabled:opacity-50"
+               >
+                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+               </button>
+               <button
+                onClick={() => setLockMode('change')}
+                disabled={!isAtRest(sessionState)}
+                className="text-slate-500 hover:text-emerald-600 font-bold text-sm px-3 py-1 rounded-full hover:bg-slate-50 transition-all disabled:opacity-50"
+               >
+                 {t.changePin}
+               </button>
+
+               <button 
+                onClick={() => setShowHistory(!showHistory)}
+                className="text-slate-500 hover:text-emerald-600 font-bold text-sm flex items-center gap-2 px-3 py-1 rounded-full hover:bg-slate-50 transition-all"
+               >
+                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                 {t.history}
+               </button>
+               <button
+                onClick={enterKiosk}
+                disabled={!isAtRest(sessionState)}
+                className="text-slate-500 hover:text-emerald-600 font-bold text-sm px-3 py-1 rounded-full hover:bg-slate-50 transition-all disabled:opacity-50"
+               >
+                 {t.kioskMode}
+               </button>
+               </>
+             )}
              <button 
-              onClick={() => { setShowHistory(!showHistory); setIsConfirmingClear(false); }}
-              className="text-slate-500 hover:text-emerald-600 font-bold text-sm flex items-center gap-2 px-3 py-1 rounded-full hover:bg-slate-50 transition-all"
-             >
-               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-               इतिहास
-             </button>
-             <button 
-              disabled={sessionState !== SessionState.IDLE || isDone}
-              onClick={() => fileInputRef.current?.click()}
+              disabled={!canHandle(sessionState, 'SCAN_STARTED')}
+              onClick={openScanner}
               className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-2 rounded-full font-bold hover:bg-emerald-700 transition-all shadow-lg disabled:opacity-50 group overflow-hidden relative"
              >
                <span className="relative z-10 flex items-center gap-2">
                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
-                 दस्तावेज़ स्कैन
+                 {t.scanDocument}
                </span>
                <div className="absolute inset-0 bg-gradient-to-r from-emerald-400 to-emerald-600 opacity-0 group-hover:opacity-100 transition-opacity"></div>
              </button>
-             <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*" className="hidden" />
+             <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept="image/*,application/pdf" multiple className="hidden" />
           </div>
         </div>
       </header>
 
       <main className="flex-1 max-w-7xl mx-auto w-full flex flex-col lg:flex-row gap-6 p-4 md:p-6 relative">
-        <div className={`fixed inset-y-0 right-0 w-80 bg-white shadow-2xl z-30 transform transition-transform duration-300 border-l border-slate-100 ${showHistory ? 'translate-x-0' : 'translate-x-full'}`}>
-          <div className="p-6 h-full flex flex-col">
-            <div className="flex justify-between items-center mb-6">
-              <h2 className="text-xl font-bold text-slate-800">आवेदन इतिहास</h2>
-              <button onClick={() => setShowHistory(false)} className="text-slate-400 p-2 hover:bg-slate-50 rounded-full transition-colors">✕</button>
-            </div>
-            <div className="flex-1 overflow-y-auto space-y-4 pr-2">
-              {submissions.length === 0 && <p className="text-slate-400 text-center py-10 italic">कोई इतिहास नहीं</p>}
-              {submissions.map((s, i) => (
-                <div key={i} className="p-4 bg-slate-50 rounded-xl border border-slate-200">
-                  <p className="font-bold text-emerald-700">{s.fullName}</p>
-                  <p className="text-xs text-slate-500">{s.dob} • {s.city}</p>
-                  <p className="text-[10px] text-slate-400 mt-2">{new Date(s.submittedAt).toLocaleDateString()}</p>
-                </div>
-              ))}
-            </div>
-            <div className="mt-4 border-t pt-4">
-              {!isConfirmingClear ? (
-                <button 
-                  disabled={submissions.length === 0}
-                  onClick={() => setIsConfirmingClear(true)} 
-                  className="w-full text-xs text-red-500 font-bold border border-red-100 py-3 rounded-xl hover:bg-red-50 disabled:opacity-30"
-                >
-                  इतिहास मिटाएं
-                </button>
-              ) : (
-                <div className="bg-red-50 p-4 rounded-xl border border-red-100">
-                  <p className="text-xs font-bold text-red-800 text-center mb-3">पक्का मिटाना चाहते हैं?</p>
-                  <div className="flex gap-2">
-                    <button onClick={clearAllHistory} className="flex-1 bg-red-600 text-white text-xs font-bold py-2 rounded-lg">हाँ</button>
-                    <button onClick={() => setIsConfirmingClear(false)} className="flex-1 bg-white text-slate-600 text-xs font-bold py-2 rounded-lg border">नहीं</button>
-                  </div>
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
+        {api.isUnlocked && <HistoryDrawer
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          language={language}
+          refreshKey={historyVersion}
+          onChanged={async () => setSubmissionCount(await api.countSubmissions())}
+          onOpen={setOpenSubmission}
+        />}
+        {openSubmission && (
+          <SubmissionDetail submission={openSubmission} language={language} onClose={() => setOpenSubmission(null)} onChanged={handleSubmissionChanged} />
+        )}
+        {sessionState === SessionState.CAPTURING && (
+          <CameraCapture
+            language={language}
+            onCapture={(files) => {
+              dispatch({ type: 'CAMERA_CLOSED' });
+              scanFiles(files);
+            }}
+            onChooseFile={() => {
+              dispatch({ type: 'CAMERA_CLOSED' });
+              fileInputRef.current?.click();
+            }}
+            onClose={() => dispatch({ type: 'CAMERA_CLOSED' })}
+          />
+        )}
+        {session.consentScope && (
+          <ConsentDialog notice={consentNotice(language, session.consentScope)} language={language} onAnswer={answerConsentPrompt} />
+        )}
+        {session.duplicates && (
+          <DuplicateDialog matches={session.duplicates} language={language} requirePin={kioskMode} onResolve={handleFinalSubmit} onCancel={() => dispatch({ type: 'DUPLICATE_CANCELLED' })} />
+        )}
+        {session.scan && (
+          <DocumentReview
+            scan={session.scan}
+            schema={schema}
+            current={formData}
+            language={language}
+            lowConfidence={LOW_CONFIDENCE}
+            onMerge={mergeScan}
+            onCancel={() => dispatch({ type: 'SCAN_REVIEWED' })}
+          />
+        )}
 
         <section className="flex-1 flex flex-col items-center justify-center bg-white rounded-[2.5rem] shadow-sm border border-slate-200 relative p-8">
           <div className="absolute top-6 left-6">
@@ -490,14 +1021,15 @@ RULES:
             ) : (
               <button 
                 onClick={getQuickHelp}
+                disabled={!canHandle(sessionState, 'HELP_REQUESTED')}
                 className="bg-emerald-50 p-3 rounded-full text-emerald-600 hover:bg-emerald-100 transition-all border border-emerald-100 flex items-center gap-2"
               >
-                <svg className={`w-5 h-5 ${isGettingHelp ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                <svg className={`w-5 h-5 ${sessionState === SessionState.GETTING_HELP ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
               </button>
             )}
           </div>
 
-          {sessionState === SessionState.IDLE && !isDone && (
+          {screen === SessionState.IDLE && (
              <div className="text-center space-y-10">
                <div className="relative inline-block">
                  <div className="absolute -inset-6 bg-emerald-500/10 rounded-full animate-pulse"></div>
@@ -506,142 +1038,332 @@ RULES:
                  </div>
                </div>
                <div className="space-y-4">
-                 <h2 className="text-4xl font-extrabold text-slate-800">नमस्ते!</h2>
-                 <p className="text-xl text-slate-500 max-w-sm mx-auto font-medium">बोलना शुरू करने के लिए बटन दबाएं।</p>
+                 {kioskMode && queueToken !== undefined && (
+                   <p className="inline-block bg-emerald-50 text-emerald-800 text-2xl font-black px-6 py-2 rounded-full">{formatString(t.tokenNumber, { n: queueToken })}</p>
+                 )}
+                 <h2 className="text-4xl font-extrabold text-slate-800">{t.greeting}</h2>
+                 <p className="text-xl text-slate-500 max-w-sm mx-auto font-medium">{t.pressToSpeak}</p>
+               </div>
+               <div className="flex flex-wrap justify-center gap-2 max-w-md mx-auto">
+                 {FORM_SCHEMAS.map(s => (
+                   <button
+                    key={s.id}
+                    onClick={() => selectSchema(s.id)}
+                    className={`px-4 py-2 rounded-full text-sm font-bold border transition-all ${s.id === schemaId ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-emerald-50'}`}
+                   >
+                     {schemaTitle(s, language.code)}
+                   </button>
+                 ))}
                </div>
                <button 
                 onClick={startSession}
                 className="bg-emerald-600 text-white text-3xl font-bold py-6 px-16 rounded-[2.5rem] hover:bg-emerald-700 shadow-2xl transform active:scale-95 transition-all"
                >
-                 बातचीत शुरू करें
+                 {t.startConversation}
                </button>
+               {!kioskMode && (
+                 <DraftList
+                   drafts={drafts}
+                   activeDraftId={draftId}
+                   language={language}
+                   onResume={resumeDraft}
+                   onDiscard={discardDraft}
+                   onNew={startNewDraft}
+                 />
+               )}
+               {DEMO_SCRIPTS.length > 0 && !demoScript && !kioskMode && (
+                 <div className="max-w-md mx-auto text-left">
+                   <p className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2">{t.demoMode}</p>
+                   <div className="flex flex-wrap gap-2">
+                     {DEMO_SCRIPTS.map(script => (
+                       <button
+                        key={script.id}
+                        onClick={() => startDemo(script)}
+                        className="px-3 py-1.5 rounded-full text-xs font-bold border border-amber-200 bg-amber-50 text-amber-800 hover:bg-amber-100"
+                       >
+                         {script.title}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+               )}
              </div>
           )}
 
-          {sessionState === SessionState.ERROR && (
+          {screen === SessionState.ERROR && (
             <div className="text-center space-y-6">
                <div className="w-20 h-20 bg-red-100 text-red-600 rounded-full flex items-center justify-center mx-auto">
                  <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                </div>
-               <p className="text-xl font-bold text-red-800">कनेक्शन में त्रुटि हुई।</p>
-               <button onClick={startSession} className="bg-emerald-600 text-white px-8 py-3 rounded-full font-bold">पुनः प्रयास करें</button>
+               <p className="text-xl font-bold text-red-800">{t.connectionError}</p>
+               <button onClick={startSession} className="bg-emerald-600 text-white px-8 py-3 rounded-full font-bold">{t.retry}</button>
+               {!provider.isAvailable() && DEMO_SCRIPTS.length > 0 && (
+                 <button onClick={() => startDemo(DEMO_SCRIPTS[0])} className="block mx-auto text-amber-700 font-bold">{t.tryDemo}</button>
+               )}
             </div>
           )}
 
-          {sessionState === SessionState.EXTRACTING && (
+          {screen === SessionState.EXTRACTING && (
             <div className="text-center space-y-8 animate-pulse">
               <div className="w-32 h-32 bg-emerald-100 rounded-[2rem] flex items-center justify-center mx-auto text-emerald-600">
                 <svg className="w-16 h-16 animate-bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
               </div>
-              <h3 className="text-2xl font-bold text-emerald-800">दस्तावेज़ स्कैन हो रहा है...</h3>
+              <h3 className="text-2xl font-bold text-emerald-800">{t.scanning}</h3>
+            </div>
+          )}
+
+          {(screen === SessionState.READING_ALOUD || screen === SessionState.SUBMITTING) && (
+            <div className="text-center space-y-8 animate-pulse">
+              <div className="w-32 h-32 bg-emerald-100 rounded-[2rem] flex items-center justify-center mx-auto text-emerald-600">
+                <svg className="w-16 h-16" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+              </div>
+              <h3 className="text-2xl font-bold text-emerald-800">{screen === SessionState.READING_ALOUD ? t.readingAloud : t.submitting}</h3>
             </div>
           )}
 
-          {(sessionState === SessionState.LISTENING || sessionState === SessionState.SPEAKING || sessionState === SessionState.CONNECTING) && !isDone && (
+          {isLive(sessionState) && (
              <div className="w-full h-full flex flex-col items-center justify-center gap-12">
                 <div className={`relative w-72 h-72 rounded-full flex items-center justify-center transition-all duration-700 ${
                   sessionState === SessionState.LISTENING ? 'bg-emerald-50 scale-105 shadow-[0_0_80px_rgba(16,185,129,0.2)] border-4 border-emerald-100' : 'bg-emerald-600 shadow-2xl'
                 }`}>
                    {sessionState === SessionState.LISTENING ? (
                       <div className="flex items-end gap-3 h-24">
-                         {[...Array(8)].map((_, i) => (
-                           <div key={i} className="w-3.5 bg-emerald-500 rounded-full animate-bounce" style={{ animationDelay: `${i*0.1}s`, height: `${20 + Math.random()*80}%` }}></div>
+                         {METER_WEIGHTS.map((weight, i) => (
+                           <div key={i} className="w-3.5 bg-emerald-500 rounded-full transition-[height] duration-100" style={{ height: `${12 + micLevel * weight * 88}%` }}></div>
+                         ))}
+                      </div>
+                   ) : sessionState === SessionState.THINKING ? (
+                      <div className="flex items-center gap-4">
+                         {[0, 150, 300].map(delay => (
+                           <div key={delay} className="w-5 h-5 bg-white rounded-full animate-bounce" style={{ animationDelay: `${delay}ms` }}></div>
                          ))}
                       </div>
                    ) : (
                       <div className="flex flex-col items-center gap-4">
                         <div className="w-32 h-32 bg-white/20 rounded-full animate-ping"></div>
-                        <button 
-                          onClick={stopAllAudio}
-                          className="mt-4 bg-white text-emerald-600 px-4 py-2 rounded-full font-black text-sm shadow-lg hover:bg-emerald-50 active:scale-95 transition-all flex items-center gap-2"
-                        >
-                          बोलना बंद करें
-                        </button>
+                        {sessionState === SessionState.SPEAKING && (
+                          <button 
+                            onClick={stopAllAudio}
+                            className="mt-4 bg-white text-emerald-600 px-4 py-2 rounded-full font-black text-sm shadow-lg hover:bg-emerald-50 active:scale-95 transition-all flex items-center gap-2"
+                          >
+                            {t.stopSpeaking}
+                          </button>
+                        )}
                       </div>
                    )}
                 </div>
                 <div className="max-w-xl w-full text-center">
                   <p className="text-3xl font-bold text-slate-800 leading-tight">
-                    {lastAssistantMsg || (sessionState === SessionState.CONNECTING ? "तैयार हो रहे हैं..." : "सुन रहा हूँ...")}
+                    {sessionState === SessionState.RECONNECTING ? t.reconnecting : sessionState === SessionState.THINKING ? t.thinking : lastAssistantMsg || (sessionState === SessionState.CONNECTING ? t.preparing : t.listening)}
                   </p>
                 </div>
              </div>
           )}
 
-          {isDone && isFormComplete && (
+          {screen === SessionState.DONE && (
             <div className="text-center space-y-10 animate-in zoom-in duration-500">
               <div className="w-32 h-32 bg-emerald-100 rounded-full flex items-center justify-center mx-auto text-emerald-600 shadow-xl border-4 border-white">
                 <svg className="w-16 h-16" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="4" d="M5 13l4 4L19 7" /></svg>
               </div>
-              <h2 className="text-4xl font-black text-slate-900">फॉर्म पूरा हो गया!</h2>
-              <p className="text-slate-500 text-xl">नीचे दिए बटन से जमा करें।</p>
-              <button onClick={() => { setIsDone(false); startSession(); }} className="text-slate-400 font-bold hover:text-slate-600">सुधारें (Edit)</button>
+              <h2 className="text-4xl font-black text-slate-900">{t.formComplete}</h2>
+              <p className="text-slate-500 text-xl">{t.submitBelow}</p>
+              <button onClick={startSession} className="text-slate-400 font-bold hover:text-slate-600">{t.edit}</button>
+              <p className="text-xs text-slate-400">{t.tapToCorrect}</p>
+            </div>
+          )}
+
+          {scanError && (
+            <div className="mt-8 w-full max-w-xl flex items-center justify-between gap-3 bg-red-50 border border-red-200 rounded-2xl px-5 py-3">
+              <p className="text-sm font-bold text-red-700">{scanError}</p>
+              <button onClick={() => setScanError('')} className="text-red-400 text-xs p-1">✕</button>
             </div>
           )}
+
+          {correctionField && (
+            <CorrectionPanel
+              key={correction.fieldId}
+              label={fieldLabel(correctionField, language.code)}
+              correction={correction}
+              language={language}
+              onConfirm={() => {
+                settleCorrection(true);
+                notifySession("The operator confirmed the new value on screen. Continue with the form.");
+              }}
+              onCancel={() => {
+                settleCorrection(false);
+                notifySession("The operator cancelled the correction and the old value was kept. Continue with the form.");
+              }}
+              onType={applyTypedCorrection}
+            />
+          )}
         </section>
 
         <aside className="w-full lg:w-96 flex flex-col gap-6">
            <div className="bg-white rounded-[2.5rem] p-8 shadow-sm border border-slate-200 flex-1 flex flex-col relative overflow-hidden">
               <div className="flex items-center justify-between mb-10">
-                 <h3 className="text-2xl font-bold text-slate-900 leading-tight">डिजिटल आवेदन</h3>
+                 <div>
+                   <h3 className="text-2xl font-bold text-slate-900 leading-tight">{t.digitalApplication}</h3>
+                   <p className="text-xs font-bold text-emerald-700 mt-1">{schemaTitle(schema, language.code)}</p>
+                 </div>
                  <button 
                   onClick={readFormAloud} 
-                  disabled={isReadingForm || !formData.fullName}
-                  className={`p-3 rounded-2xl transition-all ${isReadingForm ? 'bg-emerald-600 text-white animate-pulse' : 'bg-slate-50 text-emerald-600 hover:bg-emerald-50'}`}
+                  disabled={!canHandle(sessionState, 'READ_ALOUD_STARTED') || !hasAnyValue(schema, formData)}
+                  className={`p-3 rounded-2xl transition-all ${sessionState === SessionState.READING_ALOUD ? 'bg-emerald-600 text-white animate-pulse' : 'bg-slate-50 text-emerald-600 hover:bg-emerald-50'}`}
                  >
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
                  </button>
               </div>
 
               <div className="space-y-8 flex-1">
-                 <FormField label="नाम" value={formData.fullName} isActive={!formData.fullName && sessionState !== SessionState.IDLE} />
-                 <FormField label="जन्म तिथि" value={formData.dob} isActive={!!formData.fullName && !formData.dob} />
-                 <FormField label="शहर" value={formData.city} isActive={!!formData.dob && !formData.city} />
+                 {schema.fields.map((f, i) => (
+                   <FormField
+                    key={f.id}
+                    label={fieldLabel(f, language.code)}
+                    placeholder={t.provideInfo}
+                    value={formData[f.id] || ''}
+                    latin={hasLatinSpelling(f) && formData[f.id] ? latinData[f.id] || '' : undefined}
+                    provenance={formData[f.id] ? provenance[f.id] : undefined}
+                    strings={t}
+                    isActive={correction ? f.id === correction.fieldId : f.id === activeFieldId && (i > 0 || screen !== SessionState.IDLE)}
+                    onSelect={() => beginCorrection(f.id)}
+                    onLatinChange={(latin) => updateLatin(f.id, latin)}
+                   />
+                 ))}
               </div>
 
               {/* SEPARATE SUBMISSION BUTTON: Only pops when complete */}
               {isFormComplete && (
                 <div className="mt-8 animate-in zoom-in slide-in-from-bottom-10 duration-700">
                   <button 
-                    onClick={handleFinalSubmit}
-                    disabled={isSaving}
+                    onClick={() => handleFinalSubmit()}
+                    disabled={!canHandle(sessionState, 'SUBMIT_STARTED')}
                     className="w-full bg-emerald-600 text-white py-6 rounded-[2rem] font-black text-2xl shadow-[0_20px_40px_rgba(16,185,129,0.3)] hover:bg-emerald-700 active:scale-95 transition-all flex items-center justify-center gap-3 relative overflow-hidden group"
                   >
-                    <span className="relative z-10">{isSaving ? 'जमा हो रहा है...' : 'आवेदन जमा करें'}</span>
-                    {!isSaving && <svg className="w-6 h-6 animate-pulse" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>}
+                    <span className="relative z-10">{sessionState === SessionState.SUBMITTING ? t.submitting : t.submitApplication}</span>
+                    {sessionState !== SessionState.SUBMITTING && <svg className="w-6 h-6 animate-pulse" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>}
                     <div className="absolute inset-0 bg-white/10 translate-y-full group-hover:translate-y-0 transition-transform duration-300"></div>
                   </button>
-                  <p className="text-center text-[11px] text-emerald-700 font-bold mt-3 uppercase tracking-widest">Submit Application</p>
+                  <p className="text-center text-[11px] text-emerald-700 font-bold mt-3 uppercase tracking-widest">{t.submitApplication}</p>
                 </div>
               )}
 
+              {!kioskMode && (
+                <label className="mt-6 flex items-center gap-2 text-xs font-bold text-slate-500">
+                  <input type="checkbox" checked={cloudSummary} onChange={(e) => toggleCloudSummary(e.target.checked)} className="accent-emerald-600" />
+                  {t.cloudSummary}
+                </label>
+              )}
+
               <div className="mt-10 p-5 bg-gradient-to-br from-emerald-50 to-white rounded-3xl border border-emerald-100">
-                 <p className="text-[11px] text-emerald-700 font-bold leading-relaxed">Gemini AI द्वारा संचालित सुरक्षित आवेदन।</p>
+                 <p className="text-[11px] text-emerald-700 font-bold leading-relaxed">{t.poweredBy}</p>
               </div>
            </div>
 
            <div className="bg-slate-900 rounded-[2.5rem] p-6 text-white shadow-2xl relative overflow-hidden">
               <div>
-                 <p className="text-4xl font-black text-emerald-400 mb-1">{submissions.length}</p>
-                 <p className="text-slate-400 text-xs font-black uppercase tracking-widest">Database Record</p>
+                 <p className="text-4xl font-black text-emerald-400 mb-1">{submissionCount}</p>
+                 <p className="text-slate-400 text-xs font-black uppercase tracking-widest">{t.databaseRecord}</p>
               </div>
            </div>
         </aside>
       </main>
+      {sessionState === SessionState.OPERATOR && api.isUnlocked && (
+        <OperatorPanel
+          drafts={drafts}
+          activeDraftId={draftId}
+          language={language}
+          onAddApplicant={addApplicant}
+          onCall={callApplicant}
+          onRemove={discardDraft}
+          onOpenHistory={() => {
+            dispatch({ type: 'OPERATOR_CLOSED' });
+            setShowHistory(true);
+          }}
+          onChangePin={() => {
+            dispatch({ type: 'OPERATOR_CLOSED' });
+            setLockMode('change');
+          }}
+          onLock={lockApp}
+          cloudSummary={cloudSummary}
+          onToggleCloudSummary={toggleCloudSummary}
+          onExitKiosk={exitKiosk}
+          onClose={() => dispatch({ type: 'OPERATOR_CLOSED' })}
+        />
+      )}
+      {lockMode && (
+        <LockScreen
+          mode={lockMode}
+          language={language}
+          onUnlocked={handleUnlocked}
+          onCancel={lockMode === 'change' ? () => setLockMode(null) : undefined}
+        />
+      )}
     </div>
   );
 };
 
-const FormField: React.FC<{ label: string; value: string; isActive: boolean }> = ({ label, value, isActive }) => (
-  <div className={`transition-all duration-700 relative ${isActive ? 'scale-105 z-10' : 'z-0'}`}>
+const SOURCE_BADGE_STYLES: Record<FieldSource, string> = {
+  voice: 'bg-emerald-100 text-emerald-700',
+  document: 'bg-sky-100 text-sky-700',
+  typed: 'bg-violet-100 text-violet-700'
+};
+
+interface FormFieldProps {
+  label: string;
+  value: string;
+  /** Latin spelling of a name, place or text value; undefined for fields kept in one script */
+  latin?: string;
+  placeholder: string;
+  isActive: boolean;
+  provenance?: FieldProvenance;
+  strings: UIStrings;
+  /** Starts a correction of just this field */
+  onSelect: () => void;
+  onLatinChange: (latin: string) => void;
+}
+
+const FormField: React.FC<FormFieldProps> = ({ label, value, latin, placeholder, isActive, provenance, strings: t, onSelect, onLatinChange }) => (
+  <div
+    role="button"
+    tabIndex={0}
+    title={t.tapToCorrect}
+    onClick={onSelect}
+    onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onSelect(); } }}
+    className={`transition-all duration-700 relative cursor-pointer ${isActive ? 'scale-105 z-10' : 'z-0'}`}
+  >
     <div className={`p-6 rounded-[2rem] border-2 transition-all ${isActive ? 'border-emerald-500 bg-emerald-50 shadow-2xl ring-8 ring-emerald-50' : value ? 'border-slate-100 bg-slate-50' : 'border-dashed border-slate-200 bg-white opacity-40'}`}>
       <div className="flex items-center justify-between mb-2">
         <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</label>
         {value && <div className="p-1 bg-emerald-500 rounded-full shadow-sm text-white"><svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg></div>}
       </div>
       <p className={`text-2xl font-bold truncate ${value ? 'text-slate-900' : 'text-slate-300 italic'}`}>
-        {value || 'जानकारी दें'}
+        {value || placeholder}
       </p>
+      {latin !== undefined && (
+        // Typing here must not start a correction of the field
+        <label className="flex items-center gap-2 mt-1" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">{t.latinSpelling}</span>
+          <input
+            value={latin}
+            onChange={(e) => onLatinChange(e.target.value)}
+            lang="en"
+            className="flex-1 min-w-0 bg-transparent text-lg font-semibold text-slate-600 border-b border-dashed border-slate-300 focus:outline-none focus:border-emerald-500"
+          />
+        </label>
+      )}
+      {provenance && (
+        <div
+          className="flex flex-wrap items-center gap-2 mt-2"
+          title={`${new Date(provenance.at).toLocaleString()} • ${formatString(t.confidenceLevel, { percent: Math.round(provenance.confidence * 100) })}`}
+        >
+          <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${SOURCE_BADGE_STYLES[provenance.source]}`}>
+            {sourceLabel(t, provenance.source)}
+          </span>
+          {provenance.confidence < LOW_CONFIDENCE && (
+            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">⚠ {t.lowConfidence}</span>
+          )}
+        </div>
+      )}
     </div>
     {isActive && (
       <div className="absolute -left-3 top-1/2 -translate-y-1/2 w-1.5 h-16 bg-emerald-500 rounded-full animate-pulse shadow-[0_0_15px_rgba(16,185,129,0.5)]"></div>
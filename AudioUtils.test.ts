@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { encode, decode, decodeAudioData, floatTo16BitPCM, createBlob, Resampler } from './AudioUtils';
+
+const sine = (hz: number, rate: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => Math.sin((2 * Math.PI * hz * i) / rate));
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+// Just enough of an AudioContext for decodeAudioData
+const fakeContext = () => ({
+  createBuffer: (channels: number, length: number, sampleRate: number) => {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { numberOfChannels: channels, length, sampleRate, getChannelData: (c: number) => data[c] };
+  }
+}) as unknown as AudioContext;
+
+describe('floatTo16BitPCM', () => {
+  it('clips at ±1 instead of wrapping around', () => {
+    const pcm = floatTo16BitPCM(Float32Array.from([1, -1, 1.5, -1.5, 0]));
+    expect(Array.from(pcm)).toEqual([32767, -32768, 32767, -32768, 0]);
+  });
+});
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+});
+
+describe('createBlob', () => {
+  it('carries 16 kHz little-endian PCM', () => {
+    const blob = createBlob(Float32Array.from([0.5, -0.5]));
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    const pcm = new Int16Array(decode(blob.data).buffer);
+    expect(Array.from(pcm)).toEqual([16383, -16384]);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('splits interleaved channels and scales to ±1', async () => {
+    const pcm = Int16Array.from([16384, -32768, -16384, 0]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext(), 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-1, 0]);
+  });
+
+  it('reads a view that does not start at the beginning of its buffer', async () => {
+    const bytes = new Uint8Array(6);
+    new Int16Array(bytes.buffer).set([0, 16384, -16384]);
+    const buffer = await decodeAudioData(bytes.subarray(2), fakeContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+  });
+
+  it('round-trips samples through PCM within one step', async () => {
+    const input = sine(440, 24000, 0.01);
+    const bytes = new Uint8Array(floatTo16BitPCM(input).buffer);
+    const output = (await decodeAudioData(decode(encode(bytes)), fakeContext(), 24000, 1)).getChannelData(0);
+    output.forEach((s, i) => expect(Math.abs(s - input[i])).toBeLessThan(1 / 16384));
+  });
+});
+
+describe.each([44100, 48000])('Resampler from %i Hz to 16 kHz', (fromRate) => {
+  it('produces the target number of samples', () => {
+    const out = new Resampler(fromRate, 16000).process(sine(440, fromRate, 1));
+    expect(Math.abs(out.length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps speech-band tones at full level', () => {
+    const out = new Resampler(fromRate, 16000).process(sine(1000, fromRate, 0.5));
+    // Skip the filter's start-up
+    expect(rms(out.subarray(100))).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  it('filters tones above the new Nyquist rate instead of aliasing them', () => {
+    const out = new Resampler(fromRate, 16000).process(sine(12000, fromRate, 0.5));
+    expect(rms(out.subarray(100))).toBeLessThan(0.05);
+  });
+
+  it('gives the same output whether fed in one piece or in chunks', () => {
+    const input = sine(700, fromRate, 0.2);
+    const whole = new Resampler(fromRate, 16000).process(input);
+    const chunked = new Resampler(fromRate, 16000);
+    const parts: number[] = [];
+    for (let i = 0; i < input.length; i += 128) parts.push(...chunked.process(input.subarray(i, i + 128)));
+    expect(parts.length).toBe(whole.length);
+    parts.forEach((s, i) => expect(s).toBeCloseTo(whole[i], 5));
+  });
+});
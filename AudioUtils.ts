@@ -38,14 +38,129 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+/** Saturating conversion: loud input beyond ±1 clips instead of wrapping around */
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
   }
+  return int16;
+}
+
+export function createPcmBlob(int16: Int16Array, sampleRate = 16000): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+  return createPcmBlob(floatTo16BitPCM(data));
+}
+
+// Odd, so the filter has a whole-sample delay
+const FILTER_TAPS = 31;
+
+/** Blackman-windowed sinc low-pass; `cutoff` is a fraction of the sample rate (0–0.5) */
+function lowPassKernel(cutoff: number, taps: number): Float32Array {
+  const kernel = new Float32Array(taps);
+  const mid = (taps - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < taps; i++) {
+    const x = i - mid;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (taps - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (taps - 1));
+    kernel[i] = sinc * window;
+    sum += kernel[i];
+  }
+  return kernel.map(k => k / sum);
+}
+
+/**
+ * Streaming resampler for mic capture. Downsampling is low-pass filtered first so
+ * content above the new Nyquist rate doesn't alias; samples are then linearly
+ * interpolated. State carries across calls so chunk boundaries stay seamless.
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly kernel: Float32Array | null;
+  private history: Float32Array;
+  // Read position, where 0 is the last sample of the previous chunk
+  private position = 1;
+  private previous = 0;
+
+  constructor(public readonly fromRate: number, public readonly toRate: number) {
+    this.step = fromRate / toRate;
+    this.kernel = fromRate > toRate ? lowPassKernel((0.5 * 0.9) / this.step, FILTER_TAPS) : null;
+    this.history = new Float32Array(FILTER_TAPS - 1);
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (input.length === 0) return new Float32Array(0);
+    if (this.fromRate === this.toRate) return input.slice();
+    const filtered = this.kernel ? this.filter(input) : input;
+    const out = new Float32Array(Math.ceil((filtered.length - this.position + 1) / this.step) + 1);
+    let n = 0;
+    let pos = this.position;
+    while (pos < filtered.length) {
+      const i = Math.floor(pos);
+      const a = i === 0 ? this.previous : filtered[i - 1];
+      out[n++] = a + (filtered[i] - a) * (pos - i);
+      pos += this.step;
+    }
+    this.position = pos - filtered.length;
+    this.previous = filtered[filtered.length - 1];
+    return out.slice(0, n);
+  }
+
+  private filter(input: Float32Array): Float32Array {
+    const kernel = this.kernel!;
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+    const out = new Float32Array(input.length);
+    for (let n = 0; n < input.length; n++) {
+      let acc = 0;
+      for (let k = 0; k < kernel.length; k++) acc += kernel[k] * buffer[n + kernel.length - 1 - k];
+      out[n] = acc;
+    }
+    this.history = buffer.slice(buffer.length - this.history.length);
+    return out;
+  }
+}
+
+/**
+ * Collects 16-bit PCM for the conversation turn in progress so it can be stored
+ * alongside the transcript once the turn completes.
+ */
+export class PcmRecorder {
+  private chunks: Uint8Array[] = [];
+  private byteLength = 0;
+
+  constructor(public readonly sampleRate: number) {}
+
+  push(bytes: Uint8Array): void {
+    this.chunks.push(bytes.slice());
+    this.byteLength += bytes.byteLength;
+  }
+
+  /** Returns everything recorded since the last call, or null if nothing was */
+  take(): ArrayBuffer | null {
+    if (this.byteLength === 0) return null;
+    const pcm = new Uint8Array(this.byteLength);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      pcm.set(chunk, offset);
+      offset += chunk.byteLength;
+    });
+    this.reset();
+    return pcm.buffer;
+  }
+
+  reset(): void {
+    this.chunks = [];
+    this.byteLength = 0;
+  }
+}
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LanguageConfig, UIStrings } from './i18n';
+import { speakLocally } from './localSpeech';
+import { ANALYSIS_WIDTH, QualityIssue, Rect, toGray, assessQuality, findContentBounds, estimateSkew } from './imageQuality';
+
+// ID-1 card proportions (85.6 × 54 mm), which Aadhaar, PAN and voter ID all use
+const CARD_ASPECT = 85.6 / 54;
+// Share of the frame width the guide covers
+const GUIDE_WIDTH = 0.85;
+const ANALYSIS_INTERVAL_MS = 800;
+// Don't repeat spoken guidance more often than this
+const SPEAK_INTERVAL_MS = 4000;
+const MAX_SIDES = 2;
+
+type Guidance = QualityIssue | 'ready';
+
+interface Capture {
+  blob: Blob;
+  url: string;
+  issues: QualityIssue[];
+}
+
+interface CameraCaptureProps {
+  language: LanguageConfig;
+  onCapture: (files: File[]) => void;
+  /** Falls back to the file picker, e.g. for PDFs */
+  onChooseFile: () => void;
+  onClose: () => void;
+}
+
+const guidanceText = (t: UIStrings, guidance: Guidance): string => {
+  switch (guidance) {
+    case 'dark': return t.guideDark;
+    case 'bright': return t.guideBright;
+    case 'glare': return t.guideGlare;
+    case 'blurry': return t.guideBlurry;
+    default: return t.guideReady;
+  }
+};
+
+/** The guide rectangle in video pixels: centred, card-shaped, as wide as fits */
+function guideRect(videoWidth: number, videoHeight: number): Rect {
+  let width = videoWidth * GUIDE_WIDTH;
+  let height = width / CARD_ASPECT;
+  if (height > videoHeight * GUIDE_WIDTH) {
+    height = videoHeight * GUIDE_WIDTH;
+    width = height * CARD_ASPECT;
+  }
+  return { x: (videoWidth - width) / 2, y: (videoHeight - height) / 2, width, height };
+}
+
+/** Draws `rect` of the source scaled to `width` pixels wide and returns its pixels */
+function sample(source: CanvasImageSource, rect: Rect, width: number): ImageData {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(width * rect.height / rect.width);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Crops the frame to the card inside the guide and straightens it. Returns the
+ * JPEG together with the quality problems found in the result.
+ */
+async function processFrame(video: HTMLVideoElement): Promise<{ blob: Blob; issues: QualityIssue[] }> {
+  const guide = guideRect(video.videoWidth, video.videoHeight);
+  const scale = guide.width / ANALYSIS_WIDTH;
+  const guideGray = toGray(sample(video, guide, ANALYSIS_WIDTH));
+  const bounds = findContentBounds(guideGray);
+  const crop: Rect = {
+    x: guide.x + bounds.x * scale,
+    y: guide.y + bounds.y * scale,
+    width: bounds.width * scale,
+    height: bounds.height * scale
+  };
+  const cropGray = toGray(sample(video, crop, ANALYSIS_WIDTH));
+  const skew = estimateSkew(cropGray);
+  const { issues } = assessQuality(cropGray);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(crop.width);
+  canvas.height = Math.round(crop.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((-skew * Math.PI) / 180);
+  ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, -canvas.width / 2, -canvas.height / 2, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  if (!blob) throw new Error('Could not encode the captured frame');
+  return { blob, issues };
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ language, onCapture, onChooseFile, onClose }) => {
+  const t = language.strings;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastSpokenRef = useRef<{ text: string; at: number }>({ text: '', at: 0 });
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
+  const [guidance, setGuidance] = useState<Guidance | null>(null);
+  const [preview, setPreview] = useState<Capture | null>(null);
+  const [sides, setSides] = useState<Capture[]>([]);
+  const [cameraError, setCameraError] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const speak = (text: string, force = false) => {
+    const now = Date.now();
+    const last = lastSpokenRef.current;
+    if (!force && (text === last.text || now - last.at < SPEAK_INTERVAL_MS)) return;
+    lastSpokenRef.current = { text, at: now };
+    speakLocally(text, language.code);
+  };
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 } } })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+        speak(t.cameraHint, true);
+      })
+      .catch(err => {
+        console.error("Camera Error:", err);
+        setCameraError(true);
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      window.speechSynthesis?.cancel();
+    };
+  }, []);
+
+  // Live guidance while framing
+  useEffect(() => {
+    if (!videoSize || preview) return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      const { issues } = assessQuality(toGray(sample(video, guideRect(video.videoWidth, video.videoHeight), ANALYSIS_WIDTH)));
+      const next: Guidance = issues[0] || 'ready';
+      setGuidance(next);
+      speak(guidanceText(t, next));
+    }, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [videoSize, preview, language]);
+
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || isProcessing) return;
+    setIsProcessing(true);
+    try {
+      const { blob, issues } = await processFrame(video);
+      setPreview({ blob, url: URL.createObjectURL(blob), issues });
+      if (issues.length > 0) speak(guidanceText(t, issues[0]), true);
+    } catch (err) {
+      console.error("Capture Error:", err);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const finish = (captures: Capture[]) => {
+    onCapture(captures.map((c, i) => new File([c.blob], `side-${i + 1}.jpg`, { type: 'image/jpeg' })));
+  };
+
+  const guide = videoSize ? guideRect(videoSize.width, videoSize.height) : null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900 flex flex-col items-center justify-center p-4 gap-4">
+      <button onClick={onClose} aria-label={t.cancel} className="absolute top-4 right-4 text-white/70 p-2 hover:bg-white/10 rounded-full">✕</button>
+
+      {cameraError && <p className="text-lg font-bold text-white">{t.cameraUnavailable}</p>}
+      {preview && <img src={preview.url} alt="" className="max-h-[60vh] max-w-full rounded-2xl shadow-2xl" />}
+      {/* Stays mounted under the preview so the stream is still attached for the back side */}
+      {!cameraError && (
+        <div className={`relative w-full max-w-2xl ${preview ? 'hidden' : ''}`}>
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+            className="w-full h-auto rounded-2xl bg-black"
+          />
+          {guide && videoSize && (
+            <div
+              className={`absolute rounded-2xl border-4 shadow-[0_0_0_9999px_rgba(15,23,42,0.55)] transition-colors ${guidance === 'ready' ? 'border-emerald-400' : 'border-amber-300'}`}
+              style={{
+                left: `${(guide.x / videoSize.width) * 100}%`,
+                top: `${(guide.y / videoSize.height) * 100}%`,
+                width: `${(guide.width / videoSize.width) * 100}%`,
+                height: `${(guide.height / videoSize.height) * 100}%`
+              }}
+            />
+          )}
+        </div>
+      )}
+
+      <p className={`text-xl font-bold text-center ${preview?.issues.length ? 'text-amber-300' : 'text-white'}`}>
+        {preview
+          ? (preview.issues.length ? guidanceText(t, preview.issues[0]) : guidanceText(t, 'ready'))
+          : guidance ? guidanceText(t, guidance) : t.cameraHint}
+      </p>
+
+      <div className="flex flex-wrap justify-center gap-3">
+        {preview ? (
+          <>
+            <button onClick={() => setPreview(null)} className="px-6 py-3 rounded-full bg-white/10 text-white font-bold">{t.retake}</button>
+            {sides.length + 1 < MAX_SIDES && (
+              <button
+                onClick={() => {
+                  setSides([...sides, preview]);
+                  setPreview(null);
+                }}
+                className="px-6 py-3 rounded-full bg-white text-slate-800 font-bold"
+              >
+                {t.addBackSide}
+              </button>
+            )}
+            <button onClick={() => finish([...sides, preview])} className="px-6 py-3 rounded-full bg-emerald-500 text-white font-bold">{t.usePhotos}</button>
+          </>
+        ) : (
+          <>
+            {!cameraError && (
+              <button
+                onClick={capture}
+                disabled={!videoSize || isProcessing}
+                className="px-10 py-4 rounded-full bg-emerald-500 text-white text-xl font-black disabled:opacity-50"
+              >
+                {t.capturePhoto}
+              </button>
+            )}
+            <button onClick={onChooseFile} className="px-6 py-3 rounded-full bg-white/10 text-white font-bold">{t.chooseFile}</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+import { LanguageConfig } from './i18n';
+import { speakLocally } from './localSpeech';
+
+interface ConsentDialogProps {
+  notice: string;
+  language: LanguageConfig;
+  onAnswer: (agreed: boolean) => void;
+}
+
+/**
+ * Reads a consent notice aloud on the device and lets the operator enter the
+ * applicant's answer. Used where no conversation is running to ask by voice.
+ */
+const ConsentDialog: React.FC<ConsentDialogProps> = ({ notice, language, onAnswer }) => {
+  const t = language.strings;
+
+  useEffect(() => {
+    speakLocally(notice, language.code);
+    return () => window.speechSynthesis?.cancel();
+  }, [notice, language.code]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 p-8 w-full max-w-md space-y-5 text-center">
+        <h2 className="text-2xl font-bold text-slate-800">{t.consentTitle}</h2>
+        <p className="text-lg text-slate-600 leading-relaxed">{notice}</p>
+        <button onClick={() => speakLocally(notice, language.code)} className="text-sm font-bold text-emerald-700 hover:underline">
+          {t.consentRepeat}
+        </button>
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => onAnswer(false)} className="py-3 rounded-xl border border-slate-200 font-bold text-slate-600 hover:bg-slate-50">
+            {t.consentDecline}
+          </button>
+          <button onClick={() => onAnswer(true)} className="py-3 rounded-xl bg-emerald-600 text-white font-bold hover:bg-emerald-700">
+            {t.consentAgree}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentDialog;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { FieldCorrection } from './types';
+import { LanguageConfig, formatString } from './i18n';
+
+interface CorrectionPanelProps {
+  label: string;
+  correction: FieldCorrection;
+  language: LanguageConfig;
+  onConfirm: () => void;
+  onCancel: () => void;
+  /** Returns false when the typed value doesn't validate */
+  onType: (value: string) => boolean;
+}
+
+/** Old value next to the pending new one, with an operator keyboard fallback */
+const CorrectionPanel: React.FC<CorrectionPanelProps> = ({ label, correction, language, onConfirm, onCancel, onType }) => {
+  const t = language.strings;
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState('');
+  const hasProposal = correction.proposedValue !== undefined;
+
+  const submitTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typed.trim()) return;
+    if (!onType(typed)) setError(t.invalidValue);
+  };
+
+  return (
+    <div className="mt-8 w-full max-w-xl bg-amber-50 border-2 border-amber-200 rounded-[2rem] p-6 space-y-4 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-amber-900">{formatString(t.correctingField, { field: label })}</h3>
+        <button onClick={onCancel} aria-label={t.cancel} className="text-amber-700 p-2 hover:bg-amber-100 rounded-full transition-colors">✕</button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-white rounded-xl p-3 border border-amber-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.oldValue}</p>
+          <p className="text-xl font-bold text-slate-500 line-through truncate">{correction.oldValue || '—'}</p>
+        </div>
+        <div className="bg-white rounded-xl p-3 border border-emerald-200">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.newValue}</p>
+          <p className={`text-xl font-bold truncate ${hasProposal ? 'text-emerald-700' : 'text-slate-300 italic animate-pulse'}`}>
+            {hasProposal ? correction.proposedValue : t.sayNewValue}
+          </p>
+        </div>
+      </div>
+      {hasProposal && (
+        <div className="flex gap-3">
+          <button onClick={onConfirm} className="flex-1 bg-emerald-600 text-white font-bold py-3 rounded-xl hover:bg-emerald-700">{t.replaceValue}</button>
+          <button onClick={onCancel} className="flex-1 bg-white text-slate-600 font-bold py-3 rounded-xl border border-slate-200 hover:bg-slate-50">{t.keepOldValue}</button>
+        </div>
+      )}
+      <form onSubmit={submitTyped} className="flex gap-2">
+        <input
+          value={typed}
+          onChange={(e) => { setTyped(e.target.value); setError(''); }}
+          placeholder={t.typeInstead}
+          className="flex-1 px-4 py-2 rounded-xl border border-slate-200 bg-white text-slate-800 focus:outline-none focus:border-emerald-400"
+        />
+        <button type="submit" disabled={!typed.trim()} className="px-4 py-2 rounded-xl bg-slate-800 text-white font-bold text-sm disabled:opacity-50">{t.saveTyped}</button>
+      </form>
+      {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CorrectionPanel;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { FormData, FormSchema } from './types';
+import { LanguageConfig, formatString, documentTypeLabel } from './i18n';
+import { fieldLabel } from './formSchemas';
+import { DocumentScan, ReviewedField } from './documents';
+
+interface DocumentReviewProps {
+  scan: DocumentScan;
+  schema: FormSchema;
+  current: FormData;
+  language: LanguageConfig;
+  lowConfidence: number;
+  onMerge: (fields: ReviewedField[]) => void;
+  onCancel: () => void;
+}
+
+/** What the scan read, next to what the form already holds; nothing is merged until confirmed */
+const DocumentReview: React.FC<DocumentReviewProps> = ({ scan, schema, current, language, lowConfidence, onMerge, onCancel }) => {
+  const t = language.strings;
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(scan.fields.filter(f => f.ok).map(f => f.fieldId)));
+  const { document } = scan;
+
+  const toggle = (fieldId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(fieldId)) next.delete(fieldId);
+      else next.add(fieldId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/40 flex items-center justify-center p-4" onClick={onCancel}>
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">{t.reviewScan}</h2>
+            <p className="text-sm font-bold text-sky-700">
+              {documentTypeLabel(t, document.type)}
+              <span className="ml-2 text-[10px] text-slate-400">{formatString(t.confidenceLevel, { percent: Math.round(scan.typeConfidence * 100) })}</span>
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 p-2 hover:bg-slate-50 rounded-full transition-colors">✕</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {document.number && (
+            <div className={`p-3 rounded-xl border ${document.numberValid ? 'bg-slate-50 border-slate-200' : 'bg-red-50 border-red-200'}`}>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.documentNumber}</p>
+              <p className="text-lg font-bold text-slate-800 tracking-wider">{document.number}</p>
+              {!document.numberValid && <p className="text-xs font-bold text-red-600">⚠ {t.numberInvalid}</p>}
+            </div>
+          )}
+          {scan.fields.length === 0 && <p className="text-sm text-slate-400 italic">{t.nothingExtracted}</p>}
+          {scan.fields.map(f => {
+            const field = schema.fields.find(s => s.id === f.fieldId)!;
+            const existing = current[f.fieldId];
+            return (
+              <label
+                key={f.fieldId}
+                className={`flex items-start gap-3 p-3 rounded-xl border ${f.ok ? 'border-slate-200 cursor-pointer hover:bg-slate-50' : 'border-red-200 bg-red-50 opacity-70'}`}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1 accent-emerald-600"
+                  checked={selected.has(f.fieldId)}
+                  disabled={!f.ok}
+                  onChange={() => toggle(f.fieldId)}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{fieldLabel(field, language.code)}</p>
+                  <p className="font-bold text-slate-800 truncate">{f.value}</p>
+                  {existing && existing !== f.value && (
+                    <p className="text-xs text-slate-400 truncate">{t.oldValue}: <span className="line-through">{existing}</span></p>
+                  )}
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {!f.ok && <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-red-100 text-red-700">{t.invalidValue}</span>}
+                    {f.ok && f.confidence < lowConfidence && (
+                      <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">⚠ {t.lowConfidence}</span>
+                    )}
+                  </div>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+        <div className="p-6 border-t border-slate-100 flex gap-3">
+          <button
+            onClick={() => onMerge(scan.fields.filter(f => selected.has(f.fieldId)))}
+            className="flex-1 bg-emerald-600 text-white font-bold py-3 rounded-xl hover:bg-emerald-700"
+          >
+            {t.addToForm}
+          </button>
+          <button onClick={onCancel} className="flex-1 bg-white text-slate-600 font-bold py-3 rounded-xl border border-slate-200 hover:bg-slate-50">{t.cancel}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentReview;
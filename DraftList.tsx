@@ -0,0 +1,51 @@
+import React from 'react';
+import { Draft } from './types';
+import { LanguageConfig } from './i18n';
+import { getSchema, schemaTitle } from './formSchemas';
+
+interface DraftListProps {
+  drafts: Draft[];
+  activeDraftId: string;
+  language: LanguageConfig;
+  onResume: (draft: Draft) => void;
+  onDiscard: (draft: Draft) => void;
+  onNew: () => void;
+}
+
+const DraftList: React.FC<DraftListProps> = ({ drafts, activeDraftId, language, onResume, onDiscard, onNew }) => {
+  const t = language.strings;
+  return (
+    <div className="w-full max-w-md mx-auto text-left">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t.drafts}</h3>
+        <button onClick={onNew} className="text-xs font-bold text-emerald-700 hover:underline">{t.newApplicant}</button>
+      </div>
+      {drafts.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
+          {drafts.map(d => {
+            const schema = getSchema(d.formType);
+            const isActive = d.id === activeDraftId;
+            return (
+              <div key={d.id} className={`flex items-center gap-3 p-3 rounded-xl border ${isActive ? 'bg-emerald-50 border-emerald-300' : 'bg-slate-50 border-slate-200'}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-sm text-slate-800 truncate">{d.values[schema.fields[0].id] || t.unnamedDraft}</p>
+                  <p className="text-[10px] text-slate-400">{schemaTitle(schema, language.code)} • {new Date(d.updatedAt).toLocaleString()}</p>
+                </div>
+                {!isActive && (
+                  <button onClick={() => onResume(d)} className="text-xs font-bold text-emerald-700 px-3 py-1 rounded-full border border-emerald-100 hover:bg-emerald-100">
+                    {t.resumeDraft}
+                  </button>
+                )}
+                <button onClick={() => onDiscard(d)} className="text-xs font-bold text-red-500 px-3 py-1 rounded-full border border-red-100 hover:bg-red-50">
+                  {t.discardDraft}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DraftList;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { DuplicateResolution, Submission } from './types';
+import { LanguageConfig, formatString } from './i18n';
+import { speakLocally } from './localSpeech';
+import { api } from './api';
+import { PinInput, pinErrorMessage } from './LockScreen';
+import { getSchema, identityFields } from './formSchemas';
+
+// Field ids differ between forms, so the applicant's name, date and place are looked up by type
+const identityOf = (match: Submission) => identityFields(getSchema(match.formType));
+const nameOf = (match: Submission) => match.values[identityOf(match).name ?? ''];
+const latinNameOf = (match: Submission) => match.latin?.[identityOf(match).name ?? ''];
+const detailsOf = (match: Submission) => {
+  const { date, place } = identityOf(match);
+  return [date && match.values[date], place && match.values[place]].filter(Boolean).join(' • ');
+};
+
+interface DuplicateDialogProps {
+  matches: Submission[];
+  language: LanguageConfig;
+  onResolve: (resolution: DuplicateResolution) => void;
+  onCancel: () => void;
+  /** In kiosk mode the earlier records stay hidden until the operator enters the PIN */
+  requirePin: boolean;
+}
+
+/**
+ * Shown before submitting when earlier records look like the same applicant. The
+ * applicant hears why they are waiting; the operator links the new record to an
+ * earlier one, replaces it, or submits it as a separate application. On a kiosk the
+ * applicant only sees how many records matched, not whose they are.
+ */
+const DuplicateDialog: React.FC<DuplicateDialogProps> = ({ matches, language, onResolve, onCancel, requirePin }) => {
+  const t = language.strings;
+  const [isVerified, setIsVerified] = useState(!requirePin);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    speakLocally(t.duplicateNotice, language.code);
+    return () => window.speechSynthesis?.cancel();
+  }, [t.duplicateNotice, language.code]);
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsWorking(true);
+    try {
+      await api.verifyPin(pin);
+      setIsVerified(true);
+    } catch (err) {
+      setError(pinErrorMessage(err, t));
+      setPin('');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isVerified) {
+    return (
+      <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+        <form onSubmit={verify} className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 p-8 w-full max-w-sm space-y-4 text-center">
+          <h2 className="text-2xl font-bold text-slate-800">{t.duplicateTitle}</h2>
+          <p className="text-sm text-slate-500">{formatString(t.duplicateCount, { count: matches.length })}</p>
+          <PinInput label={t.enterPin} value={pin} onChange={setPin} autoFocus />
+          {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isWorking || !pin}
+            className="w-full bg-emerald-600 text-white font-bold py-3 rounded-xl hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {isWorking ? t.pinWorking : t.unlock}
+          </button>
+          <button type="button" onClick={onCancel} disabled={isWorking} className="w-full text-sm font-bold text-slate-500 py-2">
+            {t.cancel}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 p-8 w-full max-w-lg space-y-5">
+        <div className="text-center space-y-2">
+          <h2 className="text-2xl font-bold text-slate-800">{t.duplicateTitle}</h2>
+          <p className="text-sm text-slate-500">{t.duplicateHint}</p>
+        </div>
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {matches.map(match => (
+            <div key={match.id} className="border border-amber-200 bg-amber-50 rounded-2xl p-4 space-y-3">
+              <div>
+                <p className="font-bold text-slate-800">
+                  {nameOf(match)}
+                  {latinNameOf(match) && latinNameOf(match) !== nameOf(match) && <span className="font-normal text-slate-500"> / {latinNameOf(match)}</span>}
+                </p>
+                <p className="text-xs text-slate-500">{detailsOf(match)}</p>
+                <p className="text-[10px] text-slate-400">#{match.id} • {formatString(t.duplicateSubmitted, { date: new Date(match.submittedAt).toLocaleString() })}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => onResolve({ action: 'link', submissionId: match.id! })} className="py-2 rounded-xl bg-white border border-amber-300 text-sm font-bold text-amber-800 hover:bg-amber-100">
+                  {t.linkDuplicate}
+                </button>
+                <button onClick={() => onResolve({ action: 'replace', submissionId: match.id! })} className="py-2 rounded-xl bg-white border border-amber-300 text-sm font-bold text-amber-800 hover:bg-amber-100">
+                  {t.replaceDuplicate}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={onCancel} className="py-3 rounded-xl border border-slate-200 font-bold text-slate-600 hover:bg-slate-50">
+            {t.cancel}
+          </button>
+          <button onClick={() => onResolve({ action: 'proceed' })} className="py-3 rounded-xl bg-emerald-600 text-white font-bold hover:bg-emerald-700">
+            {t.submitAsNew}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateDialog;
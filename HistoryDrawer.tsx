@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Submission, SubmissionQuery, SyncStatus } from './types';
+import { LanguageConfig, formatString } from './i18n';
+import { getSchema, schemaTitle } from './formSchemas';
+import { api } from './api';
+import { syncWorker } from './syncWorker';
+import RetentionPanel from './RetentionPanel';
+import { toCSV, toJSON, toPrintableHTML, parseImport, downloadFile, openPrintWindow } from './exportImport';
+
+interface HistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: LanguageConfig;
+  /** Bump to reload the first page, e.g. after a new submission */
+  refreshKey: number;
+  /** Called after anything that changes the record count */
+  onChanged: () => void;
+  onOpen: (submission: Submission) => void;
+}
+
+const PAGE_SIZE = 20;
+
+// <input type="date"> gives local calendar days; widen them to whole-day ISO bounds
+const dayStart = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const dayEnd = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+const exportStamp = () => new Date().toISOString().slice(0, 10);
+
+const SYNC_BADGE_STYLES: Record<SyncStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  synced: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ isOpen, onClose, language, refreshKey, onChanged, onOpen }) => {
+  const t = language.strings;
+  const [items, setItems] = useState<Submission[]>([]);
+  const [next, setNext] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [order, setOrder] = useState<'newest' | 'oldest'>('newest');
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [notice, setNotice] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<number | null>(null);
+  const [showRetention, setShowRetention] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Drops responses from queries that were superseded while in flight
+  const queryIdRef = useRef(0);
+
+  const buildQuery = useCallback((after?: string): SubmissionQuery => ({
+    search,
+    from: dayStart(fromDay),
+    to: dayEnd(toDay),
+    order,
+    limit: PAGE_SIZE,
+    after
+  }), [search, fromDay, toDay, order]);
+
+  // Reload from the first page whenever filters change
+  useEffect(() => {
+    if (!isOpen) return;
+    const queryId = ++queryIdRef.current;
+    // The old cursor belongs to the old filters; don't page on from it meanwhile
+    setNext(undefined);
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setLoadFailed(false);
+      try {
+        const page = await api.querySubmissions(buildQuery());
+        if (queryId !== queryIdRef.current) return;
+        setItems(page.items);
+        setNext(page.next);
+      } catch (err) {
+        if (queryId !== queryIdRef.current) return;
+        console.error("History Error:", err);
+        setItems([]);
+        setNext(undefined);
+        setLoadFailed(true);
+      }
+      setIsLoading(false);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [isOpen, buildQuery, refreshKey]);
+
+  // Patch sync badges in place so progress doesn't reset the scrolled list
+  useEffect(() => syncWorker.subscribe((id, state) => {
+    setItems(prev => prev.map(s => (s.id === id ? { ...s, ...state } : s)));
+  }), []);
+
+  const loadMore = async () => {
+    if (!next || isLoading) return;
+    const queryId = queryIdRef.current;
+    setIsLoading(true);
+    try {
+      const page = await api.querySubmissions(buildQuery(next));
+      if (queryId !== queryIdRef.current) return;
+      setItems(prev => [...prev, ...page.items]);
+      setNext(page.next);
+    } catch (err) {
+      if (queryId !== queryIdRef.current) return;
+      console.error("History Error:", err);
+      setLoadFailed(true);
+    }
+    setIsLoading(false);
+  };
+
+  // A page too short to scroll never fires onScroll, so keep loading until the list overflows
+  useEffect(() => {
+    const el = listRef.current;
+    if (!isOpen || !el || loadFailed || el.scrollHeight > el.clientHeight) return;
+    loadMore();
+  });
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (el.scrollTop + el.clientHeight >= el.scrollHeight - 120) loadMore();
+  };
+
+  const clearAllHistory = async () => {
+    await api.clearDatabase();
+    setItems([]);
+    setNext(undefined);
+    setSelectedIds(new Set());
+    setIsConfirmingClear(false);
+    onChanged();
+  };
+
+  const deleteRecord = async (id: number) => {
+    await api.deleteSubmission(id);
+    setItems(prev => prev.filter(s => s.id !== id));
+    setSelectedIds(prev => {
+      const nextIds = new Set(prev);
+      nextIds.delete(id);
+      return nextIds;
+    });
+    setConfirmingDeleteId(null);
+    onChanged();
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const nextIds = new Set(prev);
+      if (nextIds.has(id)) nextIds.delete(id);
+      else nextIds.add(id);
+      return nextIds;
+    });
+  };
+
+  // Exports the ticked records, or everything when nothing is ticked
+  const exportRecords = async (format: 'csv' | 'json' | 'print') => {
+    const records = selectedIds.size > 0
+      ? await api.getSubmissionsByIds(Array.from(selectedIds))
+      : await api.getAllSubmissions();
+    if (records.length === 0) return;
+    if (format === 'csv') downloadFile(`mukh-lipi-${exportStamp()}.csv`, toCSV(records), 'text/csv');
+    else if (format === 'json') downloadFile(`mukh-lipi-${exportStamp()}.json`, toJSON(records), 'application/json');
+    else openPrintWindow(toPrintableHTML(records, language));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { records, invalid } = parseImport(await file.text());
+      const { imported, skipped } = await api.importSubmissions(records);
+      setNotice(formatString(t.importSummary, { imported, skipped, invalid }));
+      queryIdRef.current++;
+      const page = await api.querySubmissions(buildQuery());
+      setItems(page.items);
+      setNext(page.next);
+      onChanged();
+    } catch (err) {
+      console.error("Import Error:", err);
+      setNotice(t.importFailed);
+    }
+  };
+
+  return (
+    <div className={`fixed inset-y-0 right-0 w-80 bg-white shadow-2xl z-30 transform transition-transform duration-300 border-l border-slate-100 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+      {showRetention && (
+        <div className="absolute inset-0 z-10 bg-white p-6 flex flex-col">
+          <RetentionPanel language={language} onBack={() => setShowRetention(false)} />
+        </div>
+      )}
+      <div className="p-6 h-full flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800">{t.historyTitle}</h2>
+          <button onClick={() => { onClose(); setIsConfirmingClear(false); setConfirmingDeleteId(null); setShowRetention(false); }} className="text-slate-400 p-2 hover:bg-slate-50 rounded-full transition-colors">✕</button>
+        </div>
+        <div className="space-y-2 mb-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.searchHistory}
+            className="w-full text-sm px-4 py-2 rounded-xl border border-slate-200 bg-slate-50 focus:outline-none focus:border-emerald-400"
+          />
+          <div className="flex gap-2 text-[10px] font-bold text-slate-400">
+            <label className="flex-1">
+              {t.fromDate}
+              <input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className="w-full text-xs text-slate-600 px-2 py-1 rounded-lg border border-slate-200" />
+            </label>
+            <label className="flex-1">
+              {t.toDate}
+              <input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className="w-full text-xs text-slate-600 px-2 py-1 rounded-lg border border-slate-200" />
+            </label>
+          </div>
+          <button
+            onClick={() => setOrder(order === 'newest' ? 'oldest' : 'newest')}
+            className="text-xs font-bold text-emerald-700 hover:underline"
+          >
+            {order === 'newest' ? t.newestFirst : t.oldestFirst} ⇅
+          </button>
+        </div>
+        <div ref={listRef} className="flex-1 overflow-y-auto space-y-4 pr-2" onScroll={handleScroll}>
+          {loadFailed && <p className="text-sm font-bold text-red-600 text-center py-4">{t.historyLoadFailed}</p>}
+          {items.length === 0 && !isLoading && !loadFailed && <p className="text-slate-400 text-center py-10 italic">{t.noHistory}</p>}
+          {items.map(s => {
+            const schema = getSchema(s.formType);
+            const [primary, ...rest] = schema.fields;
+            const isSelected = selectedIds.has(s.id!);
+            return (
+              <label key={s.id} className={`block p-4 rounded-xl border cursor-pointer ${isSelected ? 'bg-emerald-50 border-emerald-300' : 'bg-slate-50 border-slate-200'}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-bold text-emerald-700">{s.values[primary.id]}</p>
+                  <input type="checkbox" checked={isSelected} onChange={() => toggleSelected(s.id!)} className="mt-1 accent-emerald-600" />
+                </div>
+                <p className="text-xs text-slate-500">{rest.map(f => s.values[f.id]).filter(Boolean).join(' • ')}</p>
+                <div className="flex items-center justify-between gap-2 mt-2">
+                  <p className="text-[10px] text-slate-400">{schemaTitle(schema, language.code)} • {new Date(s.submittedAt).toLocaleDateString()}</p>
+                  {s.syncStatus && (
+                    <span title={s.lastSyncError} className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${SYNC_BADGE_STYLES[s.syncStatus]}`}>
+                      {s.syncStatus === 'synced' ? t.syncSynced : s.syncStatus === 'failed' ? t.syncFailed : t.syncPending}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-3 mt-1">
+                  <button
+                    onClick={(e) => { e.preventDefault(); onOpen(s); }}
+                    className="text-[10px] font-bold text-emerald-700 hover:underline"
+                  >
+                    {t.viewDetails}
+                  </button>
+                  {s.syncStatus === 'failed' && syncWorker.isConfigured && (
+                    <button
+                      onClick={(e) => { e.preventDefault(); syncWorker.retry(s.id!); }}
+                      className="text-[10px] font-bold text-red-600 hover:underline"
+                    >
+                      {t.retrySync}
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => { e.preventDefault(); setConfirmingDeleteId(s.id!); }}
+                    className="ml-auto text-[10px] font-bold text-slate-400 hover:text-red-600 hover:underline"
+                  >
+                    {t.deleteRecord}
+                  </button>
+                </div>
+                {confirmingDeleteId === s.id && (
+                  <div className="mt-2 bg-red-50 p-3 rounded-lg border border-red-100" onClick={(e) => e.preventDefault()}>
+                    <p className="text-[10px] font-bold text-red-800 text-center">{t.confirmDeleteRecord}</p>
+                    {s.syncStatus !== 'synced' && <p className="text-[10px] text-red-600 text-center">{t.deleteUnsyncedWarning}</p>}
+                    <div className="flex gap-2 mt-2">
+                      <button onClick={() => deleteRecord(s.id!)} className="flex-1 bg-red-600 text-white text-[10px] font-bold py-1 rounded-lg">{t.yes}</button>
+                      <button onClick={() => setConfirmingDeleteId(null)} className="flex-1 bg-white text-slate-600 text-[10px] font-bold py-1 rounded-lg border">{t.no}</button>
+                    </div>
+                  </div>
+                )}
+              </label>
+            );
+          })}
+          {isLoading && <p className="text-slate-400 text-center text-xs py-4">{t.loading}</p>}
+        </div>
+        <div className="mt-4 border-t pt-4 space-y-2">
+          <div className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+            <span>{t.exportLabel}: {selectedIds.size > 0 ? formatString(t.selectedCount, { count: selectedIds.size }) : t.allRecords}</span>
+            <button onClick={() => importInputRef.current?.click()} className="text-emerald-700 hover:underline">{t.importData}</button>
+            <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+          </div>
+          <div className="flex gap-2">
+            {(['csv', 'json', 'print'] as const).map(format => (
+              <button
+                key={format}
+                disabled={items.length === 0}
+                onClick={() => exportRecords(format)}
+                className="flex-1 text-xs font-bold text-emerald-700 border border-emerald-100 py-2 rounded-xl hover:bg-emerald-50 disabled:opacity-30"
+              >
+                {format === 'print' ? t.printPdf : format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          {notice && <p className="text-[10px] text-slate-500 text-center">{notice}</p>}
+          <button onClick={() => setShowRetention(true)} className="w-full text-xs font-bold text-slate-500 hover:text-emerald-700 hover:underline">{t.dataSettings}</button>
+          {!isConfirmingClear ? (
+            <button
+              disabled={items.length === 0}
+              onClick={() => setIsConfirmingClear(true)}
+              className="w-full text-xs text-red-500 font-bold border border-red-100 py-3 rounded-xl hover:bg-red-50 disabled:opacity-30"
+            >
+              {t.clearHistory}
+            </button>
+          ) : (
+            <div className="bg-red-50 p-4 rounded-xl border border-red-100">
+              <p className="text-xs font-bold text-red-800 text-center mb-3">{t.confirmClear}</p>
+              <div className="flex gap-2">
+                <button onClick={clearAllHistory} className="flex-1 bg-red-600 text-white text-xs font-bold py-2 rounded-lg">{t.yes}</button>
+                <button onClick={() => setIsConfirmingClear(false)} className="flex-1 bg-white text-slate-600 text-xs font-bold py-2 rounded-lg border">{t.no}</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
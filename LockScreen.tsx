@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { LanguageConfig, UIStrings, formatString } from './i18n';
+import { api } from './api';
+import { isValidPin, PinLockedError, WrongPinError } from './vault';
+
+export type LockScreenMode = 'setup' | 'unlock' | 'change';
+
+interface LockScreenProps {
+  mode: LockScreenMode;
+  language: LanguageConfig;
+  onUnlocked: () => void;
+  /** Only offered in 'change' mode */
+  onCancel?: () => void;
+}
+
+export const PinInput: React.FC<{ label: string; value: string; onChange: (v: string) => void; autoFocus?: boolean }> = ({ label, value, onChange, autoFocus }) => (
+  <label className="block text-left text-xs font-bold text-slate-400">
+    {label}
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={8}
+      autoFocus={autoFocus}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+      className="mt-1 w-full text-center text-2xl tracking-[0.5em] px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 text-slate-800 focus:outline-none focus:border-emerald-400"
+    />
+  </label>
+);
+
+/** What to tell the operator when a PIN check fails; anything but a wrong or throttled PIN is logged */
+export function pinErrorMessage(err: unknown, t: UIStrings): string {
+  if (err instanceof WrongPinError) return t.wrongPin;
+  if (err instanceof PinLockedError) return formatString(t.pinLocked, { minutes: Math.ceil((err.until - Date.now()) / 60000) });
+  console.error("Vault Error:", err);
+  return t.connectionError;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ mode, language, onUnlocked, onCancel }) => {
+  const t = language.strings;
+  const [currentPin, setCurrentPin] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (mode !== 'unlock') {
+      if (!isValidPin(pin)) return setError(t.pinInvalid);
+      if (pin !== confirmPin) return setError(t.pinMismatch);
+    }
+    setIsWorking(true);
+    try {
+      if (mode === 'setup') await api.setupPin(pin);
+      else if (mode === 'unlock') await api.unlock(pin);
+      else await api.changePin(currentPin, pin);
+      onUnlocked();
+    } catch (err) {
+      setError(pinErrorMessage(err, t));
+      setPin('');
+      setConfirmPin('');
+      setCurrentPin('');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const title = mode === 'setup' ? t.setupPinTitle : mode === 'unlock' ? t.lockedTitle : t.changePin;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-50 flex items-center justify-center p-4">
+      <form onSubmit={submit} className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 p-8 w-full max-w-sm space-y-4 text-center">
+        <div className="w-16 h-16 bg-emerald-50 text-emerald-600 rounded-full flex items-center justify-center mx-auto">
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+        </div>
+        <h2 className="text-2xl font-bold text-slate-800">{title}</h2>
+        {mode === 'setup' && <p className="text-sm text-slate-500">{t.setupPinHint}</p>}
+
+        {mode === 'change' && <PinInput label={t.currentPin} value={currentPin} onChange={setCurrentPin} autoFocus />}
+        <PinInput label={mode === 'unlock' ? t.enterPin : t.newPin} value={pin} onChange={setPin} autoFocus={mode !== 'change'} />
+        {mode !== 'unlock' && <PinInput label={t.confirmPin} value={confirmPin} onChange={setConfirmPin} />}
+
+        {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isWorking || !pin}
+          className="w-full bg-emerald-600 text-white font-bold py-3 rounded-xl hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {isWorking ? t.pinWorking : mode === 'unlock' ? t.unlock : t.savePin}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={isWorking} className="w-full text-sm font-bold text-slate-500 py-2">
+            {t.cancel}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Draft } from './types';
+import { LanguageConfig } from './i18n';
+import { getSchema, schemaTitle } from './formSchemas';
+import { api } from './api';
+import { PinInput, pinErrorMessage } from './LockScreen';
+
+interface OperatorPanelProps {
+  drafts: Draft[];
+  activeDraftId: string;
+  language: LanguageConfig;
+  onAddApplicant: () => Promise<void>;
+  onCall: (draft: Draft) => void;
+  onRemove: (draft: Draft) => void;
+  onOpenHistory: () => void;
+  onChangePin: () => void;
+  onLock: () => void;
+  cloudSummary: boolean;
+  onToggleCloudSummary: (on: boolean) => void;
+  onExitKiosk: () => void;
+  onClose: () => void;
+}
+
+// Numbered applicants first in the order they were handed out, then anything saved before kiosk mode
+const byToken = (a: Draft, b: Draft) =>
+  (a.token ?? Infinity) - (b.token ?? Infinity) || a.updatedAt.localeCompare(b.updatedAt);
+
+/**
+ * Operator-only controls for a shared kiosk. The vault stays unlocked for the
+ * applicant, so the PIN is asked again every time the panel opens.
+ */
+const OperatorPanel: React.FC<OperatorPanelProps> = ({ drafts, activeDraftId, language, onAddApplicant, onCall, onRemove, onOpenHistory, onChangePin, onLock, cloudSummary, onToggleCloudSummary, onExitKiosk, onClose }) => {
+  const t = language.strings;
+  const [isVerified, setIsVerified] = useState(false);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsWorking(true);
+    try {
+      await api.verifyPin(pin);
+      setIsVerified(true);
+    } catch (err) {
+      setError(pinErrorMessage(err, t));
+      setPin('');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const addApplicant = async () => {
+    setIsWorking(true);
+    try {
+      await onAddApplicant();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isVerified) {
+    return (
+      <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+        <form onSubmit={verify} className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 p-8 w-full max-w-sm space-y-4 text-center">
+          <h2 className="text-2xl font-bold text-slate-800">{t.operatorPanel}</h2>
+          <PinInput label={t.enterPin} value={pin} onChange={setPin} autoFocus />
+          {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isWorking || !pin}
+            className="w-full bg-emerald-600 text-white font-bold py-3 rounded-xl hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {isWorking ? t.pinWorking : t.unlock}
+          </button>
+          <button type="button" onClick={onClose} disabled={isWorking} className="w-full text-sm font-bold text-slate-500 py-2">
+            {t.cancel}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const queue = [...drafts].sort(byToken);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200 p-8 w-full max-w-lg space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800">{t.operatorPanel}</h2>
+          <button onClick={onClose} className="text-slate-400 p-2 hover:bg-slate-50 rounded-full transition-colors">✕</button>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t.queueTitle}</h3>
+            <button onClick={addApplicant} disabled={isWorking} className="text-xs font-bold text-emerald-700 hover:underline disabled:opacity-50">{t.addApplicant}</button>
+          </div>
+          {queue.length === 0 && <p className="text-sm text-slate-400 italic py-4 text-center">{t.queueEmpty}</p>}
+          <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+            {queue.map(d => {
+              const schema = getSchema(d.formType);
+              const isActive = d.id === activeDraftId;
+              return (
+                <div key={d.id} className={`flex items-center gap-3 p-3 rounded-xl border ${isActive ? 'bg-emerald-50 border-emerald-300' : 'bg-slate-50 border-slate-200'}`}>
+                  {d.token !== undefined && (
+                    <span className="text-lg font-black text-emerald-700 w-12 text-center">{d.token}</span>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-sm text-slate-800 truncate">{d.values[schema.fields[0].id] || t.unnamedDraft}</p>
+                    <p className="text-[10px] text-slate-400">{schemaTitle(schema, language.code)} • {new Date(d.updatedAt).toLocaleTimeString()}</p>
+                  </div>
+                  {!isActive && (
+                    <button onClick={() => onCall(d)} className="text-xs font-bold text-emerald-700 px-3 py-1 rounded-full border border-emerald-100 hover:bg-emerald-100">
+                      {t.callApplicant}
+                    </button>
+                  )}
+                  <button onClick={() => onRemove(d)} className="text-xs font-bold text-red-500 px-3 py-1 rounded-full border border-red-100 hover:bg-red-50">
+                    {t.discardDraft}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+          <input type="checkbox" checked={cloudSummary} onChange={(e) => onToggleCloudSummary(e.target.checked)} className="accent-emerald-600" />
+          {t.cloudSummary}
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={onOpenHistory} className="py-3 rounded-xl border border-slate-200 text-sm font-bold text-slate-600 hover:bg-slate-50">{t.history}</button>
+          <button onClick={onChangePin} className="py-3 rounded-xl border border-slate-200 text-sm font-bold text-slate-600 hover:bg-slate-50">{t.changePin}</button>
+          <button onClick={onLock} className="py-3 rounded-xl border border-slate-200 text-sm font-bold text-slate-600 hover:bg-slate-50">{t.lockNow}</button>
+          <button onClick={onExitKiosk} className="py-3 rounded-xl border border-red-100 text-sm font-bold text-red-500 hover:bg-red-50">{t.exitKiosk}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OperatorPanel;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { AuditEntry, RetentionPolicy } from './types';
+import { LanguageConfig, auditActionLabel, formatString } from './i18n';
+import { getSchema, schemaTitle, fieldLabel } from './formSchemas';
+import { api } from './api';
+
+interface RetentionPanelProps {
+  language: LanguageConfig;
+  onBack: () => void;
+}
+
+// Blank or zero means keep forever
+const parseDays = (raw: string): number | undefined => {
+  const days = Math.floor(Number(raw));
+  return days > 0 ? days : undefined;
+};
+
+/**
+ * Retention settings and the log of every deletion and edit. The policy is
+ * applied each time the device is unlocked.
+ */
+const RetentionPanel: React.FC<RetentionPanelProps> = ({ language, onBack }) => {
+  const t = language.strings;
+  const [policy, setPolicy] = useState<RetentionPolicy>({});
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  useEffect(() => {
+    api.getRetentionPolicy().then(setPolicy);
+    api.getAuditLog().then(setEntries);
+  }, []);
+
+  const changePolicy = (key: keyof RetentionPolicy, raw: string) => {
+    const next = { ...policy, [key]: parseDays(raw) };
+    setPolicy(next);
+    api.saveRetentionPolicy(next);
+  };
+
+  const describe = (entry: AuditEntry): string => {
+    if (entry.action === 'clear') return formatString(t.auditClear, { count: entry.count ?? 0 });
+    const schema = entry.formType ? getSchema(entry.formType) : null;
+    const parts = [
+      auditActionLabel(t, entry.action),
+      entry.target === 'submission' ? `#${entry.recordId}` : entry.action !== 'discard' && t.drafts,
+      schema && schemaTitle(schema, language.code),
+      entry.fields?.map(id => {
+        const field = schema?.fields.find(f => f.id === id);
+        return field ? fieldLabel(field, language.code) : id;
+      }).join(', ')
+    ];
+    return parts.filter(Boolean).join(' • ');
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <button onClick={onBack} className="self-start text-xs font-bold text-emerald-700 hover:underline mb-4">← {t.backToHistory}</button>
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.retentionTitle}</h3>
+      <div className="space-y-2 mb-6">
+        {([['syncedDays', t.retentionSyncedDays], ['draftDays', t.retentionDraftDays]] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            {label}
+            <input
+              type="number"
+              min={1}
+              value={policy[key] ?? ''}
+              placeholder={t.retentionNever}
+              onChange={(e) => changePolicy(key, e.target.value)}
+              className="w-24 px-2 py-1 rounded-lg border border-slate-200 text-right focus:outline-none focus:border-emerald-400"
+            />
+          </label>
+        ))}
+      </div>
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.auditLogTitle}</h3>
+      <div className="flex-1 overflow-y-auto space-y-2 pr-2">
+        {entries.length === 0 && <p className="text-slate-400 text-center text-xs py-6 italic">{t.auditEmpty}</p>}
+        {entries.map(entry => (
+          <div key={entry.id} className="text-xs bg-slate-50 border border-slate-100 rounded-xl px-3 py-2">
+            <p className="text-slate-700">{describe(entry)}</p>
+            <p className="text-[10px] text-slate-400">{new Date(entry.at).toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RetentionPanel;
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FormData, Submission, TranscriptionRecord } from './types';
+import { LanguageConfig, DEFAULT_LANGUAGE, formatString, sourceLabel, documentTypeLabel } from './i18n';
+import { getSchema, schemaTitle, fieldLabel } from './formSchemas';
+import { api } from './api';
+import { decodeAudioData } from './AudioUtils';
+import { validateField } from './validation';
+import { dualScript, hasLatinSpelling } from './transliterate';
+
+interface SubmissionDetailProps {
+  submission: Submission;
+  language: LanguageConfig;
+  onClose: () => void;
+  /** Called with the amended record, or null once it has been deleted */
+  onChanged: (submission: Submission | null) => void;
+}
+
+const SubmissionDetail: React.FC<SubmissionDetailProps> = ({ submission, language, onClose, onChanged }) => {
+  const t = language.strings;
+  const schema = getSchema(submission.formType);
+  const transcript = submission.transcript || [];
+  const [playingClipId, setPlayingClipId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState<FormData | null>(null);
+  const [invalidFields, setInvalidFields] = useState<string[]>([]);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  // The vault can lock or the record be removed while this is open
+  const [actionError, setActionError] = useState('');
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const stopPlayback = () => {
+    try { sourceRef.current?.stop(); } catch (e) {}
+    sourceRef.current = null;
+    setPlayingClipId(null);
+  };
+
+  useEffect(() => () => {
+    stopPlayback();
+    audioCtxRef.current?.close();
+  }, []);
+
+  const playTurn = async (turn: TranscriptionRecord) => {
+    const wasPlaying = playingClipId === turn.audioClipId;
+    stopPlayback();
+    if (wasPlaying || !turn.audioClipId) return;
+
+    const clip = await api.getAudioClip(turn.audioClipId);
+    if (!clip) return;
+    if (!audioCtxRef.current) audioCtxRef.current = new AudioContext();
+    const ctx = audioCtxRef.current;
+    await ctx.resume();
+    const buffer = await decodeAudioData(new Uint8Array(clip.pcm), ctx, clip.sampleRate, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.addEventListener('ended', () => {
+      if (sourceRef.current === source) stopPlayback();
+    });
+    source.start();
+    sourceRef.current = source;
+    setPlayingClipId(clip.id);
+  };
+
+  const startEditing = () => {
+    setEditValues({ ...submission.values });
+    setInvalidFields([]);
+    setIsConfirmingDelete(false);
+    setActionError('');
+  };
+
+  // Typed values go through the same normalisation as spoken ones; optional fields may be left empty
+  const saveEdits = async () => {
+    if (!editValues) return;
+    const values: FormData = {};
+    const latin: FormData = { ...submission.latin };
+    const invalid: string[] = [];
+    schema.fields.forEach(f => {
+      const raw = editValues[f.id] || '';
+      if (raw === (submission.values[f.id] || '')) values[f.id] = raw;
+      else if (!raw.trim() && !f.required) {
+        values[f.id] = '';
+        delete latin[f.id];
+      } else {
+        const check = validateField(f, raw);
+        if (!check.ok) invalid.push(f.id);
+        else if (!hasLatinSpelling(f)) values[f.id] = check.value;
+        else {
+          const spelled = dualScript(f, check.value, submission.language ?? DEFAULT_LANGUAGE);
+          values[f.id] = spelled.value;
+          latin[f.id] = spelled.latin;
+        }
+      }
+    });
+    setInvalidFields(invalid);
+    if (invalid.length > 0) return;
+    setActionError('');
+    let amended: Submission;
+    try {
+      amended = await api.amendSubmission(submission.id!, values, latin);
+    } catch (err) {
+      console.error("Amend Error:", err);
+      setActionError(t.recordChangeFailed);
+      return;
+    }
+    setEditValues(null);
+    onChanged(amended);
+  };
+
+  const deleteRecord = async () => {
+    stopPlayback();
+    setActionError('');
+    try {
+      await api.deleteSubmission(submission.id!);
+    } catch (err) {
+      console.error("Delete Error:", err);
+      setIsConfirmingDelete(false);
+      setActionError(t.recordChangeFailed);
+      return;
+    }
+    onChanged(null);
+  };
+
+  const lastAmendment = submission.amendments?.[submission.amendments.length - 1];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">{schemaTitle(schema, language.code)}</h2>
+            <p className="text-xs text-slate-400">
+              #{submission.id} • {new Date(submission.submittedAt).toLocaleString()}
+              {lastAmendment && ` • ${formatString(t.amendedOn, { date: new Date(lastAmendment.at).toLocaleString() })}`}
+            </p>
+            {submission.linkedTo && <p className="text-xs text-amber-700">{t.linkedRecord}</p>}
+          </div>
+          <div className="flex items-center gap-1">
+            {!editValues && (
+              <>
+                <button onClick={startEditing} className="text-xs font-bold text-emerald-700 px-3 py-2 hover:bg-emerald-50 rounded-xl">{t.edit}</button>
+                <button onClick={() => setIsConfirmingDelete(true)} className="text-xs font-bold text-red-500 px-3 py-2 hover:bg-red-50 rounded-xl">{t.deleteRecord}</button>
+              </>
+            )}
+            <button onClick={onClose} className="text-slate-400 p-2 hover:bg-slate-50 rounded-full transition-colors">✕</button>
+          </div>
+        </div>
+        {actionError && <p className="mx-6 mt-4 text-sm font-bold text-red-600">{actionError}</p>}
+        {isConfirmingDelete && (
+          <div className="mx-6 mt-4 bg-red-50 p-4 rounded-xl border border-red-100">
+            <p className="text-sm font-bold text-red-800 text-center">{t.confirmDeleteRecord}</p>
+            {submission.syncStatus !== 'synced' && <p className="text-xs text-red-600 text-center mt-1">{t.deleteUnsyncedWarning}</p>}
+            <div className="flex gap-2 mt-3">
+              <button onClick={deleteRecord} className="flex-1 bg-red-600 text-white text-xs font-bold py-2 rounded-lg">{t.yes}</button>
+              <button onClick={() => setIsConfirmingDelete(false)} className="flex-1 bg-white text-slate-600 text-xs font-bold py-2 rounded-lg border">{t.no}</button>
+            </div>
+          </div>
+        )}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            {schema.fields.map(f => (
+              <React.Fragment key={f.id}>
+                <dt className="text-slate-400 font-bold">{fieldLabel(f, language.code)}</dt>
+                {editValues ? (
+                  <dd>
+                    <input
+                      value={editValues[f.id] || ''}
+                      onChange={(e) => setEditValues({ ...editValues, [f.id]: e.target.value })}
+                      className={`w-full px-3 py-1 rounded-lg border ${invalidFields.includes(f.id) ? 'border-red-400' : 'border-slate-200'} focus:outline-none focus:border-emerald-400`}
+                    />
+                    {invalidFields.includes(f.id) && <p className="text-[10px] text-red-600">{t.invalidValue}</p>}
+                  </dd>
+                ) : (
+                  <dd className="text-slate-800">
+                    {submission.values[f.id] || '—'}
+                    {submission.values[f.id] && submission.latin?.[f.id] && <span className="ml-2 text-slate-500">/ {submission.latin[f.id]}</span>}
+                    {submission.provenance?.[f.id] && (
+                      <span className="ml-2 text-[10px] text-slate-400">
+                        {sourceLabel(t, submission.provenance[f.id].source)} • {formatString(t.confidenceLevel, { percent: Math.round(submission.provenance[f.id].confidence * 100) })}
+                      </span>
+                    )}
+                  </dd>
+                )}
+              </React.Fragment>
+            ))}
+          </dl>
+          {editValues && (
+            <div className="flex gap-2">
+              <button onClick={saveEdits} className="flex-1 bg-emerald-600 text-white text-sm font-bold py-2 rounded-xl hover:bg-emerald-700">{t.saveChanges}</button>
+              <button onClick={() => setEditValues(null)} className="flex-1 text-slate-600 text-sm font-bold py-2 rounded-xl border border-slate-200 hover:bg-slate-50">{t.cancel}</button>
+            </div>
+          )}
+
+          {submission.amendments && submission.amendments.length > 0 && (
+            <ul className="space-y-1 text-xs text-slate-500">
+              {submission.amendments.map((a, i) => (
+                <li key={i}>
+                  {formatString(t.amendedOn, { date: new Date(a.at).toLocaleString() })}:{' '}
+                  {Object.entries(a.previous).map(([id, value]) => {
+                    const field = schema.fields.find(f => f.id === id);
+                    return `${field ? fieldLabel(field, language.code) : id} "${value || '—'}"`;
+                  }).join(', ')}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {submission.documents && submission.documents.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.documentsTitle}</h3>
+              <ul className="space-y-1 text-sm">
+                {submission.documents.map(d => (
+                  <li key={d.type} className="flex justify-between gap-4 bg-slate-50 px-4 py-2 rounded-xl">
+                    <span className="font-bold text-slate-700">{documentTypeLabel(t, d.type)}</span>
+                    <span className={d.numberValid ? 'text-slate-600' : 'text-red-600'}>
+                      {d.number || '—'}{d.number && !d.numberValid && ` ⚠ ${t.numberInvalid}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {submission.consent && submission.consent.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.consentLabel}</h3>
+              <ul className="space-y-1">
+                {submission.consent.map((c, i) => (
+                  <li key={i} className="text-sm text-slate-700" title={c.notice}>
+                    <span className={c.agreed ? 'text-emerald-600' : 'text-red-500'}>{c.agreed ? '✓' : '✕'}</span>{' '}
+                    {c.scope === 'conversation' ? t.consentScopeConversation : t.consentScopeDocuments} • {c.method === 'voice' ? t.consentByVoice : t.consentByTap}
+                    <span className="text-[10px] text-slate-400"> • {new Date(c.at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {submission.summary && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.summaryTitle}</h3>
+              <p className="text-sm text-slate-700 bg-slate-50 p-4 rounded-xl whitespace-pre-wrap">{submission.summary}</p>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t.transcriptTitle}</h3>
+            {transcript.length === 0 && <p className="text-sm text-slate-400 italic">{t.noTranscript}</p>}
+            <div className="space-y-2">
+              {transcript.map((turn, i) => (
+                <div key={i} className={`flex gap-2 items-start ${turn.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                  <div className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm ${turn.role === 'user' ? 'bg-emerald-600 text-white' : 'bg-slate-100 text-slate-800'}`}>
+                    <p className="text-[10px] font-bold opacity-70 mb-1">
+                      {turn.role === 'user' ? t.speakerUser : t.speakerAssistant} • {new Date(turn.timestamp).toLocaleTimeString()}
+                    </p>
+                    {turn.text}
+                  </div>
+                  {turn.audioClipId && (
+                    <button
+                      onClick={() => playTurn(turn)}
+                      aria-label={t.playTurn}
+                      className="shrink-0 w-8 h-8 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-100 hover:bg-emerald-100 text-xs"
+                    >
+                      {playingClipId === turn.audioClipId ? '■' : '▶'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionDetail;
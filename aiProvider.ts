@@ -0,0 +1,84 @@
+import { FunctionDeclaration, LiveServerMessage, Schema } from '@google/genai';
+import { DirectTransport, GeminiProvider } from './geminiProvider';
+import { ProxyTransport } from './geminiProxy';
+import { FakeProvider } from './fakeProvider';
+import { api } from './api';
+
+/** The subset of a Live server message the app reacts to */
+export type LiveMessage = Pick<LiveServerMessage, 'serverContent' | 'toolCall'>;
+
+export interface ToolResponse {
+  id?: string;
+  name?: string;
+  response: Record<string, unknown>;
+}
+
+export interface LiveSession {
+  sendRealtimeInput(params: { media: { data: string; mimeType: string } }): void;
+  sendToolResponse(params: { functionResponses: ToolResponse | ToolResponse[] }): void;
+  /** Injects a text turn, e.g. to tell the model about something the operator did on screen */
+  sendClientContent(params: { turns: string; turnComplete?: boolean }): void;
+  close(): void;
+}
+
+export interface LiveSessionConfig {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  voiceName: string;
+}
+
+export interface LiveSessionCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveMessage) => void;
+  onerror: (e: ErrorEvent) => void;
+  onclose: (e: CloseEvent) => void;
+}
+
+export type TextPurpose = 'help' | 'summary';
+
+export type DocumentPurpose = 'classify' | 'extract';
+
+/** One inline file sent to the model: a PDF, or one side of a card */
+export interface DocumentPart {
+  data: string;
+  mimeType: string;
+}
+
+export interface DocumentRequest {
+  parts: DocumentPart[];
+  prompt: string;
+  /** Structured-output schema the response must follow */
+  responseSchema: Schema;
+  purpose: DocumentPurpose;
+}
+
+/**
+ * Everything the app needs from an AI vendor. Implementations own their model choice
+ * and credentials so call sites never construct SDK clients directly.
+ */
+export interface AIProvider {
+  readonly name: string;
+  /** Synchronous credential check; false means every call will fail */
+  isAvailable(): boolean;
+  /** Gives the host a chance to prompt for credentials; false means the caller should stop */
+  requestAccess(): Promise<boolean>;
+  connectLive(config: LiveSessionConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession>;
+  /** Returns the parsed JSON object the model produced for the document; throws if it isn't one */
+  extractDocument(request: DocumentRequest): Promise<Record<string, unknown>>;
+  generateText(prompt: string, purpose: TextPurpose): Promise<string>;
+  /** Returns base64 16-bit PCM at 24 kHz, or null if no audio was produced */
+  synthesizeSpeech(text: string, voiceName: string): Promise<string | null>;
+}
+
+/**
+ * `fake` answers offline; `direct` calls Gemini with a key compiled into the bundle,
+ * which is only safe in AI Studio or on a developer's machine. Anything else goes
+ * through the server proxy, which holds the key.
+ */
+export function createProvider(name = process.env.AI_PROVIDER): AIProvider {
+  if (name === 'fake') return new FakeProvider();
+  if (name === 'direct') return new GeminiProvider(new DirectTransport(process.env.API_KEY || process.env.GEMINI_API_KEY));
+  return new GeminiProvider(new ProxyTransport(process.env.AI_PROXY_URL || '/api', () => api.getDeviceId()));
+}
+
+export const provider = createProvider();
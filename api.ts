@@ -1,27 +1,152 @@
 
-import { FormData } from './types';
+import { AudioClip, AuditEntry, Draft, DuplicateResolution, FormData, LanguageCode, NewSubmission, RetentionPolicy, Submission, SubmissionPage, SubmissionQuery, SyncState, TranscriptionRecord } from './types';
+import { DB_VERSION, runMigrations, newOutboxEntry } from './migrations';
+import { ImportedSubmission, fingerprint } from './exportImport';
+import { duplicateLookupTerms, isLikelySameApplicant } from './duplicates';
+import { getSchema, identityFields } from './formSchemas';
+import {
+  SealedData,
+  VaultKeys,
+  VaultMeta,
+  VaultLockedError,
+  WrongPinError,
+  PinLockedError,
+  pinRetryDelay,
+  createVault,
+  unlockVault,
+  sealJSON,
+  openJSON,
+  sealBytes,
+  openBytes,
+  blindIndex,
+  blindPrefixes
+} from './vault';
 
 const DB_NAME = 'MukhLipiDB';
-const DB_VERSION = 1;
-const DRAFT_KEY = 'current_draft';
+const LANGUAGE_KEY = 'preferred_language';
+const KIOSK_KEY = 'kiosk_mode';
+const QUEUE_TOKEN_KEY = 'kiosk_last_token';
+const DEVICE_ID_KEY = 'device_id';
+const CLOUD_SUMMARY_KEY = 'cloud_summary';
+const RETENTION_KEY = 'retention_policy';
+const PIN_ATTEMPTS_KEY = 'pin_attempts';
 
-const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+const DEFAULT_PAGE_SIZE = 20;
+const DATA_STORES = ['submissions', 'drafts', 'audioClips'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Stored (encrypted) record shapes ---
+// Everything that identifies the applicant lives inside `sealed`; the rest stays
+// in the clear so records can be ordered, counted and synced while locked.
+
+interface SubmissionSecrets {
+  values: Submission['values'];
+  latin?: Submission['latin'];
+  documents?: Submission['documents'];
+  summary?: string;
+  transcript?: TranscriptionRecord[];
+  amendments?: Submission['amendments'];
+}
+
+type StoredSubmission = Omit<Submission, keyof SubmissionSecrets> & {
+  sealed: SealedData;
+  /** Blind index of name and city prefixes */
+  searchKeys: string[];
+};
+
+interface DraftSecrets {
+  values: Draft['values'];
+  latin?: Draft['latin'];
+  documents?: Draft['documents'];
+  transcript: TranscriptionRecord[];
+}
+
+type StoredDraft = Omit<Draft, keyof DraftSecrets> & {
+  sealed: SealedData;
+  /** Kept readable so a discarded draft's audio can be removed without the key */
+  audioClipIds: string[];
+};
+
+interface StoredAudioClip {
+  id: string;
+  sampleRate: number;
+  sealed: SealedData;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+/**
+ * Calls `then` inside `transaction` once `work` has finished. IndexedDB commits a
+ * transaction as soon as it has no pending requests, which would happen while
+ * WebCrypto runs, so it is kept busy with cheap reads until then. A failed `work`
+ * aborts the transaction.
+ */
+const afterWork = <T>(transaction: IDBTransaction, store: string, work: Promise<T>, then: (result: T) => void): void => {
+  let outcome: { result: T } | null = null;
+  let failed = false;
+  work.then(result => { outcome = { result }; }, () => { failed = true; transaction.abort(); });
+  const poll = () => {
+    if (outcome) then(outcome.result);
+    else if (!failed) transaction.objectStore(store).count().onsuccess = poll;
+  };
+  poll();
+};
+
+type Ordered = Pick<Submission, 'id' | 'submittedAt'>;
+
+const encodeCursor = (s: Ordered) => `${s.submittedAt}|${s.id}`;
+
+const decodeCursor = (cursor: string) => {
+  const [submittedAt, id] = cursor.split('|');
+  return { submittedAt, id: Number(id) };
+};
+
+/** True if `s` comes strictly after the cursor position in the requested order */
+const isPastCursor = (s: Ordered, after: { submittedAt: string; id: number }, newest: boolean) => {
+  if (s.submittedAt !== after.submittedAt) return newest ? s.submittedAt < after.submittedAt : s.submittedAt > after.submittedAt;
+  return newest ? s.id! < after.id : s.id! > after.id;
+};
+
+const withinRange = (s: Ordered, from?: string, to?: string) =>
+  (!from || s.submittedAt >= from) && (!to || s.submittedAt <= to);
+
+const addAuditEntry = (transaction: IDBTransaction, entry: AuditEntry) => transaction.objectStore('audit').add(entry);
+
+const audioClipIdsOf = (transcript: TranscriptionRecord[] = []) =>
+  transcript.map(turn => turn.audioClipId).filter((id): id is string => !!id);
+
+const dateRange = (from?: string, to?: string): IDBKeyRange | undefined => {
+  if (from && to) return IDBKeyRange.bound(from, to);
+  if (from) return IDBKeyRange.lowerBound(from);
+  if (to) return IDBKeyRange.upperBound(to);
+  return undefined;
+};
 
 /**
- * A robust wrapper for IndexedDB to simulate a real backend/database environment
+ * A robust wrapper for IndexedDB to simulate a real backend/database environment.
+ * Applicant data is encrypted with keys derived from the operator PIN; every
+ * method that reads or writes it needs the service to be unlocked first.
  */
 class DatabaseService {
   private db: IDBDatabase | null = null;
+  private keys: VaultKeys | null = null;
 
   private async getDB(): Promise<IDBDatabase> {
     if (this.db) return this.db;
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
       request.onupgradeneeded = (e) => {
-        const db = (e.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains('submissions')) {
-          db.createObjectStore('submissions', { keyPath: 'id', autoIncrement: true });
-        }
+        runMigrations(request.result, request.transaction!, e.oldVersion);
       };
       request.onsuccess = () => {
         this.db = request.result;
@@ -31,51 +156,599 @@ class DatabaseService {
     });
   }
 
-  async getDraft(): Promise<FormData | null> {
-    const data = localStorage.getItem(DRAFT_KEY);
-    return data ? JSON.parse(data) : null;
+  // --- Vault ---
+
+  get isUnlocked(): boolean {
+    return !!this.keys;
   }
 
-  async saveDraft(data: FormData): Promise<void> {
-    localStorage.setItem(DRAFT_KEY, JSON.stringify(data));
+  private requireKeys(): VaultKeys {
+    if (!this.keys) throw new VaultLockedError();
+    return this.keys;
   }
 
-  async submitForm(data: FormData): Promise<void> {
-    await delay(800); // Simulate network latency to a backend
+  private async getVaultMeta(): Promise<VaultMeta | undefined> {
     const db = await this.getDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(['submissions'], 'readwrite');
-      const store = transaction.objectStore('submissions');
-      const entry = {
-        ...data,
-        submittedAt: new Date().toISOString()
-      };
-      const request = store.add(entry);
+    return promisify(db.transaction(['vault'], 'readonly').objectStore('vault').get('meta'));
+  }
+
+  async hasPin(): Promise<boolean> {
+    return !!(await this.getVaultMeta());
+  }
+
+  /** First-time setup; also encrypts anything stored before PINs existed */
+  async setupPin(pin: string): Promise<void> {
+    if (await this.hasPin()) throw new Error('A PIN is already set');
+    const { meta, keys } = await createVault(pin);
+    const db = await this.getDB();
+    const transaction = db.transaction(['vault'], 'readwrite');
+    transaction.objectStore('vault').put(meta);
+    await completion(transaction);
+    this.keys = keys;
+    await this.sealLegacyRecords(keys);
+  }
+
+  private getPinAttempts(): { failures: number; lockedUntil: number } {
+    try {
+      return { failures: 0, lockedUntil: 0, ...JSON.parse(localStorage.getItem(PIN_ATTEMPTS_KEY) || '{}') };
+    } catch {
+      return { failures: 0, lockedUntil: 0 };
+    }
+  }
+
+  /**
+   * Proves `pin` against the vault record unless wrong PINs are being throttled.
+   * The failure count lives in localStorage so reloading the page doesn't reset it.
+   * Throws `PinLockedError` instead of `WrongPinError` once a failure makes the next attempt wait.
+   */
+  private async checkPin(pin: string, meta: VaultMeta): Promise<VaultKeys> {
+    const attempts = this.getPinAttempts();
+    if (attempts.lockedUntil > Date.now()) throw new PinLockedError(attempts.lockedUntil);
+    try {
+      const keys = await unlockVault(pin, meta);
+      localStorage.removeItem(PIN_ATTEMPTS_KEY);
+      return keys;
+    } catch (err) {
+      if (!(err instanceof WrongPinError)) throw err;
+      const failures = attempts.failures + 1;
+      const delay = pinRetryDelay(failures);
+      const lockedUntil = Date.now() + delay;
+      localStorage.setItem(PIN_ATTEMPTS_KEY, JSON.stringify({ failures, lockedUntil }));
+      throw delay > 0 ? new PinLockedError(lockedUntil) : err;
+    }
+  }
+
+  /** Throws `WrongPinError` if the PIN does not match, or `PinLockedError` while attempts are throttled */
+  async unlock(pin: string): Promise<void> {
+    const meta = await this.getVaultMeta();
+    if (!meta) throw new Error('No PIN has been set');
+    const keys = await this.checkPin(pin, meta);
+    this.keys = keys;
+    await this.sealLegacyRecords(keys);
+  }
+
+  /** Throws like `unlock` if the PIN does not match; the current keys are left as they are */
+  async verifyPin(pin: string): Promise<void> {
+    const meta = await this.getVaultMeta();
+    if (!meta) throw new Error('No PIN has been set');
+    await this.checkPin(pin, meta);
+  }
+
+  lock(): void {
+    this.keys = null;
+  }
+
+  /**
+   * Re-encrypts every record under a key derived from the new PIN. Records are read,
+   * rewritten and the new vault record stored in one transaction, so an interrupted
+   * change leaves the old PIN working and a record saved meanwhile waits for it to finish.
+   */
+  async changePin(currentPin: string, newPin: string): Promise<void> {
+    const meta = await this.getVaultMeta();
+    if (!meta) throw new Error('No PIN has been set');
+    const oldKeys = await this.checkPin(currentPin, meta);
+    const { meta: newMeta, keys: newKeys } = await createVault(newPin);
+    const db = await this.getDB();
+
+    const transaction = db.transaction([...DATA_STORES, 'vault'], 'readwrite');
+    const [submissions, drafts, clips] = await Promise.all([
+      promisify<StoredSubmission[]>(transaction.objectStore('submissions').getAll()),
+      promisify<StoredDraft[]>(transaction.objectStore('drafts').getAll()),
+      promisify<StoredAudioClip[]>(transaction.objectStore('audioClips').getAll())
+    ]);
+
+    const resealing = Promise.all([
+      Promise.all(submissions.map(async s => this.sealSubmission(newKeys, await this.openSubmission(oldKeys, s)))),
+      Promise.all(drafts.map(async d => this.sealDraft(newKeys, await this.openDraft(oldKeys, d)))),
+      Promise.all(clips.map(async c => this.sealAudioClip(newKeys, await this.openAudioClip(oldKeys, c))))
+    ]);
+    const done = completion(transaction);
+    afterWork(transaction, 'vault', resealing, resealed => {
+      DATA_STORES.forEach((name, i) => {
+        const store = transaction.objectStore(name);
+        (resealed[i] as object[]).forEach(record => store.put(record));
+      });
+      transaction.objectStore('vault').put(newMeta);
+    });
+    // A resealing failure rejects first, so it is reported rather than the abort it causes
+    await Promise.all([resealing, done]);
+    this.keys = newKeys;
+  }
+
+  /** Encrypts records written in plaintext by versions before the vault existed */
+  private async sealLegacyRecords(keys: VaultKeys): Promise<void> {
+    const db = await this.getDB();
+    const read = db.transaction(DATA_STORES, 'readonly');
+    const [submissions, drafts, clips] = await Promise.all([
+      promisify<(StoredSubmission | Submission)[]>(read.objectStore('submissions').getAll()),
+      promisify<(StoredDraft | Draft)[]>(read.objectStore('drafts').getAll()),
+      promisify<(StoredAudioClip | AudioClip)[]>(read.objectStore('audioClips').getAll())
+    ]);
+    const plain = <T extends object>(records: (T | { sealed: SealedData })[]) => records.filter((r): r is T => !('sealed' in r));
+    const sealed = await Promise.all([
+      Promise.all(plain<Submission>(submissions).map(s => this.sealSubmission(keys, s))),
+      Promise.all(plain<Draft>(drafts).map(d => this.sealDraft(keys, d))),
+      Promise.all(plain<AudioClip>(clips).map(c => this.sealAudioClip(keys, c)))
+    ]);
+    if (sealed.every(records => records.length === 0)) return;
+
+    const write = db.transaction(DATA_STORES, 'readwrite');
+    DATA_STORES.forEach((name, i) => {
+      const store = write.objectStore(name);
+      (sealed[i] as object[]).forEach(record => store.put(record));
+    });
+    await completion(write);
+  }
+
+  // --- Record Encryption ---
+
+  private async sealSubmission(keys: VaultKeys, submission: Submission): Promise<StoredSubmission> {
+    // Legacy plaintext records may also carry the old search keys; they are dropped here
+    const { values, latin, documents, summary, transcript, amendments, nameTokens, cityKey, ...rest } = submission as Submission & { nameTokens?: string[]; cityKey?: string };
+    const secrets: SubmissionSecrets = { values, latin, documents, summary, transcript, amendments };
+    const { name, place } = identityFields(getSchema(submission.formType));
+    const indexed = [name, place].filter((id): id is string => !!id);
+    return {
+      ...rest,
+      sealed: await sealJSON(keys, secrets),
+      // Both spellings are indexed so a search finds the record in either script
+      searchKeys: await blindPrefixes(keys, indexed.flatMap(id => [values[id] || '', latin?.[id] || '']))
+    };
+  }
+
+  private async openSubmission(keys: VaultKeys, stored: StoredSubmission): Promise<Submission> {
+    const { sealed, searchKeys, ...rest } = stored;
+    return { ...rest, ...(await openJSON<SubmissionSecrets>(keys, sealed)) };
+  }
+
+  private openSubmissions(stored: StoredSubmission[]): Promise<Submission[]> {
+    const keys = this.requireKeys();
+    return Promise.all(stored.map(s => this.openSubmission(keys, s)));
+  }
+
+  private async sealDraft(keys: VaultKeys, draft: Draft): Promise<StoredDraft> {
+    const { values, latin, documents, transcript, ...rest } = draft;
+    const secrets: DraftSecrets = { values, latin, documents, transcript: transcript || [] };
+    return {
+      ...rest,
+      sealed: await sealJSON(keys, secrets),
+      audioClipIds: audioClipIdsOf(secrets.transcript)
+    };
+  }
+
+  private async openDraft(keys: VaultKeys, stored: StoredDraft): Promise<Draft> {
+    const { sealed, audioClipIds, ...rest } = stored;
+    return { ...rest, ...(await openJSON<DraftSecrets>(keys, sealed)) };
+  }
+
+  private async sealAudioClip(keys: VaultKeys, clip: AudioClip): Promise<StoredAudioClip> {
+    return { id: clip.id, sampleRate: clip.sampleRate, sealed: await sealBytes(keys, clip.pcm) };
+  }
+
+  private async openAudioClip(keys: VaultKeys, stored: StoredAudioClip): Promise<AudioClip> {
+    return { id: stored.id, sampleRate: stored.sampleRate, pcm: await openBytes(keys, stored.sealed) };
+  }
+
+  // --- Drafts ---
+
+  /** All open drafts, most recently updated first */
+  async listDrafts(): Promise<Draft[]> {
+    const keys = this.requireKeys();
+    const db = await this.getDB();
+    const stored = await promisify<StoredDraft[]>(db.transaction(['drafts'], 'readonly').objectStore('drafts').index('updatedAt').getAll());
+    return Promise.all(stored.reverse().map(d => this.openDraft(keys, d)));
+  }
+
+  async saveDraft(draft: Draft): Promise<void> {
+    const record = await this.sealDraft(this.requireKeys(), draft);
+    const db = await this.getDB();
+    const transaction = db.transaction(['drafts'], 'readwrite');
+    transaction.objectStore('drafts').put(record);
+    return completion(transaction);
+  }
+
+  /** Removes a discarded draft together with the audio recorded for it */
+  async deleteDraft(id: string): Promise<void> {
+    const db = await this.getDB();
+    const stored = await promisify<StoredDraft | undefined>(db.transaction(['drafts'], 'readonly').objectStore('drafts').get(id));
+    if (stored) await this.removeRecords('discard', [], [stored]);
+  }
+
+  async saveAudioClip(clip: AudioClip): Promise<void> {
+    const record = await this.sealAudioClip(this.requireKeys(), clip);
+    const db = await this.getDB();
+    const transaction = db.transaction(['audioClips'], 'readwrite');
+    transaction.objectStore('audioClips').put(record);
+    return completion(transaction);
+  }
+
+  async getAudioClip(id: string): Promise<AudioClip | undefined> {
+    const keys = this.requireKeys();
+    const db = await this.getDB();
+    const stored = await promisify<StoredAudioClip | undefined>(db.transaction(['audioClips'], 'readonly').objectStore('audioClips').get(id));
+    return stored ? this.openAudioClip(keys, stored) : undefined;
+  }
+
+  async getPreferredLanguage(): Promise<LanguageCode | null> {
+    return localStorage.getItem(LANGUAGE_KEY) as LanguageCode | null;
+  }
+
+  async savePreferredLanguage(code: LanguageCode): Promise<void> {
+    localStorage.setItem(LANGUAGE_KEY, code);
+  }
+
+  async getKioskMode(): Promise<boolean> {
+    return localStorage.getItem(KIOSK_KEY) === 'on';
+  }
+
+  async saveKioskMode(on: boolean): Promise<void> {
+    if (on) localStorage.setItem(KIOSK_KEY, 'on');
+    else localStorage.removeItem(KIOSK_KEY);
+  }
+
+  /** On unless turned off; when off, no transcript is sent anywhere to be summarised */
+  async getCloudSummary(): Promise<boolean> {
+    return localStorage.getItem(CLOUD_SUMMARY_KEY) !== 'off';
+  }
+
+  async saveCloudSummary(on: boolean): Promise<void> {
+    if (on) localStorage.removeItem(CLOUD_SUMMARY_KEY);
+    else localStorage.setItem(CLOUD_SUMMARY_KEY, 'off');
+  }
+
+  /** Random id for this install, sent to the AI proxy so rate limits apply per device */
+  async getDeviceId(): Promise<string> {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  }
+
+  /** Hands out queue numbers in order; they keep counting across reloads */
+  async nextQueueToken(): Promise<number> {
+    const next = (Number(localStorage.getItem(QUEUE_TOKEN_KEY)) || 0) + 1;
+    localStorage.setItem(QUEUE_TOKEN_KEY, String(next));
+    return next;
+  }
+
+  // --- Submissions ---
+
+  /**
+   * Saves locally and queues the record in the outbox; the sync worker
+   * delivers it to the backend when a connection is available. The draft it was
+   * filled in from is removed in the same transaction. When the operator resolved a
+   * likely duplicate, the new record is either linked to the earlier one or replaces it;
+   * a replaced record is deleted in the same transaction, and one the backend already
+   * has is named in `supersedes`.
+   */
+  async submitForm(submission: NewSubmission, draftId?: string, resolution?: DuplicateResolution): Promise<void> {
+    const keys = this.requireKeys();
+    const db = await this.getDB();
+    const earlier = resolution && resolution.action !== 'proceed'
+      ? await promisify<StoredSubmission | undefined>(db.transaction(['submissions'], 'readonly').objectStore('submissions').get(resolution.submissionId))
+      : undefined;
+    const replaced = resolution?.action === 'replace' ? earlier : undefined;
+    const replacedClipIds = replaced ? audioClipIdsOf((await this.openSubmission(keys, replaced)).transcript) : [];
+
+    const entry = await this.sealSubmission(keys, {
+      ...submission,
+      submittedAt: new Date().toISOString(),
+      ...newOutboxEntry(),
+      linkedTo: resolution?.action === 'link' ? earlier?.idempotencyKey : undefined,
+      supersedes: replaced?.syncStatus === 'synced' ? replaced.idempotencyKey : undefined
+    });
+    const transaction = db.transaction(['submissions', 'drafts', 'audioClips', 'audit'], 'readwrite');
+    transaction.objectStore('submissions').add(entry);
+    if (draftId) transaction.objectStore('drafts').delete(draftId);
+    if (replaced) {
+      transaction.objectStore('submissions').delete(replaced.id!);
+      replacedClipIds.forEach(clipId => transaction.objectStore('audioClips').delete(clipId));
+      addAuditEntry(transaction, { action: 'replace', target: 'submission', recordId: replaced.id, formType: replaced.formType, at: entry.submittedAt });
+    }
+    return completion(transaction);
+  }
+
+  /**
+   * Earlier submissions of the same form that look like the same applicant. Candidates
+   * come from the blind index by city, so only records in the same city are decrypted.
+   */
+  async findDuplicates(submission: Pick<Submission, 'formType' | 'values' | 'latin'>): Promise<Submission[]> {
+    const keys = this.requireKeys();
+    const terms = duplicateLookupTerms(submission);
+    const blindKeys = await Promise.all(terms.map(term => blindIndex(keys, term)));
+    const db = await this.getDB();
+    const index = db.transaction(['submissions'], 'readonly').objectStore('submissions').index('searchKeys');
+    const found = (await Promise.all(blindKeys.map(key => promisify<StoredSubmission[]>(index.getAll(key))))).flat();
+    const candidates = Array.from(new Map(found.filter(s => s.formType === submission.formType).map(s => [s.id, s])).values());
+    const opened = await this.openSubmissions(candidates);
+    return opened.filter(s => isLikelySameApplicant(submission, s)).sort((a, b) => (a.submittedAt < b.submittedAt ? 1 : -1));
+  }
+
+  async getAllSubmissions(): Promise<Submission[]> {
+    const db = await this.getDB();
+    const stored = await promisify<StoredSubmission[]>(db.transaction(['submissions'], 'readonly').objectStore('submissions').getAll());
+    return this.openSubmissions(stored);
+  }
+
+  async getSubmissionsByIds(ids: number[]): Promise<Submission[]> {
+    const db = await this.getDB();
+    const store = db.transaction(['submissions'], 'readonly').objectStore('submissions');
+    const records = await Promise.all(ids.map(id => promisify<StoredSubmission | undefined>(store.get(id))));
+    return this.openSubmissions(records.filter((r): r is StoredSubmission => !!r));
+  }
+
+  /**
+   * Adds records from another device, keeping their original timestamps. A record whose
+   * form type, timestamp and values all match an existing one is skipped as a duplicate.
+   */
+  async importSubmissions(records: ImportedSubmission[]): Promise<{ imported: number; skipped: number }> {
+    const keys = this.requireKeys();
+    const db = await this.getDB();
+    // Only records sharing a timestamp can be duplicates; decrypt just those
+    const index = db.transaction(['submissions'], 'readonly').objectStore('submissions').index('submittedAt');
+    const timestamps = Array.from(new Set(records.map(r => r.submittedAt)));
+    const candidates = (await Promise.all(timestamps.map(at => promisify<StoredSubmission[]>(index.getAll(at))))).flat();
+    const seen = new Set((await this.openSubmissions(candidates)).map(fingerprint));
+
+    const fresh = records.filter(record => {
+      const key = fingerprint(record);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    const entries = await Promise.all(fresh.map(record =>
+      this.sealSubmission(keys, { ...record, ...newOutboxEntry(record.idempotencyKey) })
+    ));
+
+    const transaction = db.transaction(['submissions'], 'readwrite');
+    const store = transaction.objectStore('submissions');
+    entries.forEach(entry => store.add(entry));
+    await completion(transaction);
+    return { imported: entries.length, skipped: records.length - entries.length };
+  }
+
+  /** Records not yet accepted by the backend, oldest first */
+  async getOutbox(): Promise<Submission[]> {
+    const db = await this.getDB();
+    const index = db.transaction(['submissions'], 'readonly').objectStore('submissions').index('syncStatus');
+    const [pending, failed] = await Promise.all([
+      promisify<StoredSubmission[]>(index.getAll('pending')),
+      promisify<StoredSubmission[]>(index.getAll('failed'))
+    ]);
+    const outbox = await this.openSubmissions([...pending, ...failed]);
+    return outbox.sort((a, b) => (a.submittedAt < b.submittedAt ? -1 : 1));
+  }
+
+  /** Sync state is stored in the clear, so this works while locked */
+  async updateSyncState(id: number, state: SyncState): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction(['submissions'], 'readwrite');
+    const store = transaction.objectStore('submissions');
+    const request = store.get(id);
+    request.onsuccess = () => {
+      // The record may have been cleared while a request was in flight
+      if (request.result) store.put({ ...request.result, ...state });
+    };
+    return completion(transaction);
+  }
+
+  async countSubmissions(): Promise<number> {
+    const db = await this.getDB();
+    return promisify(db.transaction(['submissions'], 'readonly').objectStore('submissions').count());
+  }
+
+  /**
+   * Returns one page of submissions. Without a search term this walks the
+   * `submittedAt` index with a cursor; with one it looks the term up in the
+   * blind `searchKeys` index, whose matches stay small enough to sort in memory.
+   */
+  async querySubmissions(query: SubmissionQuery = {}): Promise<SubmissionPage> {
+    const term = query.search?.trim().toLowerCase().replace(/\s+/g, ' ');
+    return term ? this.searchSubmissions(term, query) : this.scanSubmissions(query);
+  }
+
+  private async scanSubmissions({ from, to, order = 'newest', limit = DEFAULT_PAGE_SIZE, after }: SubmissionQuery): Promise<SubmissionPage> {
+    this.requireKeys();
+    const db = await this.getDB();
+    const newest = order === 'newest';
+    const position = after ? decodeCursor(after) : null;
+    // Resume at the cursor's timestamp; ties on it are skipped by id below
+    const range = position
+      ? dateRange(newest ? from : position.submittedAt, newest ? position.submittedAt : to)
+      : dateRange(from, to);
+
+    const page = await new Promise<{ items: StoredSubmission[]; next?: string }>((resolve, reject) => {
+      const index = db.transaction(['submissions'], 'readonly').objectStore('submissions').index('submittedAt');
+      const request = index.openCursor(range, newest ? 'prev' : 'next');
+      const items: StoredSubmission[] = [];
       request.onsuccess = () => {
-        localStorage.removeItem(DRAFT_KEY);
-        resolve();
+        const cursor = request.result;
+        if (!cursor) return resolve({ items });
+        const record: StoredSubmission = cursor.value;
+        if (!position || isPastCursor(record, position, newest)) {
+          if (items.length === limit) return resolve({ items, next: encodeCursor(items[items.length - 1]) });
+          items.push(record);
+        }
+        cursor.continue();
       };
       request.onerror = () => reject(request.error);
     });
+    return { items: await this.openSubmissions(page.items), next: page.next };
   }
 
-  async getAllSubmissions(): Promise<any[]> {
+  private async searchSubmissions(term: string, { from, to, order = 'newest', limit = DEFAULT_PAGE_SIZE, after }: SubmissionQuery): Promise<SubmissionPage> {
+    const key = await blindIndex(this.requireKeys(), term);
     const db = await this.getDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(['submissions'], 'readonly');
-      const store = transaction.objectStore('submissions');
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
+    const stored = await promisify<StoredSubmission[]>(
+      db.transaction(['submissions'], 'readonly').objectStore('submissions').index('searchKeys').getAll(key)
+    );
+
+    const newest = order === 'newest';
+    const position = after ? decodeCursor(after) : null;
+    const matches = stored
+      .filter(s => withinRange(s, from, to))
+      .filter(s => !position || isPastCursor(s, position, newest))
+      .sort((a, b) => {
+        const cmp = a.submittedAt === b.submittedAt ? a.id! - b.id! : a.submittedAt < b.submittedAt ? -1 : 1;
+        return newest ? -cmp : cmp;
+      });
+
+    const items = matches.slice(0, limit);
+    return {
+      items: await this.openSubmissions(items),
+      next: matches.length > limit ? encodeCursor(items[items.length - 1]) : undefined
+    };
+  }
+
+  /** A single record, or undefined once it has been deleted */
+  async getSubmission(id: number): Promise<Submission | undefined> {
+    const [submission] = await this.getSubmissionsByIds([id]);
+    return submission;
+  }
+
+  /** Removes one record together with its recorded audio */
+  async deleteSubmission(id: number): Promise<void> {
+    const db = await this.getDB();
+    const stored = await promisify<StoredSubmission | undefined>(db.transaction(['submissions'], 'readonly').objectStore('submissions').get(id));
+    if (stored) await this.removeRecords('delete', [stored], []);
+  }
+
+  /**
+   * Applies an operator's edit to a submitted record and returns the updated record.
+   * The replaced values are kept in its sealed amendment history. A record the backend
+   * has already accepted is queued again under a new key that names the one it replaces.
+   */
+  async amendSubmission(id: number, values: FormData, latin?: FormData): Promise<Submission> {
+    const keys = this.requireKeys();
+    const db = await this.getDB();
+    const stored = await promisify<StoredSubmission | undefined>(db.transaction(['submissions'], 'readonly').objectStore('submissions').get(id));
+    if (!stored) throw new Error(`Submission ${id} no longer exists`);
+    const current = await this.openSubmission(keys, stored);
+    const fields = Object.keys({ ...current.values, ...values }).filter(k => (current.values[k] || '') !== (values[k] || ''));
+    if (fields.length === 0) return current;
+
+    const at = new Date().toISOString();
+    const amended: Submission = {
+      ...current,
+      values: { ...current.values, ...values },
+      latin: latin ?? current.latin,
+      provenance: { ...current.provenance, ...Object.fromEntries(fields.map(k => [k, { source: 'typed' as const, at, confidence: 1 }])) },
+      amendments: [...(current.amendments || []), { at, previous: Object.fromEntries(fields.map(k => [k, current.values[k] || ''])) }]
+    };
+    if (current.syncStatus === 'synced') {
+      Object.assign(amended, { ...newOutboxEntry(), supersedes: current.idempotencyKey, syncedAt: undefined });
+    }
+
+    const record = await this.sealSubmission(keys, amended);
+    const transaction = db.transaction(['submissions', 'audit'], 'readwrite');
+    transaction.objectStore('submissions').put(record);
+    addAuditEntry(transaction, { action: 'amend', target: 'submission', recordId: id, formType: current.formType, fields, at });
+    await completion(transaction);
+    return amended;
+  }
+
+  /**
+   * Deletes records and their audio in one transaction, logging each one. A submission's
+   * clip ids are only in its sealed transcript, so removing one needs the vault unlocked.
+   */
+  private async removeRecords(action: 'delete' | 'discard' | 'purge', submissions: StoredSubmission[], drafts: StoredDraft[]): Promise<void> {
+    const keys = submissions.length > 0 ? this.requireKeys() : null;
+    const submissionClipIds = await Promise.all(submissions.map(async s => audioClipIdsOf((await this.openSubmission(keys!, s)).transcript)));
+    const at = new Date().toISOString();
+    const db = await this.getDB();
+    const transaction = db.transaction(['submissions', 'drafts', 'audioClips', 'audit'], 'readwrite');
+    const clips = transaction.objectStore('audioClips');
+    submissions.forEach((s, i) => {
+      transaction.objectStore('submissions').delete(s.id!);
+      submissionClipIds[i].forEach(clipId => clips.delete(clipId));
+      addAuditEntry(transaction, { action, target: 'submission', recordId: s.id, formType: s.formType, at });
+    });
+    drafts.forEach(d => {
+      transaction.objectStore('drafts').delete(d.id);
+      d.audioClipIds.forEach(clipId => clips.delete(clipId));
+      addAuditEntry(transaction, { action, target: 'draft', recordId: d.id, formType: d.formType, at });
     });
+    return completion(transaction);
+  }
+
+  // --- Retention ---
+
+  async getRetentionPolicy(): Promise<RetentionPolicy> {
+    try {
+      return JSON.parse(localStorage.getItem(RETENTION_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  async saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+    localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
   }
 
+  /**
+   * Purges synced submissions and idle drafts older than the policy allows. Records
+   * the backend has not yet accepted are never purged, however old they are.
+   */
+  async applyRetention(policy: RetentionPolicy, now = Date.now()): Promise<{ submissions: number; drafts: number }> {
+    const before = (days?: number) => (days && days > 0 ? IDBKeyRange.upperBound(new Date(now - days * DAY_MS).toISOString(), true) : null);
+    const syncedBefore = before(policy.syncedDays);
+    const updatedBefore = before(policy.draftDays);
+    if (!syncedBefore && !updatedBefore) return { submissions: 0, drafts: 0 };
+
+    const db = await this.getDB();
+    const read = db.transaction(['submissions', 'drafts'], 'readonly');
+    const [synced, drafts] = await Promise.all([
+      syncedBefore ? promisify<StoredSubmission[]>(read.objectStore('submissions').index('syncedAt').getAll(syncedBefore)) : [],
+      updatedBefore ? promisify<StoredDraft[]>(read.objectStore('drafts').index('updatedAt').getAll(updatedBefore)) : []
+    ]);
+    // A manual retry re-queues a record without clearing when it was last synced
+    const submissions = synced.filter(s => s.syncStatus === 'synced');
+    if (submissions.length > 0 || drafts.length > 0) await this.removeRecords('purge', submissions, drafts);
+    return { submissions: submissions.length, drafts: drafts.length };
+  }
+
+  // --- Audit Log ---
+
+  /** Newest first; readable while locked, since entries identify no one */
+  async getAuditLog(): Promise<AuditEntry[]> {
+    const db = await this.getDB();
+    const entries = await promisify<AuditEntry[]>(db.transaction(['audit'], 'readonly').objectStore('audit').index('at').getAll());
+    return entries.reverse();
+  }
+
+  /** Removes all applicant data; the PIN and the audit log stay */
   async clearDatabase(): Promise<void> {
-    localStorage.removeItem(DRAFT_KEY);
     const db = await this.getDB();
-    const transaction = db.transaction(['submissions'], 'readwrite');
-    const store = transaction.objectStore('submissions');
-    store.clear();
+    const transaction = db.transaction([...DATA_STORES, 'audit'], 'readwrite');
+    // Requests run in order, so the count sees the records before they are cleared
+    const counted = transaction.objectStore('submissions').count();
+    counted.onsuccess = () => {
+      addAuditEntry(transaction, { action: 'clear', target: 'all', count: counted.result, at: new Date().toISOString() });
+    };
+    DATA_STORES.forEach(name => transaction.objectStore(name).clear());
+    return completion(transaction);
   }
 }
 
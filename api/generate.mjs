@@ -0,0 +1,4 @@
+// Vercel function: POST /api/generate
+import { proxyFromEnv } from '../server/aiProxy.mjs';
+
+export const POST = (request) => proxyFromEnv()(request);
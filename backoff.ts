@@ -0,0 +1,5 @@
+/** Exponential backoff with jitter: the ceiling doubles per attempt up to `maxMs`, and the wait is drawn from its upper half */
+export function backoffDelay(attempts: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempts - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
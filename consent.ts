@@ -0,0 +1,12 @@
+import { ConsentRecord, ConsentScope } from './types';
+import { LanguageConfig } from './i18n';
+
+/** True when the latest answer for `scope` was yes, so a later "no" withdraws an earlier "yes" */
+export function hasConsent(records: ConsentRecord[] | undefined, scope: ConsentScope): boolean {
+  const answers = (records || []).filter(r => r.scope === scope);
+  return answers.length > 0 && answers[answers.length - 1].agreed;
+}
+
+export function consentNotice(language: LanguageConfig, scope: ConsentScope): string {
+  return scope === 'conversation' ? language.strings.consentConversation : language.strings.consentDocuments;
+}
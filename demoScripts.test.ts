@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FieldCorrection, FormData } from './types';
+import { LiveSession, LiveSessionConfig } from './aiProvider';
+import { getLanguage } from './i18n';
+import { getSchema, emptyFormData } from './formSchemas';
+import { dualScript, hasLatinSpelling } from './transliterate';
+import { answerToolCall, ToolHost } from './toolCalls';
+import { ScriptedProvider, ScriptMismatch } from './scriptedProvider';
+import { DEMO_SCRIPTS, DemoScript } from './demoScripts';
+
+// The form as App keeps it, without React: values, Latin spellings, consent and the pending correction
+function formFor(script: DemoScript) {
+  const schema = getSchema(script.formType);
+  const language = getLanguage(script.language);
+  let values: FormData = emptyFormData(schema);
+  let latin: FormData = {};
+  let consented = false;
+  let correction: FieldCorrection | null = null;
+  let readBack: string | null = null;
+  let submitted = false;
+
+  const updateField = (field: string, value: string) => {
+    const fieldSchema = schema.fields.find(f => f.id === field);
+    if (fieldSchema && hasLatinSpelling(fieldSchema)) {
+      const spelled = dualScript(fieldSchema, value, language.code);
+      value = spelled.value;
+      latin = { ...latin, [field]: spelled.latin };
+    }
+    values = { ...values, [field]: value };
+    return value;
+  };
+
+  const host: ToolHost = {
+    schema,
+    language,
+    formData: () => values,
+    latinData: () => latin,
+    hasConsent: () => consented,
+    recordConsent: agreed => { consented = agreed; },
+    updateField,
+    correction: () => correction,
+    changeCorrection: next => { correction = next; },
+    settleCorrection: accept => {
+      if (accept && correction?.proposedValue !== undefined) updateField(correction.fieldId, correction.proposedValue);
+      correction = null;
+    },
+    readBack: () => readBack,
+    setReadBack: key => { readBack = key; },
+    onDeclined: () => {},
+    onConfirmed: () => { submitted = true; }
+  };
+  return { host, values: () => values, submitted: () => submitted };
+}
+
+/** Plays a script to its end with the app's tool handling and collects every mismatch */
+async function replay(script: DemoScript) {
+  const form = formFor(script);
+  const mismatches: ScriptMismatch[] = [];
+  let responses = 0;
+  const provider = new ScriptedProvider(script, m => mismatches.push(m));
+  const session: LiveSession = await provider.connectLive({} as LiveSessionConfig, {
+    onopen: () => {},
+    onmessage: message => message.toolCall?.functionCalls?.forEach(fc => {
+      const response = answerToolCall(form.host, fc.name!, fc.args ?? {});
+      if (!response) return;
+      responses++;
+      session.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response } });
+    }),
+    onerror: () => {},
+    onclose: () => {}
+  });
+  await vi.runAllTimersAsync();
+  return { mismatches, responses, form };
+}
+
+const toolTurns = (script: DemoScript) => script.turns.filter(turn => 'tool' in turn).length;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('demo scripts', () => {
+  it('are all valid', () => {
+    const files = import.meta.glob('./demo/*.json');
+    expect(DEMO_SCRIPTS).toHaveLength(Object.keys(files).length);
+  });
+
+  it.each(DEMO_SCRIPTS.map(script => [script.id, script] as const))('%s replays without a mismatch', async (_, script) => {
+    vi.useFakeTimers();
+    const { mismatches, responses, form } = await replay(script);
+    expect(mismatches).toEqual([]);
+    expect(responses).toBe(toolTurns(script));
+    expect(form.submitted()).toBe(true);
+  });
+
+  it('reports a tool response that no longer matches the script', async () => {
+    vi.useFakeTimers();
+    const script = DEMO_SCRIPTS[0];
+    const turns = script.turns.map(turn => ('tool' in turn && turn.tool === 'record_consent' ? { ...turn, expect: { result: 'declined' } } : turn));
+    const { mismatches } = await replay({ ...script, turns });
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0]).toMatchObject({ tool: 'record_consent', expected: { result: 'declined' }, actual: { result: 'ok' } });
+  });
+});
@@ -0,0 +1,59 @@
+import { LanguageCode } from './types';
+import { getSchema } from './formSchemas';
+import { getLanguage } from './i18n';
+
+/**
+ * One beat of a scripted conversation. A tool call waits for the app's response
+ * before the script moves on, and `expect` lists fields that response must contain.
+ */
+export type DemoTurn =
+  | { user: string; pauseMs?: number }
+  /** `audio` is base64 16-bit PCM at 24 kHz; without it the turn plays silence of a plausible length */
+  | { assistant: string; audio?: string }
+  | { tool: string; args: Record<string, unknown>; expect?: Record<string, unknown> };
+
+/** Raw model output for a document scan, by purpose */
+export interface DemoDocument {
+  classify: Record<string, unknown>;
+  extract: Record<string, unknown>;
+}
+
+export interface DemoScript {
+  id: string;
+  title: string;
+  formType: string;
+  language: LanguageCode;
+  turns: DemoTurn[];
+  document?: DemoDocument;
+  summary?: string;
+}
+
+const isTurn = (turn: unknown): turn is DemoTurn => {
+  if (!turn || typeof turn !== 'object') return false;
+  const t = turn as Record<string, unknown>;
+  if (typeof t.user === 'string' || typeof t.assistant === 'string') return true;
+  return typeof t.tool === 'string' && !!t.args && typeof t.args === 'object';
+};
+
+/** Checks a script file's shape; returns null when it can't be played */
+export function parseDemoScript(raw: unknown): DemoScript | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+  if (typeof s.id !== 'string' || typeof s.title !== 'string') return null;
+  if (typeof s.formType !== 'string' || getSchema(s.formType).id !== s.formType) return null;
+  if (typeof s.language !== 'string' || getLanguage(s.language).code !== s.language) return null;
+  if (!Array.isArray(s.turns) || !s.turns.every(isTurn)) return null;
+  return raw as DemoScript;
+}
+
+// Every JSON file in demo/ is bundled, so adding a scenario needs no code change
+const files = import.meta.glob<unknown>('./demo/*.json', { eager: true, import: 'default' });
+
+export const DEMO_SCRIPTS: DemoScript[] = Object.entries(files)
+  .map(([path, raw]) => {
+    const script = parseDemoScript(raw);
+    if (!script) console.error(`Skipping invalid demo script ${path}`);
+    return script;
+  })
+  .filter((s): s is DemoScript => s !== null)
+  .sort((a, b) => a.title.localeCompare(b.title));
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { AIProvider, DocumentRequest } from './aiProvider';
+import { getSchema } from './formSchemas';
+import { scanDocument } from './documents';
+
+/** Answers the two document calls with a fixed classification and fixed extracted values */
+const readsAs = (type: string, values: Record<string, string>): AIProvider => ({
+  name: 'stub',
+  isAvailable: () => true,
+  requestAccess: async () => true,
+  connectLive: async () => { throw new Error('not used'); },
+  extractDocument: async ({ purpose }: DocumentRequest) =>
+    purpose === 'classify' ? { type, confidence: 0.6 } : { values, confidence: {} },
+  generateText: async () => '',
+  synthesizeSpeech: async () => null
+});
+
+const page = [{ data: '', mimeType: 'image/png' }];
+
+describe('scanDocument', () => {
+  it('masks the number of an Aadhaar card', async () => {
+    const scan = await scanDocument(readsAs('aadhaar', { documentNumber: '2341 2341 2346' }), page, getSchema('basic'));
+    expect(scan.document).toMatchObject({ type: 'aadhaar', number: 'XXXX XXXX 2346', numberValid: true });
+  });
+
+  it('masks an Aadhaar number read from a card classified as something else', async () => {
+    const scan = await scanDocument(readsAs('pan', { documentNumber: '2341 2341 2346', fullName: 'Sunita Sharma' }), page, getSchema('basic'));
+    expect(scan.document).toMatchObject({ type: 'pan', number: 'XXXX XXXX 2346', numberValid: false });
+  });
+
+  it('masks Aadhaar numbers that turn up in the extracted fields', async () => {
+    const scan = await scanDocument(readsAs('other', { fullName: 'Sunita Sharma', address: 'आधार २३४१ २३४१ २३४६, गली 4' }), page, getSchema('ration_card'));
+    const address = scan.fields.find(f => f.fieldId === 'address');
+    expect(address?.value).toBe('आधार XXXX XXXX 2346, गली 4');
+    expect(scan.fields.find(f => f.fieldId === 'fullName')?.value).toBe('Sunita Sharma');
+  });
+
+  it('keeps numbers that are not Aadhaar numbers', async () => {
+    const scan = await scanDocument(readsAs('pan', { documentNumber: 'ABCPE1234F' }), page, getSchema('basic'));
+    expect(scan.document.number).toBe('ABCPE1234F');
+  });
+});
@@ -0,0 +1,204 @@
+import { Type, Schema } from '@google/genai';
+import { AIProvider, DocumentPart } from './aiProvider';
+import { DocumentType, FormSchema, ScannedDocument } from './types';
+import { parseExtraction } from './formSchemas';
+import { validateField, validateAadhaar, validatePan, validateVoterId, maskAadhaar, maskAadhaarNumbers, ValidationResult } from './validation';
+
+// Inline requests are capped by the API; leave headroom for base64 growth
+const MAX_TOTAL_BYTES = 14 * 1024 * 1024;
+// Front and back of a card
+const MAX_IMAGES = 2;
+const NUMBER_KEY = 'documentNumber';
+
+export type DocumentErrorCode = 'unsupported' | 'too_large' | 'unreadable';
+
+export class DocumentError extends Error {
+  constructor(public code: DocumentErrorCode, message: string) {
+    super(message);
+  }
+}
+
+interface DocumentProfile {
+  type: DocumentType;
+  description: string;
+  /** Form field ids this document can fill; empty means every field of the form */
+  fields: string[];
+  numberDescription?: string;
+  validateNumber?: (raw: string) => ValidationResult;
+}
+
+const DOCUMENT_PROFILES: DocumentProfile[] = [
+  {
+    type: 'aadhaar',
+    description: 'Aadhaar card issued by UIDAI',
+    fields: ['fullName', 'fatherOrSpouseName', 'dob', 'address', 'city'],
+    numberDescription: 'The 12 digit Aadhaar number',
+    validateNumber: validateAadhaar
+  },
+  {
+    type: 'pan',
+    description: 'PAN card issued by the Income Tax Department',
+    fields: ['fullName', 'fatherOrSpouseName', 'dob'],
+    numberDescription: 'The 10 character PAN',
+    validateNumber: validatePan
+  },
+  {
+    type: 'voter_id',
+    description: 'Voter ID (EPIC) card issued by the Election Commission of India',
+    fields: ['fullName', 'fatherOrSpouseName', 'dob', 'address', 'city'],
+    numberDescription: 'The EPIC number',
+    validateNumber: validateVoterId
+  },
+  {
+    type: 'other',
+    description: 'Any other identity or address document',
+    fields: []
+  }
+];
+
+const getProfile = (type: DocumentType) => DOCUMENT_PROFILES.find(p => p.type === type)!;
+
+/** A field value read from the document, checked but not yet merged into the form */
+export interface ReviewedField {
+  fieldId: string;
+  value: string;
+  confidence: number;
+  ok: boolean;
+  /** Validation failure code when `ok` is false */
+  code?: string;
+}
+
+export interface DocumentScan {
+  document: ScannedDocument;
+  typeConfidence: number;
+  fields: ReviewedField[];
+}
+
+// --- Reading Files ---
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(new DocumentError('unreadable', `Could not read ${file.name}`));
+  reader.readAsDataURL(file);
+});
+
+/** Accepts one PDF (any number of pages) or one or two images (front and back) */
+export async function readDocumentFiles(files: File[]): Promise<DocumentPart[]> {
+  const pdfs = files.filter(f => f.type === 'application/pdf');
+  const images = files.filter(f => f.type.startsWith('image/'));
+  const isSinglePdf = pdfs.length === 1 && files.length === 1;
+  const isImageSet = images.length === files.length && images.length >= 1 && images.length <= MAX_IMAGES;
+  if (!isSinglePdf && !isImageSet) {
+    throw new DocumentError('unsupported', 'Choose one PDF or up to two photos');
+  }
+  if (files.reduce((sum, f) => sum + f.size, 0) > MAX_TOTAL_BYTES) {
+    throw new DocumentError('too_large', 'Document files are too large');
+  }
+  return Promise.all(files.map(async f => ({ data: await readAsBase64(f), mimeType: f.type })));
+}
+
+// --- Prompts & Response Schemas ---
+const CLASSIFICATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING, enum: DOCUMENT_PROFILES.map(p => p.type) },
+    confidence: { type: Type.NUMBER, description: 'From 0 to 1' }
+  },
+  required: ['type', 'confidence']
+};
+
+function buildClassificationPrompt(): string {
+  const options = DOCUMENT_PROFILES.map(p => `"${p.type}": ${p.description}`).join('; ');
+  return `Identify which Indian identity document these pages or card sides show. Options: ${options}. Respond with the type and how sure you are.`;
+}
+
+/** Fields worth asking for: the ones this document carries that the current form also has */
+function extractableFields(schema: FormSchema, profile: DocumentProfile) {
+  return schema.fields.filter(f => profile.fields.length === 0 || profile.fields.includes(f.id));
+}
+
+function buildDocumentResponseSchema(schema: FormSchema, profile: DocumentProfile): Schema {
+  const valueProperties: Record<string, Schema> = {};
+  const confidenceProperties: Record<string, Schema> = {};
+  extractableFields(schema, profile).forEach(f => {
+    valueProperties[f.id] = { type: Type.STRING, description: f.description || f.label };
+    confidenceProperties[f.id] = { type: Type.NUMBER };
+  });
+  if (profile.numberDescription) {
+    valueProperties[NUMBER_KEY] = { type: Type.STRING, description: profile.numberDescription };
+    confidenceProperties[NUMBER_KEY] = { type: Type.NUMBER };
+  }
+  return {
+    type: Type.OBJECT,
+    properties: {
+      values: { type: Type.OBJECT, properties: valueProperties },
+      confidence: { type: Type.OBJECT, properties: confidenceProperties }
+    },
+    required: ['values', 'confidence']
+  };
+}
+
+function buildDocumentPrompt(schema: FormSchema, profile: DocumentProfile): string {
+  const fields = extractableFields(schema, profile).map(f => `${f.id} (${f.description || f.label})`).join(', ');
+  const number = profile.numberDescription ? ` Also read ${NUMBER_KEY}: ${profile.numberDescription}.` : '';
+  return `Act as an expert Indian document parser. This is a ${profile.description}; the parts may be several pages or the front and back of one card. Extract: ${fields}.${number} Use DD/MM/YYYY for dates and omit anything that is not printed on the document. In "confidence", give a number from 0 to 1 for how clearly each value could be read.`;
+}
+
+// --- Pipeline ---
+const isDocumentType = (value: unknown): value is DocumentType => DOCUMENT_PROFILES.some(p => p.type === value);
+
+/**
+ * Classifies the document, extracts with that type's structured schema and checks
+ * every value. No Aadhaar number leaves this function unmasked, whatever type the card was classified as.
+ */
+export async function scanDocument(ai: AIProvider, parts: DocumentPart[], schema: FormSchema): Promise<DocumentScan> {
+  const classification = await ai.extractDocument({
+    parts,
+    prompt: buildClassificationPrompt(),
+    responseSchema: CLASSIFICATION_SCHEMA,
+    purpose: 'classify'
+  });
+  const type = isDocumentType(classification.type) ? classification.type : 'other';
+  const typeConfidence = Math.min(1, Math.max(0, Number(classification.confidence) || 0));
+  const profile = getProfile(type);
+
+  const { values, confidence } = parseExtraction(await ai.extractDocument({
+    parts,
+    prompt: buildDocumentPrompt(schema, profile),
+    responseSchema: buildDocumentResponseSchema(schema, profile),
+    purpose: 'extract'
+  }));
+
+  let number = '';
+  let numberValid = false;
+  const rawNumber = values[NUMBER_KEY];
+  if (rawNumber && profile.validateNumber) {
+    const check = profile.validateNumber(rawNumber);
+    numberValid = check.ok;
+    number = check.ok ? check.value : rawNumber.trim();
+    // An unreadable Aadhaar number is still an Aadhaar number; mask it all the same
+    if (type === 'aadhaar') number = maskAadhaar(number.replace(/\D/g, ''));
+    // An Aadhaar card read as some other document still carries an Aadhaar number
+    else number = maskAadhaarNumbers(number);
+  }
+
+  const fields = extractableFields(schema, profile)
+    .filter(f => values[f.id])
+    .map(f => {
+      const check = validateField(f, values[f.id]);
+      return {
+        fieldId: f.id,
+        value: maskAadhaarNumbers(check.ok ? check.value : values[f.id]),
+        // Trust the weaker of what the model reported and how cleanly the value validated
+        confidence: Math.min(confidence[f.id] ?? 1, check.confidence ?? 1),
+        ok: check.ok,
+        code: check.code
+      };
+    });
+
+  return {
+    document: { type, number, numberValid, scannedAt: new Date().toISOString() },
+    typeConfidence,
+    fields
+  };
+}
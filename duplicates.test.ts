@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Submission } from './types';
+import { duplicateLookupTerms, isLikelySameApplicant } from './duplicates';
+import { identityFields, getSchema } from './formSchemas';
+
+type Applicant = Pick<Submission, 'formType' | 'values' | 'latin'>;
+
+const basic = (fullName: string, latinName = '', dob = '15/08/1990', city = 'लखनऊ', latinCity = 'Lucknow'): Applicant => ({
+  formType: 'basic',
+  values: { fullName, dob, city },
+  latin: { fullName: latinName, city: latinCity }
+});
+
+describe('identityFields', () => {
+  it('finds the name, date and place fields by type', () => {
+    expect(identityFields(getSchema('pension'))).toEqual({ name: 'fullName', date: 'dob', place: 'city' });
+  });
+
+  it('leaves out what a form does not ask for', () => {
+    expect(identityFields(getSchema('ration_card'))).toEqual({ name: 'fullName', date: undefined, place: 'city' });
+  });
+
+  it('works for any field ids', () => {
+    const schema = {
+      id: 'custom', title: '', description: '',
+      fields: [
+        { id: 'applicant', label: '', type: 'name' as const, required: true, prompt: '' },
+        { id: 'born', label: '', type: 'date' as const, required: true, prompt: '' },
+        { id: 'village', label: '', type: 'place' as const, required: true, prompt: '' }
+      ]
+    };
+    expect(identityFields(schema)).toEqual({ name: 'applicant', date: 'born', place: 'village' });
+  });
+});
+
+describe('isLikelySameApplicant', () => {
+  it('matches Pooja and Puja across scripts', () => {
+    expect(isLikelySameApplicant(basic('पूजा शर्मा', 'Pooja Sharma'), basic('Puja Sharma', 'Puja Sharma', '15/08/1990', 'Lucknow'))).toBe(true);
+  });
+
+  it('matches a name with the surname left out', () => {
+    expect(isLikelySameApplicant(basic('Ramesh Kumar Yadav'), basic('Ramesh Yadav'))).toBe(true);
+  });
+
+  it('keeps apart names that differ in their first letter', () => {
+    expect(isLikelySameApplicant(basic('Mohan Lal'), basic('Sohan Lal'))).toBe(false);
+  });
+
+  it('needs the same date of birth and place', () => {
+    expect(isLikelySameApplicant(basic('Puja Sharma'), basic('Puja Sharma', '', '16/08/1990'))).toBe(false);
+    expect(isLikelySameApplicant(basic('Puja Sharma', '', '15/08/1990', 'Patna', 'Patna'), basic('Puja Sharma'))).toBe(false);
+  });
+
+  it('matches ration card applications, which have no date of birth', () => {
+    const rationCard = (fullName: string, latinName: string, city: string): Applicant => ({
+      formType: 'ration_card',
+      values: { fullName, familyMembers: '4', address: 'गली 2', city },
+      latin: { fullName: latinName, city: 'Sitapur' }
+    });
+    expect(isLikelySameApplicant(rationCard('पूजा देवी', 'Pooja Devi', 'सीतापुर'), rationCard('Puja Devi', 'Puja Devi', 'Sitapur'))).toBe(true);
+    expect(isLikelySameApplicant(rationCard('पूजा देवी', 'Pooja Devi', 'सीतापुर'), rationCard('Kamla Devi', 'Kamla Devi', 'Sitapur'))).toBe(false);
+  });
+});
+
+describe('duplicateLookupTerms', () => {
+  it('looks candidates up by both spellings of the place', () => {
+    expect(duplicateLookupTerms(basic('Puja', '', '15/08/1990', 'लखनऊ', 'Lucknow'))).toEqual(['लखनऊ', 'lucknow']);
+  });
+});
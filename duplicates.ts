@@ -0,0 +1,76 @@
+import { Submission } from './types';
+import { isDevanagari } from './validation';
+import { toLatin } from './transliterate';
+import { getSchema, identityFields } from './formSchemas';
+
+type Applicant = Pick<Submission, 'formType' | 'values' | 'latin'>;
+
+// Differences that come from who wrote the name down rather than from the name itself:
+// Pooja/Puja, Shyam/Syam, Vikas/Wikas, Zeenat/Jeenat, Bhagat/Bagat, Sanjay/Sanjai
+const SOUND_RULES: [RegExp, string][] = [
+  [/hh/g, 'h'], [/ph/g, 'f'], [/sh/g, 's'], [/w/g, 'v'], [/z/g, 'j'], [/q/g, 'k'], [/x/g, 'ks'], [/c(?!h)/g, 'k'],
+  [/([bcdgjkpt])h/g, '$1'], [/ee|ii|y\b/g, 'i'], [/oo|uu/g, 'u'], [/(.)\1+/g, '$1']
+];
+
+// Letters two spellings of a word may differ by; short words must match exactly
+const allowedEdits = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+const collapse = (s: string) => s.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** The words of a name in Latin letters, with spelling variants folded together */
+function soundKey(name: string): string[] {
+  const latin = isDevanagari(name) ? toLatin(name) : name;
+  const words = collapse(latin).replace(/[^\p{L}\p{M} ]/gu, '').split(' ').filter(Boolean);
+  return words.map(word => SOUND_RULES.reduce((w, [pattern, to]) => w.replace(pattern, to), word));
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+// As in Soundex the first letter must agree, so Mohan and Sohan stay apart
+const similarWords = (a: string, b: string) =>
+  a[0] === b[0] && editDistance(a, b) <= Math.min(allowedEdits(a), allowedEdits(b));
+
+/** Every word of the shorter name, which may leave out a surname or middle name, is in the longer */
+function similarNames(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.every(word => longer.some(other => similarWords(word, other)));
+}
+
+// The value of a field and its Latin spelling, when the record has them
+const spellings = ({ values, latin }: Applicant, fieldId?: string): string[] =>
+  fieldId ? [values[fieldId], latin?.[fieldId]].filter((s): s is string => !!s?.trim()) : [];
+
+/**
+ * Whether two records of the same form are likely the same applicant: names that sound
+ * alike in any script or spelling, and the same date of birth and place wherever the form
+ * asks for them. Only a hint for the operator; twins and common names in a large town can
+ * still match.
+ */
+export function isLikelySameApplicant(a: Applicant, b: Applicant): boolean {
+  const { name, date, place } = identityFields(getSchema(a.formType));
+  if (date) {
+    const dateOf = (applicant: Applicant) => applicant.values[date]?.trim();
+    if (!dateOf(a) || dateOf(a) !== dateOf(b)) return false;
+  }
+  if (place) {
+    const places = spellings(b, place).map(collapse);
+    if (!spellings(a, place).map(collapse).some(p => places.includes(p))) return false;
+  }
+  const names = spellings(b, name).map(soundKey);
+  return spellings(a, name).map(soundKey).some(n => names.some(other => similarNames(n, other)));
+}
+
+/** Lowercased place spellings, in the form the blind search index holds them */
+export const duplicateLookupTerms = (applicant: Applicant): string[] =>
+  Array.from(new Set(spellings(applicant, identityFields(getSchema(applicant.formType)).place).map(collapse)));
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Submission } from './types';
+import { EXPORT_FORMAT, EXPORT_VERSION, parseImport, toJSON } from './exportImport';
+
+const AT = '2026-03-01T10:00:00.000Z';
+
+const record = (extra: Partial<Submission> = {}): Submission => ({
+  id: 7,
+  formType: 'basic',
+  language: 'hi',
+  values: { fullName: 'सुनीता शर्मा', dob: '15/08/1990', city: 'लखनऊ', mobile: '9876543210' },
+  latin: { fullName: 'Sunita Sharma', city: 'Lucknow' },
+  provenance: { fullName: { source: 'voice', at: AT, confidence: 0.9 } },
+  documents: [{ type: 'aadhaar', number: 'XXXX XXXX 2346', numberValid: true, scannedAt: AT }],
+  consent: [{ scope: 'conversation', agreed: true, method: 'voice', language: 'hi', notice: 'सहमति', at: AT }],
+  submittedAt: AT,
+  ...extra
+});
+
+const fileWith = (...submissions: unknown[]) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, submissions });
+
+describe('parseImport', () => {
+  it('reads back what toJSON wrote, without database fields', () => {
+    const { records, invalid } = parseImport(toJSON([record({ syncStatus: 'synced' })]));
+    expect(invalid).toBe(0);
+    expect(records).toHaveLength(1);
+    expect(records[0]).not.toHaveProperty('id');
+    expect(records[0].values.fullName).toBe('सुनीता शर्मा');
+  });
+
+  it('refuses files that are not exports', () => {
+    expect(() => parseImport('[]')).toThrow();
+    expect(() => parseImport(JSON.stringify({ format: 'other', submissions: [] }))).toThrow();
+    expect(() => parseImport(JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION + 1, submissions: [] }))).toThrow();
+  });
+
+  it.each([
+    ['an unknown form', { formType: 'passport' }],
+    ['a bad timestamp', { submittedAt: 'yesterday' }],
+    ['a non-text value', { values: { fullName: 42 } }],
+    ['an unknown language', { language: 'fr' }],
+    ['provenance that is not per field', { provenance: { fullName: 'voice' } }],
+    ['provenance with an unknown source', { provenance: { fullName: { source: 'guess', at: AT, confidence: 1 } } }],
+    ['provenance confidence out of range', { provenance: { fullName: { source: 'voice', at: AT, confidence: 7 } } }],
+    ['documents that are not a list', { documents: { type: 'aadhaar' } }],
+    ['a document of an unknown type', { documents: [{ type: 'passport', number: 'X', numberValid: true, scannedAt: AT }] }],
+    ['a document without a number', { documents: [{ type: 'pan', numberValid: true, scannedAt: AT }] }],
+    ['consent with an unknown scope', { consent: [{ scope: 'marketing', agreed: true, method: 'tap', language: 'hi', notice: '', at: AT }] }],
+    ['consent without an answer', { consent: [{ scope: 'conversation', method: 'tap', language: 'hi', notice: '', at: AT }] }]
+  ])('drops a record with %s', (_, change) => {
+    const { records, invalid } = parseImport(fileWith({ ...record(), ...change }, record()));
+    expect(invalid).toBe(1);
+    expect(records).toHaveLength(1);
+  });
+
+  it('masks full Aadhaar numbers wherever they appear', () => {
+    const { records } = parseImport(fileWith(record({
+      values: { fullName: 'Sunita', dob: '15/08/1990', city: 'Lucknow', mobile: '9876543210', address: 'आधार २३४१ २३४१ २३४६' },
+      summary: 'Aadhaar 2341-2341-2346 given',
+      documents: [
+        { type: 'aadhaar', number: '2341 2341 2346', numberValid: true, scannedAt: AT },
+        // Read from the wrong kind of card, and failing its check digit
+        { type: 'other', number: '123412341234', numberValid: false, scannedAt: AT },
+        { type: 'pan', number: 'ABCPE1234F', numberValid: true, scannedAt: AT }
+      ]
+    })));
+    const [r] = records;
+    expect(r.values.address).toBe('आधार XXXX XXXX 2346');
+    expect(r.values.mobile).toBe('9876543210');
+    expect(r.summary).toBe('Aadhaar XXXX XXXX 2346 given');
+    expect(r.documents!.map(d => d.number)).toEqual(['XXXX XXXX 2346', 'XXXX XXXX 1234', 'ABCPE1234F']);
+  });
+});
@@ -0,0 +1,233 @@
+import { ConsentRecord, ConsentScope, DocumentType, FieldSource, FormData, FormProvenance, NewSubmission, ScannedDocument, Submission } from './types';
+import { FORM_SCHEMAS, getSchema, fieldLabel, schemaTitle } from './formSchemas';
+import { hasLatinSpelling } from './transliterate';
+import { LanguageConfig, LANGUAGES } from './i18n';
+import { maskAadhaar, maskAadhaarNumbers, toAsciiDigits } from './validation';
+
+export const EXPORT_FORMAT = 'mukh-lipi-submissions';
+export const EXPORT_VERSION = 1;
+
+export interface ImportedSubmission extends NewSubmission {
+  submittedAt: string;
+  /** Carried across devices so the sync backend can recognise the same record */
+  idempotencyKey?: string;
+  supersedes?: string;
+  linkedTo?: string;
+}
+
+export interface ImportParseResult {
+  records: ImportedSubmission[];
+  invalid: number;
+}
+
+// Strips database-internal fields so exports only carry application data
+export const toPortable = (s: Submission): ImportedSubmission => ({
+  formType: s.formType,
+  language: s.language,
+  values: s.values,
+  latin: s.latin,
+  provenance: s.provenance,
+  documents: s.documents,
+  summary: s.summary,
+  consent: s.consent,
+  submittedAt: s.submittedAt,
+  idempotencyKey: s.idempotencyKey,
+  supersedes: s.supersedes,
+  linkedTo: s.linkedTo
+});
+
+// --- CSV ---
+const csvCell = (value: unknown): string => {
+  let text = value === undefined || value === null ? '' : String(value);
+  // Keep spreadsheet apps from evaluating cell contents as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// e.g. "conversation:yes:voice documents:yes:tap"
+const consentCell = (consent: ConsentRecord[] = []) =>
+  consent.map(c => `${c.scope}:${c.agreed ? 'yes' : 'no'}:${c.method}`).join(' ');
+
+/**
+ * One row per submission with a column for every field used by any included form,
+ * plus a `<field>_latin` column for the Latin spelling of each name, place and text field.
+ * Prefixed with a BOM so Excel opens Devanagari and other Indic text as UTF-8.
+ */
+export function toCSV(submissions: Submission[]): string {
+  const formTypes = new Set(submissions.map(s => s.formType));
+  const fieldIds: string[] = [];
+  const latinIds: string[] = [];
+  FORM_SCHEMAS.filter(schema => formTypes.has(schema.id)).forEach(schema => {
+    schema.fields.forEach(f => {
+      if (!fieldIds.includes(f.id)) fieldIds.push(f.id);
+      if (hasLatinSpelling(f) && !latinIds.includes(f.id)) latinIds.push(f.id);
+    });
+  });
+
+  const header = ['id', 'submittedAt', 'formType', 'language', ...fieldIds, ...latinIds.map(id => `${id}_latin`), 'summary', 'consent'];
+  const rows = submissions.map(s => [
+    s.id, s.submittedAt, s.formType, s.language, ...fieldIds.map(id => s.values[id]), ...latinIds.map(id => s.latin?.[id]),
+    s.summary, consentCell(s.consent)
+  ]);
+  return '\ufeff' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+// --- JSON ---
+export function toJSON(submissions: Submission[]): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    submissions: submissions.map(toPortable)
+  }, null, 2);
+}
+
+// --- Import Checks ---
+const FIELD_SOURCES: readonly FieldSource[] = ['voice', 'document', 'typed'];
+const DOCUMENT_TYPES: readonly DocumentType[] = ['aadhaar', 'pan', 'voter_id', 'other'];
+const CONSENT_SCOPES: readonly ConsentScope[] = ['conversation', 'documents'];
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isTimestamp = (v: unknown): v is string => isString(v) && !isNaN(Date.parse(v));
+const isStringMap = (v: unknown): v is FormData => isObject(v) && Object.values(v).every(isString);
+const isOneOf = <T>(options: readonly T[]) => (v: unknown): v is T => options.includes(v as T);
+
+const isProvenance = (v: unknown): v is FormProvenance => isObject(v) && Object.values(v).every(p =>
+  isObject(p) && isOneOf(FIELD_SOURCES)(p.source) && isTimestamp(p.at)
+  && typeof p.confidence === 'number' && p.confidence >= 0 && p.confidence <= 1);
+
+const isDocument = (v: unknown): v is ScannedDocument =>
+  isObject(v) && isOneOf(DOCUMENT_TYPES)(v.type) && isString(v.number) && typeof v.numberValid === 'boolean' && isTimestamp(v.scannedAt);
+
+const isConsent = (v: unknown): v is ConsentRecord =>
+  isObject(v) && isOneOf(CONSENT_SCOPES)(v.scope) && typeof v.agreed === 'boolean' && (v.method === 'voice' || v.method === 'tap')
+  && LANGUAGES.some(l => l.code === v.language) && isString(v.notice) && isTimestamp(v.at);
+
+const isValidRecord = (r: unknown): r is ImportedSubmission =>
+  isObject(r)
+  && FORM_SCHEMAS.some(s => s.id === r.formType)
+  && isOptional(r.language, l => LANGUAGES.some(lang => lang.code === l))
+  && isTimestamp(r.submittedAt)
+  && isStringMap(r.values)
+  && isOptional(r.latin, isStringMap)
+  && isOptional(r.provenance, isProvenance)
+  && isOptional(r.documents, d => Array.isArray(d) && d.every(isDocument))
+  && isOptional(r.consent, c => Array.isArray(c) && c.every(isConsent))
+  && isOptional(r.summary, isString)
+  && isOptional(r.idempotencyKey, isString)
+  && isOptional(r.supersedes, isString)
+  && isOptional(r.linkedTo, isString);
+
+const maskValues = (values: FormData): FormData =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, maskAadhaarNumbers(v)]));
+
+// A file edited by hand or written by another tool may hold full Aadhaar numbers; never store them
+const maskIdentifiers = (r: ImportedSubmission): ImportedSubmission => ({
+  ...r,
+  values: maskValues(r.values),
+  latin: r.latin && maskValues(r.latin),
+  summary: r.summary && maskAadhaarNumbers(r.summary),
+  documents: r.documents?.map(d => {
+    const digits = toAsciiDigits(d.number).replace(/\D/g, '');
+    return digits.length >= 12 ? { ...d, number: maskAadhaar(digits) } : d;
+  })
+});
+
+/**
+ * Parses a file produced by `toJSON`. Throws if the file is not an export at all;
+ * individual malformed records are counted and dropped.
+ */
+export function parseImport(text: string): ImportParseResult {
+  const parsed: unknown = JSON.parse(text);
+  if (!isObject(parsed) || parsed.format !== EXPORT_FORMAT || !Array.isArray(parsed.submissions)) {
+    throw new Error('Not a Mukh-Lipi export file');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${parsed.version}`);
+  }
+  const records: ImportedSubmission[] = [];
+  let invalid = 0;
+  parsed.submissions.forEach((r: unknown) => {
+    if (!isValidRecord(r)) { invalid++; return; }
+    records.push(maskIdentifiers(toPortable(r)));
+  });
+  return { records, invalid };
+}
+
+/** Stable identity for duplicate detection across devices */
+export function fingerprint(s: { formType: string; submittedAt: string; values: FormData }): string {
+  const values = Object.keys(s.values).sort().map(k => [k, s.values[k]]);
+  return JSON.stringify([s.formType, s.submittedAt, values]);
+}
+
+// --- Printable Sheet ---
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * A self-contained HTML document, one application per printed page, that the
+ * browser's print dialog can also save as PDF.
+ */
+export function toPrintableHTML(submissions: Submission[], language: LanguageConfig): string {
+  const t = language.strings;
+  const sheets = submissions.map(s => {
+    const schema = getSchema(s.formType);
+    const rows = schema.fields
+      .map(f => {
+        const latin = s.values[f.id] && s.latin?.[f.id] ? `<br><span class="latin">${escapeHtml(s.latin[f.id])}</span>` : '';
+        return `<tr><th>${escapeHtml(fieldLabel(f, language.code))}</th><td>${escapeHtml(s.values[f.id] || '')}${latin}</td></tr>`;
+      })
+      .join('');
+    const summary = s.summary ? `<p class="summary">${escapeHtml(s.summary)}</p>` : '';
+    return `<section>
+  <h1>${escapeHtml(schemaTitle(schema, language.code))}</h1>
+  <p class="meta">#${s.id ?? ''} • ${escapeHtml(new Date(s.submittedAt).toLocaleString())}</p>
+  <table>${rows}</table>
+  ${summary}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${language.code}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(t.historyTitle)}</title>
+<style>
+  body { font-family: ${language.fontFamily}; color: #0f172a; margin: 2rem; }
+  section { page-break-after: always; margin-bottom: 2rem; }
+  section:last-child { page-break-after: auto; }
+  h1 { font-size: 1.4rem; color: #047857; margin: 0 0 .25rem; }
+  .meta { color: #64748b; font-size: .8rem; margin: 0 0 1rem; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: .5rem .75rem; text-align: left; vertical-align: top; }
+  th { width: 35%; background: #f1f5f9; }
+  .latin { color: #475569; font-family: sans-serif; }
+  .summary { margin-top: 1rem; font-size: .9rem; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+${sheets}
+</body>
+</html>`;
+}
+
+// --- Browser Helpers ---
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function openPrintWindow(html: string): void {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,145 @@
+import { AIProvider, DocumentRequest, LiveMessage, LiveSession, LiveSessionCallbacks, LiveSessionConfig, TextPurpose, ToolResponse } from './aiProvider';
+import { encode } from './AudioUtils';
+
+// Canned answers keyed by schema field id
+export const FAKE_FIELD_VALUES: Record<string, string> = {
+  fullName: 'Ramesh Kumar',
+  fatherOrSpouseName: 'Suresh Kumar',
+  dob: '15/08/1990',
+  city: 'Lucknow',
+  mobile: '9876543210',
+  familyMembers: '4',
+  address: '12, Gandhi Nagar',
+  occupation: 'Kisan'
+};
+
+// Passes the Verhoeff check, so scans exercise the masking path
+const FAKE_AADHAAR = '2341 2341 2346';
+
+const FAKE_REPLY = 'नमस्ते, मैं आपकी मदद के लिए यहाँ हूँ।';
+
+const silence = (ms: number) => encode(new Uint8Array(Math.round(24000 * ms / 1000) * 2));
+
+/**
+ * Plays a fixed conversation: a "haan" to the consent notice when one is asked for,
+ * one `update_form_field` call per field offered in the tool enum, each sent only after
+ * the previous tool response arrives, then the read-back, a spoken "haan" with
+ * `confirm_submission`, and a closing thank-you.
+ */
+class FakeLiveSession implements LiveSession {
+  private pending: string[];
+  private confirmation: string[];
+  private askConsent: boolean;
+  private closed = false;
+
+  constructor(config: LiveSessionConfig, private callbacks: LiveSessionCallbacks, private values: Record<string, string>) {
+    const updateTool = config.tools.find(t => t.name === 'update_form_field');
+    this.pending = [...(updateTool?.parameters?.properties?.field?.enum || [])];
+    this.confirmation = ['request_confirmation', 'confirm_submission'].filter(name => config.tools.some(t => t.name === name));
+    this.askConsent = config.tools.some(t => t.name === 'record_consent');
+  }
+
+  start() {
+    this.emit(() => {
+      this.callbacks.onopen();
+      this.say('नमस्ते! चलिए आपका फॉर्म भरते हैं।');
+      this.next();
+    });
+  }
+
+  private emit(fn: () => void) {
+    setTimeout(() => { if (!this.closed) fn(); }, 0);
+  }
+
+  private send(message: LiveMessage) {
+    this.callbacks.onmessage(message);
+  }
+
+  private say(text: string) {
+    this.send({ serverContent: { modelTurn: { parts: [{ inlineData: { data: silence(100), mimeType: 'audio/pcm;rate=24000' } }] } } });
+    this.send({ serverContent: { outputTranscription: { text }, turnComplete: true } });
+  }
+
+  private next() {
+    if (this.askConsent) {
+      this.askConsent = false;
+      this.say('क्या आप सहमत हैं?');
+      this.send({ serverContent: { inputTranscription: { text: 'Haan' }, turnComplete: true } });
+      this.send({ toolCall: { functionCalls: [{ id: 'fake-consent', name: 'record_consent', args: { agreed: true } }] } });
+      return;
+    }
+    const field = this.pending.shift();
+    if (!field) {
+      this.confirm();
+      return;
+    }
+    this.send({ serverContent: { inputTranscription: { text: this.values[field] || 'Test' }, turnComplete: true } });
+    this.send({ toolCall: { functionCalls: [{ id: `fake-${field}`, name: 'update_form_field', args: { field, value: this.values[field] || 'Test' } }] } });
+  }
+
+  private confirm() {
+    const step = this.confirmation.shift();
+    if (step === 'request_confirmation') {
+      this.send({ toolCall: { functionCalls: [{ id: 'fake-read-back', name: step, args: {} }] } });
+    } else if (step === 'confirm_submission') {
+      this.say('Kya main ise jama kar doon?');
+      this.send({ serverContent: { inputTranscription: { text: 'Haan' }, turnComplete: true } });
+      this.send({ toolCall: { functionCalls: [{ id: 'fake-confirm', name: step, args: { confirmed: true } }] } });
+    } else {
+      this.say('Dhanyavaad, aapka form jama ho gaya hai.');
+    }
+  }
+
+  sendRealtimeInput() {}
+
+  sendClientContent() {}
+
+  sendToolResponse(_params: { functionResponses: ToolResponse | ToolResponse[] }) {
+    this.emit(() => this.next());
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose(new CloseEvent('close'));
+  }
+}
+
+/**
+ * Deterministic, network-free provider for offline development and tests.
+ */
+export class FakeProvider implements AIProvider {
+  readonly name: string = 'fake';
+
+  constructor(private values: Record<string, string> = FAKE_FIELD_VALUES) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async requestAccess(): Promise<boolean> {
+    return true;
+  }
+
+  async connectLive(config: LiveSessionConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+    const session = new FakeLiveSession(config, callbacks, this.values);
+    session.start();
+    return session;
+  }
+
+  async extractDocument({ purpose }: DocumentRequest): Promise<Record<string, unknown>> {
+    if (purpose === 'classify') return { type: 'aadhaar', confidence: 0.95 };
+    const values = { ...this.values, documentNumber: FAKE_AADHAAR };
+    const confidence: Record<string, number> = {};
+    Object.keys(values).forEach(k => { confidence[k] = 0.9; });
+    return { values, confidence };
+  }
+
+  async generateText(prompt: string, purpose: TextPurpose): Promise<string> {
+    return purpose === 'summary' ? `Summary: ${prompt.slice(0, 200)}` : FAKE_REPLY;
+  }
+
+  async synthesizeSpeech(): Promise<string | null> {
+    return silence(300);
+  }
+}
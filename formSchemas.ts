@@ -0,0 +1,310 @@
+import { Type, FunctionDeclaration } from '@google/genai';
+import { FieldCorrection, FormData, FormFieldSchema, FormFieldType, FormSchema, LanguageCode, TranscriptionRecord } from './types';
+import { LanguageConfig } from './i18n';
+
+// --- Shared Field Definitions ---
+const FULL_NAME: FormFieldSchema = {
+  id: 'fullName', label: 'नाम', type: 'name', required: true, prompt: 'आपका पूरा नाम क्या है?',
+  labels: { pa: 'ਨਾਮ', bn: 'নাম', mr: 'नाव', ta: 'பெயர்' }
+};
+
+const DOB: FormFieldSchema = {
+  id: 'dob', label: 'जन्म तिथि', type: 'date', required: true, prompt: 'आपकी जन्म तिथि क्या है?', description: 'Date of birth in DD/MM/YYYY',
+  labels: { pa: 'ਜਨਮ ਮਿਤੀ', bn: 'জন্ম তারিখ', mr: 'जन्मतारीख', ta: 'பிறந்த தேதி' }
+};
+
+const CITY: FormFieldSchema = {
+  id: 'city', label: 'शहर', type: 'place', required: true, prompt: 'आप किस शहर या गाँव में रहते हैं?', description: 'City or village',
+  labels: { pa: 'ਸ਼ਹਿਰ', bn: 'শহর', mr: 'शहर', ta: 'நகரம்' }
+};
+
+const CITY_OR_VILLAGE: FormFieldSchema = {
+  ...CITY, label: 'शहर / गाँव',
+  labels: { pa: 'ਸ਼ਹਿਰ / ਪਿੰਡ', bn: 'শহর / গ্রাম', mr: 'शहर / गाव', ta: 'நகரம் / கிராமம்' }
+};
+
+const MOBILE: FormFieldSchema = {
+  id: 'mobile', label: 'मोबाइल नंबर', type: 'phone', required: true, prompt: 'आपका मोबाइल नंबर क्या है?', description: '10 digit mobile number',
+  labels: { pa: 'ਮੋਬਾਈਲ ਨੰਬਰ', bn: 'মোবাইল নম্বর', mr: 'मोबाईल नंबर', ta: 'கைபேசி எண்' }
+};
+
+// --- Form Definitions ---
+export const FORM_SCHEMAS: FormSchema[] = [
+  {
+    id: 'basic',
+    title: 'सामान्य आवेदन',
+    titles: { pa: 'ਆਮ ਅਰਜ਼ੀ', bn: 'সাধারণ আবেদন', mr: 'सामान्य अर्ज', ta: 'பொது விண்ணப்பம்' },
+    description: 'General application',
+    fields: [FULL_NAME, DOB, CITY]
+  },
+  {
+    id: 'pension',
+    title: 'वृद्धावस्था पेंशन',
+    titles: { pa: 'ਬੁਢਾਪਾ ਪੈਨਸ਼ਨ', bn: 'বার্ধক্য ভাতা', mr: 'वृद्धापकाळ निवृत्तीवेतन', ta: 'முதியோர் ஓய்வூதியம்' },
+    description: 'Old-age pension application',
+    fields: [
+      FULL_NAME,
+      {
+        id: 'fatherOrSpouseName', label: 'पिता / पति का नाम', type: 'name', required: true, prompt: 'आपके पिता या पति का नाम क्या है?', description: "Father's or spouse's name",
+        labels: { pa: 'ਪਿਤਾ / ਪਤੀ ਦਾ ਨਾਮ', bn: 'পিতা / স্বামীর নাম', mr: 'वडील / पतीचे नाव', ta: 'தந்தை / கணவர் பெயர்' }
+      },
+      DOB,
+      CITY_OR_VILLAGE,
+      { ...MOBILE, required: false }
+    ]
+  },
+  {
+    id: 'ration_card',
+    title: 'राशन कार्ड',
+    titles: { pa: 'ਰਾਸ਼ਨ ਕਾਰਡ', bn: 'রেশন কার্ড', mr: 'रेशन कार्ड', ta: 'குடும்ப அட்டை' },
+    description: 'Ration card application',
+    fields: [
+      {
+        ...FULL_NAME, label: 'परिवार के मुखिया का नाम', prompt: 'परिवार के मुखिया का पूरा नाम क्या है?', description: 'Name of the head of family',
+        labels: { pa: 'ਪਰਿਵਾਰ ਦੇ ਮੁਖੀ ਦਾ ਨਾਮ', bn: 'পরিবারের প্রধানের নাম', mr: 'कुटुंबप्रमुखाचे नाव', ta: 'குடும்பத் தலைவர் பெயர்' }
+      },
+      {
+        id: 'familyMembers', label: 'परिवार के सदस्य', type: 'number', required: true, prompt: 'आपके परिवार में कितने सदस्य हैं?', description: 'Number of family members', min: 1, max: 30,
+        labels: { pa: 'ਪਰਿਵਾਰ ਦੇ ਮੈਂਬਰ', bn: 'পরিবারের সদস্য', mr: 'कुटुंबातील सदस्य', ta: 'குடும்ப உறுப்பினர்கள்' }
+      },
+      {
+        id: 'address', label: 'पता', type: 'text', required: true, prompt: 'आपका पूरा पता क्या है?', description: 'House number, street or mohalla',
+        labels: { pa: 'ਪਤਾ', bn: 'ঠিকানা', mr: 'पत्ता', ta: 'முகவரி' }
+      },
+      CITY_OR_VILLAGE
+    ]
+  },
+  {
+    id: 'bank_kyc',
+    title: 'बैंक KYC',
+    titles: { pa: 'ਬੈਂਕ KYC', bn: 'ব্যাংক KYC', mr: 'बँक KYC', ta: 'வங்கி KYC' },
+    description: 'Bank account KYC',
+    fields: [
+      FULL_NAME,
+      DOB,
+      MOBILE,
+      {
+        id: 'occupation', label: 'व्यवसाय', type: 'text', required: true, prompt: 'आप क्या काम करते हैं?', description: 'Occupation',
+        labels: { pa: 'ਕਿੱਤਾ', bn: 'পেশা', mr: 'व्यवसाय', ta: 'தொழில்' }
+      },
+      CITY
+    ]
+  }
+];
+
+export const DEFAULT_SCHEMA_ID = 'basic';
+
+export function getSchema(id: string | undefined): FormSchema {
+  return FORM_SCHEMAS.find(s => s.id === id) || FORM_SCHEMAS.find(s => s.id === DEFAULT_SCHEMA_ID)!;
+}
+
+export function fieldLabel(field: FormFieldSchema, language: LanguageCode): string {
+  return field.labels?.[language] || field.label;
+}
+
+export function schemaTitle(schema: FormSchema, language: LanguageCode): string {
+  return schema.titles?.[language] || schema.title;
+}
+
+/** Ids of the fields that identify the applicant: the form's first name, date and place field, where it has one */
+export function identityFields(schema: FormSchema): { name?: string; date?: string; place?: string } {
+  const first = (type: FormFieldType) => schema.fields.find(f => f.type === type)?.id;
+  return { name: first('name'), date: first('date'), place: first('place') };
+}
+
+export function emptyFormData(schema: FormSchema): FormData {
+  return Object.fromEntries(schema.fields.map(f => [f.id, '']));
+}
+
+export function hasAnyValue(schema: FormSchema, data: FormData): boolean {
+  return schema.fields.some(f => !!data[f.id]?.trim());
+}
+
+export function isSchemaComplete(schema: FormSchema, data: FormData): boolean {
+  return schema.fields.filter(f => f.required).every(f => !!data[f.id]?.trim());
+}
+
+// --- Prompt & Tool Builders ---
+export function buildUpdateFieldTool(schema: FormSchema): FunctionDeclaration {
+  return {
+    name: 'update_form_field',
+    description: 'Update a specific field in the user form when they provide information.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        field: {
+          type: Type.STRING,
+          description: `The field to update: ${schema.fields.map(f => `"${f.id}"`).join(', ')}.`,
+          enum: schema.fields.map(f => f.id)
+        },
+        value: {
+          type: Type.STRING,
+          description: 'The value to set for the field.'
+        }
+      },
+      required: ['field', 'value']
+    }
+  };
+}
+
+export function buildStartCorrectionTool(schema: FormSchema): FunctionDeclaration {
+  return {
+    name: 'correct_form_field',
+    description: 'Start correcting one field the user says is wrong, e.g. "naam galat hai".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        field: {
+          type: Type.STRING,
+          description: `The field to correct: ${schema.fields.map(f => `"${f.id}"`).join(', ')}.`,
+          enum: schema.fields.map(f => f.id)
+        }
+      },
+      required: ['field']
+    }
+  };
+}
+
+export function buildConfirmCorrectionTool(): FunctionDeclaration {
+  return {
+    name: 'confirm_field_correction',
+    description: 'Record whether the user accepted the new value for the field being corrected.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        confirmed: {
+          type: Type.BOOLEAN,
+          description: 'True to replace the old value, false to keep it.'
+        }
+      },
+      required: ['confirmed']
+    }
+  };
+}
+
+export function buildRequestConfirmationTool(): FunctionDeclaration {
+  return {
+    name: 'request_confirmation',
+    description: 'Call when every required field is filled, or the user asks to submit. Returns the saved values to read back before asking for confirmation.'
+  };
+}
+
+export function buildConfirmSubmissionTool(): FunctionDeclaration {
+  return {
+    name: 'confirm_submission',
+    description: "Record the user's answer to the confirmation question asked after the read-back. Submits the form when confirmed.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        confirmed: {
+          type: Type.BOOLEAN,
+          description: 'True if the user agreed to submit, false if they want to change something.'
+        }
+      },
+      required: ['confirmed']
+    }
+  };
+}
+
+export function buildRecordConsentTool(): FunctionDeclaration {
+  return {
+    name: 'record_consent',
+    description: "Record the user's answer to the consent notice read at the start of the conversation.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        agreed: {
+          type: Type.BOOLEAN,
+          description: 'True only if the user clearly agreed; false if they refused or were unsure.'
+        }
+      },
+      required: ['agreed']
+    }
+  };
+}
+
+/** Leads the instruction until the applicant has agreed; no form question may come first */
+export function buildConsentInstruction(notice: string): string {
+  return `
+CONSENT FIRST: Before any form question, read this notice to the user word for word: "${notice}"
+Wait for their answer and call 'record_consent' with it. Do not ask for, or record, any form details until it returns "ok".`;
+}
+
+/** Instruction for re-asking a single field; the value stays pending until the user confirms */
+export function buildCorrectionInstruction(schema: FormSchema, correction: FieldCorrection, language: LanguageConfig): string {
+  const field = schema.fields.find(f => f.id === correction.fieldId);
+  if (!field) return '';
+  return `
+CORRECTION MODE: the user wants to fix only "${field.id}" (${fieldLabel(field, language.code)}), currently "${correction.oldValue || 'Empty'}".
+- Ask only for this field ("${field.prompt}") and do not ask about any other field.
+- Call 'update_form_field' with the new value. It is NOT saved yet.
+- Read back the old and the new value and ask whether to replace it, then call 'confirm_field_correction' with the answer.`;
+}
+
+// Enough recent turns to pick the conversation back up without bloating the prompt
+const MAX_RESUME_TURNS = 40;
+
+function buildResumeContext(transcript: TranscriptionRecord[]): string {
+  if (transcript.length === 0) return '';
+  const turns = transcript
+    .slice(-MAX_RESUME_TURNS)
+    .map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.text}`)
+    .join('\n');
+  return `
+CONVERSATION SO FAR (this is a resumed session; do not greet again or re-ask answered questions, continue from where it stopped):
+${turns}`;
+}
+
+export function buildSystemInstruction(
+  schema: FormSchema,
+  data: FormData,
+  language: LanguageConfig,
+  transcript: TranscriptionRecord[] = [],
+  correction: FieldCorrection | null = null,
+  consentNotice: string | null = null
+): string {
+  const status = schema.fields
+    .map(f => `${f.id} (${fieldLabel(f, language.code)}${f.required ? '' : ', optional'}): ${data[f.id] || 'Empty'}`)
+    .join(', ');
+  const questions = schema.fields.map(f => `- ${f.id}: "${f.prompt}"`).join('\n');
+  return `You are "Mukh-Lipi", a voice-first AI assistant for India.${consentNotice ? buildConsentInstruction(consentNotice) : ''}
+FORM: ${schemaTitle(schema, language.code)} (${schema.description}).
+CURRENT STATUS: ${status}.
+QUESTIONS TO ASK (translate them to ${language.englishName}):
+${questions}
+RULES:
+1. Speak polite ${language.englishName} only.
+2. Ask ONE question for missing info, in the order listed above.
+3. Call 'update_form_field' tool for any data heard.
+4. When every required field is full, or the user asks to submit, call 'request_confirmation'. Read back the values it returns in ${language.englishName} and ask: "${language.confirmQuestion}".
+5. Call 'confirm_submission' with the user's answer. ONLY after it reports the form as submitted, say "${language.closingPhrase}". Never claim the form is submitted otherwise.
+6. If the user says an answer is wrong (e.g. "naam galat hai"), call 'correct_form_field' for that field.${buildResumeContext(transcript)}${correction ? buildCorrectionInstruction(schema, correction, language) : ''}`;
+}
+
+export interface ExtractionResult {
+  values: Record<string, string>;
+  confidence: Record<string, number>;
+}
+
+/** Accepts the `{ values, confidence }` shape and also a flat field map from older prompts */
+export function parseExtraction(result: Record<string, unknown>): ExtractionResult {
+  const rawValues = (result.values && typeof result.values === 'object' ? result.values : result) as Record<string, unknown>;
+  const rawConfidence = (result.confidence && typeof result.confidence === 'object' ? result.confidence : {}) as Record<string, unknown>;
+  const values: Record<string, string> = {};
+  const confidence: Record<string, number> = {};
+  Object.keys(rawValues).forEach(k => {
+    if (rawValues[k] === null || rawValues[k] === undefined || typeof rawValues[k] === 'object') return;
+    values[k] = String(rawValues[k]);
+    const c = Number(rawConfidence[k]);
+    if (!isNaN(c)) confidence[k] = Math.min(1, Math.max(0, c));
+  });
+  return { values, confidence };
+}
+
+export function buildReadAloudPrompt(schema: FormSchema, data: FormData, language: LanguageConfig, latin: FormData = {}): string {
+  const parts = schema.fields.map(f => {
+    const spelling = data[f.id] && latin[f.id] ? ` (English spelling: ${latin[f.id].split('').join(' ')})` : '';
+    return `${fieldLabel(f, language.code)}: ${data[f.id] || language.emptyWord}${spelling}`;
+  }).join(', ');
+  return `Read this form summary clearly in ${language.englishName}, spelling out each English spelling letter by letter: ${schemaTitle(schema, language.code)}. ${parts}.`;
+}
@@ -0,0 +1,158 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality } from '@google/genai';
+import { AIProvider, DocumentRequest, LiveSession, LiveSessionCallbacks, LiveSessionConfig, TextPurpose } from './aiProvider';
+
+// Declare external aistudio helpers
+declare global {
+  interface AIStudio {
+    hasSelectedApiKey: () => Promise<boolean>;
+    openSelectKey: () => Promise<void>;
+  }
+
+  interface Window {
+    // Fixed: Remove readonly modifier to match existing declarations of aistudio
+    aistudio?: AIStudio;
+  }
+}
+
+// --- Model Configuration ---
+export interface GeminiModels {
+  live: string;
+  classification: string;
+  extraction: string;
+  help: string;
+  tts: string;
+  summary: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  classification: 'gemini-3-flash-preview',
+  extraction: 'gemini-3-pro-preview',
+  help: 'gemini-flash-lite-latest',
+  tts: 'gemini-2.5-flash-preview-tts',
+  summary: 'gemini-3-flash-preview'
+};
+
+/** How requests reach Gemini: straight from the browser with a key, or through the server proxy */
+export interface GeminiTransport {
+  readonly isConfigured: boolean;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  /** A client for opening one Live connection with `model` */
+  liveClient(model: string): Promise<GoogleGenAI>;
+}
+
+/** Calls Gemini with a key baked into the bundle; only for AI Studio and local experiments */
+export class DirectTransport implements GeminiTransport {
+  constructor(private apiKey: string | undefined) {}
+
+  get isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  // A fresh client per call picks up keys selected through aistudio mid-session
+  private client(): GoogleGenAI {
+    if (!this.apiKey) throw new Error('API key not found');
+    return new GoogleGenAI({ apiKey: this.apiKey });
+  }
+
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    return this.client().models.generateContent(params);
+  }
+
+  async liveClient(): Promise<GoogleGenAI> {
+    return this.client();
+  }
+}
+
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  private models: GeminiModels;
+
+  constructor(private transport: GeminiTransport, models: Partial<GeminiModels> = {}) {
+    this.models = { ...DEFAULT_GEMINI_MODELS, ...models };
+  }
+
+  isAvailable(): boolean {
+    return this.transport.isConfigured;
+  }
+
+  async requestAccess(): Promise<boolean> {
+    if (window.aistudio) {
+      const hasKey = await window.aistudio.hasSelectedApiKey();
+      if (!hasKey) {
+        await window.aistudio.openSelectKey();
+        return false;
+      }
+    }
+    return true;
+  }
+
+  async connectLive(config: LiveSessionConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+    const client = await this.transport.liveClient(this.models.live);
+    return client.live.connect({
+      model: this.models.live,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } } },
+        systemInstruction: config.systemInstruction,
+        tools: [{ functionDeclarations: config.tools }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+      callbacks: {
+        ...callbacks,
+        onerror: (e: ErrorEvent) => {
+          if (e.message?.includes("Requested entity was not found") && window.aistudio) {
+            window.aistudio.openSelectKey();
+          }
+          callbacks.onerror(e);
+        }
+      }
+    });
+  }
+
+  async extractDocument({ parts, prompt, responseSchema, purpose }: DocumentRequest): Promise<Record<string, unknown>> {
+    const response = await this.transport.generateContent({
+      model: purpose === 'classify' ? this.models.classification : this.models.extraction,
+      contents: {
+        parts: [
+          ...parts.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } })),
+          { text: prompt }
+        ]
+      },
+      config: { responseMimeType: "application/json", responseSchema }
+    });
+    let result: unknown;
+    try {
+      result = JSON.parse(response.text || '');
+    } catch (e) {
+      throw new Error('Model returned invalid JSON for the document');
+    }
+    if (!result || typeof result !== 'object' || Array.isArray(result)) {
+      throw new Error('Model returned a non-object for the document');
+    }
+    return result as Record<string, unknown>;
+  }
+
+  async generateText(prompt: string, purpose: TextPurpose): Promise<string> {
+    const response = await this.transport.generateContent({
+      model: purpose === 'summary' ? this.models.summary : this.models.help,
+      contents: prompt
+    });
+    return response.text || '';
+  }
+
+  async synthesizeSpeech(text: string, voiceName: string): Promise<string | null> {
+    const response = await this.transport.generateContent({
+      model: this.models.tts,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+        },
+      },
+    });
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+  }
+}
@@ -0,0 +1,42 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import { GeminiTransport } from './geminiProvider';
+
+class ProxyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Reaches Gemini through the server proxy (server/aiProxy.mjs), which holds the key.
+ * Content calls are forwarded as-is; each Live connection gets its own single-use
+ * ephemeral token, so the browser never sees the key itself.
+ */
+export class ProxyTransport implements GeminiTransport {
+  readonly isConfigured = true;
+
+  constructor(private baseUrl: string, private getDeviceId: () => Promise<string>) {}
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Device-Id': await this.getDeviceId() },
+      body: JSON.stringify(body)
+    });
+    const reply = await response.json().catch(() => ({}));
+    if (!response.ok) throw new ProxyError(`AI proxy ${path} failed: ${reply.error || response.statusText}`, response.status);
+    return reply as T;
+  }
+
+  async generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    const reply = await this.post<Partial<GenerateContentResponse>>('/generate', params);
+    // Rebuilt as the SDK class so callers keep the `text` and `data` getters
+    return Object.assign(new GenerateContentResponse(), reply);
+  }
+
+  async liveClient(model: string): Promise<GoogleGenAI> {
+    const { token } = await this.post<{ token: string }>('/live-token', { model });
+    // Ephemeral tokens are only accepted on v1alpha
+    return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+  }
+}
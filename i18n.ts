@@ -0,0 +1,1013 @@
+import { AuditAction, DocumentType, FieldSource, LanguageCode, TranscriptionRecord } from './types';
+import { redactIdentifiers } from './redaction';
+
+const hi = {
+  appTitle: 'मुख-लिपि AI',
+  language: 'भाषा',
+  history: 'इतिहास',
+  scanDocument: 'दस्तावेज़ स्कैन',
+  historyTitle: 'आवेदन इतिहास',
+  noHistory: 'कोई इतिहास नहीं',
+  clearHistory: 'इतिहास मिटाएं',
+  confirmClear: 'पक्का मिटाना चाहते हैं?',
+  yes: 'हाँ',
+  no: 'नहीं',
+  greeting: 'नमस्ते!',
+  pressToSpeak: 'बोलना शुरू करने के लिए बटन दबाएं।',
+  startConversation: 'बातचीत शुरू करें',
+  connectionError: 'कनेक्शन में त्रुटि हुई।',
+  retry: 'पुनः प्रयास करें',
+  scanning: 'दस्तावेज़ स्कैन हो रहा है...',
+  stopSpeaking: 'बोलना बंद करें',
+  preparing: 'तैयार हो रहे हैं...',
+  listening: 'सुन रहा हूँ...',
+  formComplete: 'फॉर्म पूरा हो गया!',
+  submitBelow: 'नीचे दिए बटन से जमा करें।',
+  edit: 'सुधारें (Edit)',
+  digitalApplication: 'डिजिटल आवेदन',
+  submitting: 'जमा हो रहा है...',
+  submitApplication: 'आवेदन जमा करें',
+  poweredBy: 'Gemini AI द्वारा संचालित सुरक्षित आवेदन।',
+  provideInfo: 'जानकारी दें',
+  helpFallback: 'नमस्ते, मैं आपकी मदद के लिए यहाँ हूँ।',
+  searchHistory: 'नाम या शहर खोजें',
+  fromDate: 'से',
+  toDate: 'तक',
+  newestFirst: 'नए पहले',
+  oldestFirst: 'पुराने पहले',
+  loading: 'लोड हो रहा है...',
+  exportLabel: 'निर्यात',
+  printPdf: 'प्रिंट / PDF',
+  importData: 'आयात करें',
+  selectedCount: '{count} चुने गए',
+  allRecords: 'सभी रिकॉर्ड',
+  importSummary: '{imported} जोड़े गए, {skipped} पहले से मौजूद, {invalid} अमान्य',
+  importFailed: 'फ़ाइल पढ़ी नहीं जा सकी।',
+  syncPending: 'भेजना बाकी',
+  syncSynced: 'भेजा गया',
+  syncFailed: 'भेजना विफल',
+  retrySync: 'फिर से भेजें',
+  drafts: 'अधूरे आवेदन',
+  newApplicant: '+ नया आवेदक',
+  resumeDraft: 'जारी रखें',
+  discardDraft: 'हटाएँ',
+  unnamedDraft: 'बिना नाम',
+  viewDetails: 'विवरण',
+  summaryTitle: 'सारांश',
+  transcriptTitle: 'बातचीत',
+  noTranscript: 'कोई बातचीत दर्ज नहीं है।',
+  speakerUser: 'आवेदक',
+  speakerAssistant: 'मुख-लिपि',
+  playTurn: 'सुनें',
+  lockedTitle: 'डिवाइस लॉक है',
+  enterPin: 'ऑपरेटर PIN डालें',
+  setupPinTitle: 'ऑपरेटर PIN बनाएँ',
+  setupPinHint: 'आवेदकों की जानकारी इस PIN से सुरक्षित रहेगी। PIN भूलने पर यह जानकारी वापस नहीं मिल सकती।',
+  currentPin: 'मौजूदा PIN',
+  newPin: 'नया PIN',
+  confirmPin: 'PIN दोबारा डालें',
+  unlock: 'खोलें',
+  savePin: 'सहेजें',
+  changePin: 'PIN बदलें',
+  lockNow: 'लॉक करें',
+  cancel: 'रद्द करें',
+  wrongPin: 'गलत PIN',
+  pinMismatch: 'दोनों PIN मेल नहीं खाते',
+  pinInvalid: 'PIN में 4 से 8 अंक होने चाहिए',
+  pinWorking: 'कृपया प्रतीक्षा करें...',
+  sourceVoice: '🎤 बोलकर',
+  sourceDocument: '📄 दस्तावेज़ से',
+  lowConfidence: 'कृपया जाँच लें',
+  confidenceLevel: '{percent}% भरोसा',
+  sourceTyped: 'टाइप किया',
+  tapToCorrect: 'सुधारने के लिए टैप करें',
+  correctingField: '{field} सुधारें',
+  oldValue: 'पुराना',
+  newValue: 'नया',
+  sayNewValue: 'नया जवाब बोलें…',
+  replaceValue: 'हाँ, बदलें',
+  keepOldValue: 'पुराना रखें',
+  typeInstead: 'या यहाँ टाइप करें',
+  saveTyped: 'सहेजें',
+  invalidValue: 'यह जवाब सही नहीं लगता',
+  docTypeAadhaar: 'आधार कार्ड',
+  docTypePan: 'PAN कार्ड',
+  docTypeVoterId: 'वोटर आईडी',
+  docTypeOther: 'अन्य दस्तावेज़',
+  reviewScan: 'स्कैन की जाँच करें',
+  documentNumber: 'दस्तावेज़ संख्या',
+  numberInvalid: 'संख्या सही नहीं है',
+  addToForm: 'फॉर्म में जोड़ें',
+  scanFailed: 'दस्तावेज़ पढ़ा नहीं जा सका। कृपया दोबारा कोशिश करें।',
+  unsupportedFile: 'एक PDF या कार्ड के आगे-पीछे की दो फ़ोटो चुनें',
+  fileTooLarge: 'फ़ाइल बहुत बड़ी है',
+  documentsTitle: 'दस्तावेज़',
+  nothingExtracted: 'दस्तावेज़ से कोई जानकारी नहीं मिली',
+  cameraHint: 'कार्ड को फ्रेम के अंदर रखें',
+  guideDark: 'रोशनी कम है, उजाले में जाएँ',
+  guideBright: 'रोशनी बहुत तेज़ है, थोड़ा छाँव में जाएँ',
+  guideGlare: 'कार्ड पर चमक है, कार्ड को थोड़ा झुकाएँ',
+  guideBlurry: 'फ़ोटो धुंधली है, फ़ोन को स्थिर रखें',
+  guideReady: 'ठीक है, अब फ़ोटो लें',
+  capturePhoto: 'फ़ोटो लें',
+  retake: 'दोबारा लें',
+  addBackSide: 'पीछे की फ़ोटो लें',
+  usePhotos: 'इस्तेमाल करें',
+  chooseFile: 'फ़ाइल चुनें',
+  cameraUnavailable: 'कैमरा नहीं खुल सका',
+  reconnecting: 'नेटवर्क टूट गया है, हम फिर से जुड़ रहे हैं। कृपया रुकिए।',
+  thinking: 'सोच रहा हूँ...',
+  readingAloud: 'फ़ॉर्म पढ़कर सुनाया जा रहा है...',
+  demoMode: 'प्रशिक्षण डेमो',
+  tryDemo: 'डेमो चलाएँ',
+  exitDemo: 'डेमो बंद करें',
+  demoNotice: 'डेमो में कुछ भी सहेजा या भेजा नहीं जाता',
+  kioskMode: 'कियोस्क मोड',
+  operator: 'ऑपरेटर',
+  operatorPanel: 'ऑपरेटर पैनल',
+  queueTitle: 'कतार',
+  addApplicant: '+ आवेदक जोड़ें',
+  callApplicant: 'बुलाएँ',
+  tokenNumber: 'टोकन {n}',
+  exitKiosk: 'कियोस्क मोड बंद करें',
+  queueEmpty: 'कतार में कोई नहीं है',
+  consentTitle: 'आपकी सहमति',
+  consentConversation: 'यह फ़ॉर्म भरने के लिए हमारी बातचीत रिकॉर्ड की जाएगी और आपकी जानकारी इस डिवाइस पर सुरक्षित रखी जाएगी। आवेदन जमा होने पर यह जानकारी संबंधित विभाग को भेजी जाएगी। क्या आप इसके लिए सहमत हैं?',
+  consentDocuments: 'आपके दस्तावेज़ की फ़ोटो जानकारी पढ़ने के लिए ऑनलाइन सेवा को भेजी जाएगी और आपके आवेदन के साथ रखी जाएगी। क्या आप इसके लिए सहमत हैं?',
+  consentAgree: 'हाँ, मैं सहमत हूँ',
+  consentDecline: 'नहीं',
+  consentDeclined: 'ठीक है, आपकी सहमति के बिना कुछ भी दर्ज नहीं किया जाएगा।',
+  consentRepeat: 'फिर से सुनाएँ',
+  cloudSummary: 'जमा करते समय क्लाउड पर सारांश बनाएं',
+  consentLabel: 'सहमति',
+  consentScopeConversation: 'बातचीत',
+  consentScopeDocuments: 'दस्तावेज़',
+  consentByVoice: 'बोलकर',
+  consentByTap: 'स्क्रीन पर',
+  saveChanges: 'बदलाव सहेजें',
+  deleteRecord: 'हटाएं',
+  confirmDeleteRecord: 'यह आवेदन हमेशा के लिए हटाएं?',
+  deleteUnsyncedWarning: 'यह आवेदन अभी सर्वर तक नहीं पहुँचा है।',
+  amendedOn: 'संशोधित: {date}',
+  dataSettings: 'डेटा सेटिंग्स',
+  retentionTitle: 'पुराना डेटा अपने आप हटाएं',
+  retentionSyncedDays: 'भेजे जा चुके आवेदन, इतने दिन बाद',
+  retentionDraftDays: 'अधूरे आवेदन, इतने दिन बाद',
+  retentionNever: 'कभी नहीं',
+  auditLogTitle: 'हटाने और बदलाव का रिकॉर्ड',
+  auditEmpty: 'अभी कुछ नहीं हटाया या बदला गया',
+  auditDelete: 'हटाया गया',
+  auditAmend: 'बदला गया',
+  auditDiscard: 'अधूरा आवेदन छोड़ा गया',
+  auditPurge: 'पुराना होने पर हटाया गया',
+  auditClear: 'सारा डेटा मिटाया गया ({count} आवेदन)',
+  backToHistory: 'इतिहास पर वापस',
+  latinSpelling: 'अंग्रेज़ी में',
+  duplicateTitle: 'शायद पहले से जमा',
+  duplicateNotice: 'इसी नाम, जन्म तिथि और शहर का एक आवेदन पहले से जमा है। कृपया थोड़ा रुकिए, ऑपरेटर इसे आपके साथ जाँचेंगे।',
+  duplicateHint: 'जन्म तिथि और शहर वही हैं और नाम मिलता-जुलता है। चुनें कि यह आवेदन कैसे सहेजा जाए।',
+  duplicateSubmitted: 'जमा: {date}',
+  linkDuplicate: 'इससे जोड़ें',
+  replaceDuplicate: 'इसकी जगह रखें',
+  submitAsNew: 'नया आवेदन जमा करें',
+  auditReplace: 'नए आवेदन से बदला गया',
+  linkedRecord: 'इसी व्यक्ति के पुराने आवेदन से जुड़ा',
+  recordChangeFailed: 'यह बदलाव नहीं हो सका। कृपया दोबारा कोशिश करें।',
+  duplicateCount: '{count} मिलते-जुलते आवेदन मिले। देखने के लिए ऑपरेटर PIN डालें।',
+  databaseRecord: 'डेटाबेस रिकॉर्ड',
+  historyLoadFailed: 'इतिहास लोड नहीं हो सका। कृपया दोबारा कोशिश करें।',
+  pinLocked: 'बहुत बार गलत PIN डाला गया। {minutes} मिनट बाद फिर कोशिश करें।'
+};
+
+export type UIStrings = Record<keyof typeof hi, string>;
+
+const pa: UIStrings = {
+  appTitle: 'ਮੁਖ-ਲਿਪੀ AI',
+  language: 'ਭਾਸ਼ਾ',
+  history: 'ਇਤਿਹਾਸ',
+  scanDocument: 'ਦਸਤਾਵੇਜ਼ ਸਕੈਨ',
+  historyTitle: 'ਅਰਜ਼ੀ ਇਤਿਹਾਸ',
+  noHistory: 'ਕੋਈ ਇਤਿਹਾਸ ਨਹੀਂ',
+  clearHistory: 'ਇਤਿਹਾਸ ਮਿਟਾਓ',
+  confirmClear: 'ਪੱਕਾ ਮਿਟਾਉਣਾ ਚਾਹੁੰਦੇ ਹੋ?',
+  yes: 'ਹਾਂ',
+  no: 'ਨਹੀਂ',
+  greeting: 'ਸਤ ਸ੍ਰੀ ਅਕਾਲ!',
+  pressToSpeak: 'ਬੋਲਣਾ ਸ਼ੁਰੂ ਕਰਨ ਲਈ ਬਟਨ ਦਬਾਓ।',
+  startConversation: 'ਗੱਲਬਾਤ ਸ਼ੁਰੂ ਕਰੋ',
+  connectionError: 'ਕਨੈਕਸ਼ਨ ਵਿੱਚ ਗਲਤੀ ਹੋਈ।',
+  retry: 'ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ',
+  scanning: 'ਦਸਤਾਵੇਜ਼ ਸਕੈਨ ਹੋ ਰਿਹਾ ਹੈ...',
+  stopSpeaking: 'ਬੋਲਣਾ ਬੰਦ ਕਰੋ',
+  preparing: 'ਤਿਆਰ ਹੋ ਰਹੇ ਹਾਂ...',
+  listening: 'ਸੁਣ ਰਿਹਾ ਹਾਂ...',
+  formComplete: 'ਫਾਰਮ ਪੂਰਾ ਹੋ ਗਿਆ!',
+  submitBelow: 'ਹੇਠਾਂ ਦਿੱਤੇ ਬਟਨ ਨਾਲ ਜਮ੍ਹਾਂ ਕਰੋ।',
+  edit: 'ਸੋਧੋ (Edit)',
+  digitalApplication: 'ਡਿਜੀਟਲ ਅਰਜ਼ੀ',
+  submitting: 'ਜਮ੍ਹਾਂ ਹੋ ਰਿਹਾ ਹੈ...',
+  submitApplication: 'ਅਰਜ਼ੀ ਜਮ੍ਹਾਂ ਕਰੋ',
+  poweredBy: 'Gemini AI ਦੁਆਰਾ ਸੰਚਾਲਿਤ ਸੁਰੱਖਿਅਤ ਅਰਜ਼ੀ।',
+  provideInfo: 'ਜਾਣਕਾਰੀ ਦਿਓ',
+  helpFallback: 'ਸਤ ਸ੍ਰੀ ਅਕਾਲ, ਮੈਂ ਤੁਹਾਡੀ ਮਦਦ ਲਈ ਇੱਥੇ ਹਾਂ।',
+  searchHistory: 'ਨਾਮ ਜਾਂ ਸ਼ਹਿਰ ਖੋਜੋ',
+  fromDate: 'ਤੋਂ',
+  toDate: 'ਤੱਕ',
+  newestFirst: 'ਨਵੇਂ ਪਹਿਲਾਂ',
+  oldestFirst: 'ਪੁਰਾਣੇ ਪਹਿਲਾਂ',
+  loading: 'ਲੋਡ ਹੋ ਰਿਹਾ ਹੈ...',
+  exportLabel: 'ਨਿਰਯਾਤ',
+  printPdf: 'ਪ੍ਰਿੰਟ / PDF',
+  importData: 'ਆਯਾਤ ਕਰੋ',
+  selectedCount: '{count} ਚੁਣੇ ਗਏ',
+  allRecords: 'ਸਾਰੇ ਰਿਕਾਰਡ',
+  importSummary: '{imported} ਜੋੜੇ ਗਏ, {skipped} ਪਹਿਲਾਂ ਤੋਂ ਮੌਜੂਦ, {invalid} ਅਵੈਧ',
+  importFailed: 'ਫਾਈਲ ਪੜ੍ਹੀ ਨਹੀਂ ਜਾ ਸਕੀ।',
+  syncPending: 'ਭੇਜਣਾ ਬਾਕੀ',
+  syncSynced: 'ਭੇਜਿਆ ਗਿਆ',
+  syncFailed: 'ਭੇਜਣਾ ਅਸਫਲ',
+  retrySync: 'ਮੁੜ ਭੇਜੋ',
+  drafts: 'ਅਧੂਰੀਆਂ ਅਰਜ਼ੀਆਂ',
+  newApplicant: '+ ਨਵਾਂ ਬਿਨੈਕਾਰ',
+  resumeDraft: 'ਜਾਰੀ ਰੱਖੋ',
+  discardDraft: 'ਹਟਾਓ',
+  unnamedDraft: 'ਬਿਨਾਂ ਨਾਮ',
+  viewDetails: 'ਵੇਰਵਾ',
+  summaryTitle: 'ਸਾਰ',
+  transcriptTitle: 'ਗੱਲਬਾਤ',
+  noTranscript: 'ਕੋਈ ਗੱਲਬਾਤ ਦਰਜ ਨਹੀਂ ਹੈ।',
+  speakerUser: 'ਬਿਨੈਕਾਰ',
+  speakerAssistant: 'ਮੁਖ-ਲਿਪੀ',
+  playTurn: 'ਸੁਣੋ',
+  lockedTitle: 'ਡਿਵਾਈਸ ਲੌਕ ਹੈ',
+  enterPin: 'ਆਪਰੇਟਰ PIN ਪਾਓ',
+  setupPinTitle: 'ਆਪਰੇਟਰ PIN ਬਣਾਓ',
+  setupPinHint: 'ਬਿਨੈਕਾਰਾਂ ਦੀ ਜਾਣਕਾਰੀ ਇਸ PIN ਨਾਲ ਸੁਰੱਖਿਅਤ ਰਹੇਗੀ। PIN ਭੁੱਲਣ ਤੇ ਇਹ ਜਾਣਕਾਰੀ ਵਾਪਸ ਨਹੀਂ ਮਿਲ ਸਕਦੀ।',
+  currentPin: 'ਮੌਜੂਦਾ PIN',
+  newPin: 'ਨਵਾਂ PIN',
+  confirmPin: 'PIN ਦੁਬਾਰਾ ਪਾਓ',
+  unlock: 'ਖੋਲ੍ਹੋ',
+  savePin: 'ਸੰਭਾਲੋ',
+  changePin: 'PIN ਬਦਲੋ',
+  lockNow: 'ਲੌਕ ਕਰੋ',
+  cancel: 'ਰੱਦ ਕਰੋ',
+  wrongPin: 'ਗਲਤ PIN',
+  pinMismatch: 'ਦੋਵੇਂ PIN ਮੇਲ ਨਹੀਂ ਖਾਂਦੇ',
+  pinInvalid: 'PIN ਵਿੱਚ 4 ਤੋਂ 8 ਅੰਕ ਹੋਣੇ ਚਾਹੀਦੇ ਹਨ',
+  pinWorking: 'ਕਿਰਪਾ ਕਰਕੇ ਉਡੀਕ ਕਰੋ...',
+  sourceVoice: '🎤 ਬੋਲ ਕੇ',
+  sourceDocument: '📄 ਦਸਤਾਵੇਜ਼ ਤੋਂ',
+  lowConfidence: 'ਕਿਰਪਾ ਕਰਕੇ ਜਾਂਚੋ',
+  confidenceLevel: '{percent}% ਭਰੋਸਾ',
+  sourceTyped: 'ਟਾਈਪ ਕੀਤਾ',
+  tapToCorrect: 'ਸੋਧਣ ਲਈ ਟੈਪ ਕਰੋ',
+  correctingField: '{field} ਸੋਧੋ',
+  oldValue: 'ਪੁਰਾਣਾ',
+  newValue: 'ਨਵਾਂ',
+  sayNewValue: 'ਨਵਾਂ ਜਵਾਬ ਬੋਲੋ…',
+  replaceValue: 'ਹਾਂ, ਬਦਲੋ',
+  keepOldValue: 'ਪੁਰਾਣਾ ਰੱਖੋ',
+  typeInstead: 'ਜਾਂ ਇੱਥੇ ਟਾਈਪ ਕਰੋ',
+  saveTyped: 'ਸੰਭਾਲੋ',
+  invalidValue: 'ਇਹ ਜਵਾਬ ਠੀਕ ਨਹੀਂ ਲੱਗਦਾ',
+  docTypeAadhaar: 'ਆਧਾਰ ਕਾਰਡ',
+  docTypePan: 'PAN ਕਾਰਡ',
+  docTypeVoterId: 'ਵੋਟਰ ਆਈਡੀ',
+  docTypeOther: 'ਹੋਰ ਦਸਤਾਵੇਜ਼',
+  reviewScan: 'ਸਕੈਨ ਦੀ ਜਾਂਚ ਕਰੋ',
+  documentNumber: 'ਦਸਤਾਵੇਜ਼ ਨੰਬਰ',
+  numberInvalid: 'ਨੰਬਰ ਠੀਕ ਨਹੀਂ ਹੈ',
+  addToForm: 'ਫਾਰਮ ਵਿੱਚ ਜੋੜੋ',
+  scanFailed: 'ਦਸਤਾਵੇਜ਼ ਪੜ੍ਹਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  unsupportedFile: 'ਇੱਕ PDF ਜਾਂ ਕਾਰਡ ਦੇ ਅੱਗੇ-ਪਿੱਛੇ ਦੀਆਂ ਦੋ ਫ਼ੋਟੋਆਂ ਚੁਣੋ',
+  fileTooLarge: 'ਫ਼ਾਈਲ ਬਹੁਤ ਵੱਡੀ ਹੈ',
+  documentsTitle: 'ਦਸਤਾਵੇਜ਼',
+  nothingExtracted: 'ਦਸਤਾਵੇਜ਼ ਤੋਂ ਕੋਈ ਜਾਣਕਾਰੀ ਨਹੀਂ ਮਿਲੀ',
+  cameraHint: 'ਕਾਰਡ ਨੂੰ ਫ੍ਰੇਮ ਦੇ ਅੰਦਰ ਰੱਖੋ',
+  guideDark: 'ਰੋਸ਼ਨੀ ਘੱਟ ਹੈ, ਚਾਨਣ ਵਿੱਚ ਜਾਓ',
+  guideBright: 'ਰੋਸ਼ਨੀ ਬਹੁਤ ਤੇਜ਼ ਹੈ, ਥੋੜ੍ਹਾ ਛਾਂ ਵਿੱਚ ਜਾਓ',
+  guideGlare: 'ਕਾਰਡ ਉੱਤੇ ਚਮਕ ਹੈ, ਕਾਰਡ ਨੂੰ ਥੋੜ੍ਹਾ ਝੁਕਾਓ',
+  guideBlurry: 'ਫ਼ੋਟੋ ਧੁੰਦਲੀ ਹੈ, ਫ਼ੋਨ ਸਥਿਰ ਰੱਖੋ',
+  guideReady: 'ਠੀਕ ਹੈ, ਹੁਣ ਫ਼ੋਟੋ ਲਓ',
+  capturePhoto: 'ਫ਼ੋਟੋ ਲਓ',
+  retake: 'ਦੁਬਾਰਾ ਲਓ',
+  addBackSide: 'ਪਿੱਛੇ ਦੀ ਫ਼ੋਟੋ ਲਓ',
+  usePhotos: 'ਵਰਤੋ',
+  chooseFile: 'ਫ਼ਾਈਲ ਚੁਣੋ',
+  cameraUnavailable: 'ਕੈਮਰਾ ਨਹੀਂ ਖੁੱਲ੍ਹ ਸਕਿਆ',
+  reconnecting: 'ਨੈੱਟਵਰਕ ਟੁੱਟ ਗਿਆ ਹੈ, ਅਸੀਂ ਦੁਬਾਰਾ ਜੁੜ ਰਹੇ ਹਾਂ। ਕਿਰਪਾ ਕਰਕੇ ਰੁਕੋ।',
+  thinking: 'ਸੋਚ ਰਿਹਾ ਹਾਂ...',
+  readingAloud: 'ਫ਼ਾਰਮ ਪੜ੍ਹ ਕੇ ਸੁਣਾਇਆ ਜਾ ਰਿਹਾ ਹੈ...',
+  demoMode: 'ਸਿਖਲਾਈ ਡੈਮੋ',
+  tryDemo: 'ਡੈਮੋ ਚਲਾਓ',
+  exitDemo: 'ਡੈਮੋ ਬੰਦ ਕਰੋ',
+  demoNotice: 'ਡੈਮੋ ਵਿੱਚ ਕੁਝ ਵੀ ਸੰਭਾਲਿਆ ਜਾਂ ਭੇਜਿਆ ਨਹੀਂ ਜਾਂਦਾ',
+  kioskMode: 'ਕਿਓਸਕ ਮੋਡ',
+  operator: 'ਆਪਰੇਟਰ',
+  operatorPanel: 'ਆਪਰੇਟਰ ਪੈਨਲ',
+  queueTitle: 'ਕਤਾਰ',
+  addApplicant: '+ ਬਿਨੈਕਾਰ ਜੋੜੋ',
+  callApplicant: 'ਬੁਲਾਓ',
+  tokenNumber: 'ਟੋਕਨ {n}',
+  exitKiosk: 'ਕਿਓਸਕ ਮੋਡ ਬੰਦ ਕਰੋ',
+  queueEmpty: 'ਕਤਾਰ ਵਿੱਚ ਕੋਈ ਨਹੀਂ ਹੈ',
+  consentTitle: 'ਤੁਹਾਡੀ ਸਹਿਮਤੀ',
+  consentConversation: 'ਇਹ ਫਾਰਮ ਭਰਨ ਲਈ ਸਾਡੀ ਗੱਲਬਾਤ ਰਿਕਾਰਡ ਕੀਤੀ ਜਾਵੇਗੀ ਅਤੇ ਤੁਹਾਡੀ ਜਾਣਕਾਰੀ ਇਸ ਡਿਵਾਈਸ ਉੱਤੇ ਸੁਰੱਖਿਅਤ ਰੱਖੀ ਜਾਵੇਗੀ। ਅਰਜ਼ੀ ਜਮ੍ਹਾਂ ਹੋਣ ਉੱਤੇ ਇਹ ਜਾਣਕਾਰੀ ਸੰਬੰਧਿਤ ਵਿਭਾਗ ਨੂੰ ਭੇਜੀ ਜਾਵੇਗੀ। ਕੀ ਤੁਸੀਂ ਇਸ ਲਈ ਸਹਿਮਤ ਹੋ?',
+  consentDocuments: 'ਤੁਹਾਡੇ ਦਸਤਾਵੇਜ਼ ਦੀ ਫੋਟੋ ਜਾਣਕਾਰੀ ਪੜ੍ਹਨ ਲਈ ਆਨਲਾਈਨ ਸੇਵਾ ਨੂੰ ਭੇਜੀ ਜਾਵੇਗੀ ਅਤੇ ਤੁਹਾਡੀ ਅਰਜ਼ੀ ਨਾਲ ਰੱਖੀ ਜਾਵੇਗੀ। ਕੀ ਤੁਸੀਂ ਇਸ ਲਈ ਸਹਿਮਤ ਹੋ?',
+  consentAgree: 'ਹਾਂ, ਮੈਂ ਸਹਿਮਤ ਹਾਂ',
+  consentDecline: 'ਨਹੀਂ',
+  consentDeclined: 'ਠੀਕ ਹੈ, ਤੁਹਾਡੀ ਸਹਿਮਤੀ ਤੋਂ ਬਿਨਾਂ ਕੁਝ ਵੀ ਦਰਜ ਨਹੀਂ ਕੀਤਾ ਜਾਵੇਗਾ।',
+  consentRepeat: 'ਦੁਬਾਰਾ ਸੁਣਾਓ',
+  cloudSummary: 'ਜਮ੍ਹਾਂ ਕਰਦੇ ਸਮੇਂ ਕਲਾਊਡ ਉੱਤੇ ਸਾਰ ਬਣਾਓ',
+  consentLabel: 'ਸਹਿਮਤੀ',
+  consentScopeConversation: 'ਗੱਲਬਾਤ',
+  consentScopeDocuments: 'ਦਸਤਾਵੇਜ਼',
+  consentByVoice: 'ਬੋਲ ਕੇ',
+  consentByTap: 'ਸਕ੍ਰੀਨ ਉੱਤੇ',
+  saveChanges: 'ਬਦਲਾਅ ਸੰਭਾਲੋ',
+  deleteRecord: 'ਹਟਾਓ',
+  confirmDeleteRecord: 'ਕੀ ਇਹ ਅਰਜ਼ੀ ਹਮੇਸ਼ਾ ਲਈ ਹਟਾਉਣੀ ਹੈ?',
+  deleteUnsyncedWarning: 'ਇਹ ਅਰਜ਼ੀ ਅਜੇ ਸਰਵਰ ਤੱਕ ਨਹੀਂ ਪਹੁੰਚੀ।',
+  amendedOn: 'ਸੋਧੀ ਗਈ: {date}',
+  dataSettings: 'ਡਾਟਾ ਸੈਟਿੰਗਾਂ',
+  retentionTitle: 'ਪੁਰਾਣਾ ਡਾਟਾ ਆਪਣੇ ਆਪ ਹਟਾਓ',
+  retentionSyncedDays: 'ਭੇਜੀਆਂ ਜਾ ਚੁੱਕੀਆਂ ਅਰਜ਼ੀਆਂ, ਇੰਨੇ ਦਿਨਾਂ ਬਾਅਦ',
+  retentionDraftDays: 'ਅਧੂਰੀਆਂ ਅਰਜ਼ੀਆਂ, ਇੰਨੇ ਦਿਨਾਂ ਬਾਅਦ',
+  retentionNever: 'ਕਦੇ ਨਹੀਂ',
+  auditLogTitle: 'ਹਟਾਉਣ ਅਤੇ ਬਦਲਾਅ ਦਾ ਰਿਕਾਰਡ',
+  auditEmpty: 'ਅਜੇ ਕੁਝ ਨਹੀਂ ਹਟਾਇਆ ਜਾਂ ਬਦਲਿਆ ਗਿਆ',
+  auditDelete: 'ਹਟਾਈ ਗਈ',
+  auditAmend: 'ਬਦਲੀ ਗਈ',
+  auditDiscard: 'ਅਧੂਰੀ ਅਰਜ਼ੀ ਛੱਡੀ ਗਈ',
+  auditPurge: 'ਪੁਰਾਣੀ ਹੋਣ ਕਰਕੇ ਹਟਾਈ ਗਈ',
+  auditClear: 'ਸਾਰਾ ਡਾਟਾ ਮਿਟਾਇਆ ਗਿਆ ({count} ਅਰਜ਼ੀਆਂ)',
+  backToHistory: 'ਇਤਿਹਾਸ ਤੇ ਵਾਪਸ',
+  latinSpelling: 'ਅੰਗਰੇਜ਼ੀ ਵਿੱਚ',
+  duplicateTitle: 'ਸ਼ਾਇਦ ਪਹਿਲਾਂ ਹੀ ਜਮ੍ਹਾਂ',
+  duplicateNotice: 'ਇਸੇ ਨਾਮ, ਜਨਮ ਮਿਤੀ ਅਤੇ ਸ਼ਹਿਰ ਦੀ ਇੱਕ ਅਰਜ਼ੀ ਪਹਿਲਾਂ ਹੀ ਜਮ੍ਹਾਂ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਥੋੜ੍ਹਾ ਰੁਕੋ, ਆਪਰੇਟਰ ਇਸਨੂੰ ਤੁਹਾਡੇ ਨਾਲ ਜਾਂਚਣਗੇ।',
+  duplicateHint: 'ਜਨਮ ਮਿਤੀ ਅਤੇ ਸ਼ਹਿਰ ਉਹੀ ਹਨ ਅਤੇ ਨਾਮ ਮਿਲਦਾ-ਜੁਲਦਾ ਹੈ। ਚੁਣੋ ਕਿ ਇਹ ਅਰਜ਼ੀ ਕਿਵੇਂ ਸੰਭਾਲੀ ਜਾਵੇ।',
+  duplicateSubmitted: 'ਜਮ੍ਹਾਂ: {date}',
+  linkDuplicate: 'ਇਸ ਨਾਲ ਜੋੜੋ',
+  replaceDuplicate: 'ਇਸਦੀ ਥਾਂ ਰੱਖੋ',
+  submitAsNew: 'ਨਵੀਂ ਅਰਜ਼ੀ ਜਮ੍ਹਾਂ ਕਰੋ',
+  auditReplace: 'ਨਵੀਂ ਅਰਜ਼ੀ ਨਾਲ ਬਦਲੀ ਗਈ',
+  linkedRecord: 'ਇਸੇ ਵਿਅਕਤੀ ਦੀ ਪੁਰਾਣੀ ਅਰਜ਼ੀ ਨਾਲ ਜੁੜੀ',
+  recordChangeFailed: 'ਇਹ ਬਦਲਾਅ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  duplicateCount: '{count} ਮਿਲਦੀਆਂ-ਜੁਲਦੀਆਂ ਅਰਜ਼ੀਆਂ ਮਿਲੀਆਂ। ਦੇਖਣ ਲਈ ਆਪਰੇਟਰ PIN ਪਾਓ।',
+  databaseRecord: 'ਡਾਟਾਬੇਸ ਰਿਕਾਰਡ',
+  historyLoadFailed: 'ਇਤਿਹਾਸ ਲੋਡ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  pinLocked: 'ਕਈ ਵਾਰ ਗਲਤ PIN ਪਾਇਆ ਗਿਆ। {minutes} ਮਿੰਟ ਬਾਅਦ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।'
+};
+
+const bn: UIStrings = {
+  appTitle: 'মুখ-লিপি AI',
+  language: 'ভাষা',
+  history: 'ইতিহাস',
+  scanDocument: 'নথি স্ক্যান',
+  historyTitle: 'আবেদনের ইতিহাস',
+  noHistory: 'কোনো ইতিহাস নেই',
+  clearHistory: 'ইতিহাস মুছুন',
+  confirmClear: 'সত্যিই মুছতে চান?',
+  yes: 'হ্যাঁ',
+  no: 'না',
+  greeting: 'নমস্কার!',
+  pressToSpeak: 'কথা বলা শুরু করতে বোতাম টিপুন।',
+  startConversation: 'কথা শুরু করুন',
+  connectionError: 'সংযোগে ত্রুটি হয়েছে।',
+  retry: 'আবার চেষ্টা করুন',
+  scanning: 'নথি স্ক্যান হচ্ছে...',
+  stopSpeaking: 'কথা থামান',
+  preparing: 'প্রস্তুত হচ্ছে...',
+  listening: 'শুনছি...',
+  formComplete: 'ফর্ম পূরণ হয়েছে!',
+  submitBelow: 'নিচের বোতাম দিয়ে জমা দিন।',
+  edit: 'সংশোধন (Edit)',
+  digitalApplication: 'ডিজিটাল আবেদন',
+  submitting: 'জমা হচ্ছে...',
+  submitApplication: 'আবেদন জমা দিন',
+  poweredBy: 'Gemini AI চালিত নিরাপদ আবেদন।',
+  provideInfo: 'তথ্য দিন',
+  helpFallback: 'নমস্কার, আমি আপনাকে সাহায্য করতে এখানে আছি।',
+  searchHistory: 'নাম বা শহর খুঁজুন',
+  fromDate: 'থেকে',
+  toDate: 'পর্যন্ত',
+  newestFirst: 'নতুন আগে',
+  oldestFirst: 'পুরনো আগে',
+  loading: 'লোড হচ্ছে...',
+  exportLabel: 'রপ্তানি',
+  printPdf: 'প্রিন্ট / PDF',
+  importData: 'আমদানি করুন',
+  selectedCount: '{count}টি নির্বাচিত',
+  allRecords: 'সব রেকর্ড',
+  importSummary: '{imported}টি যোগ হয়েছে, {skipped}টি আগে থেকেই আছে, {invalid}টি অবৈধ',
+  importFailed: 'ফাইল পড়া যায়নি।',
+  syncPending: 'পাঠানো বাকি',
+  syncSynced: 'পাঠানো হয়েছে',
+  syncFailed: 'পাঠানো ব্যর্থ',
+  retrySync: 'আবার পাঠান',
+  drafts: 'অসম্পূর্ণ আবেদন',
+  newApplicant: '+ নতুন আবেদনকারী',
+  resumeDraft: 'চালিয়ে যান',
+  discardDraft: 'মুছুন',
+  unnamedDraft: 'নামহীন',
+  viewDetails: 'বিস্তারিত',
+  summaryTitle: 'সারাংশ',
+  transcriptTitle: 'কথোপকথন',
+  noTranscript: 'কোনো কথোপকথন সংরক্ষিত নেই।',
+  speakerUser: 'আবেদনকারী',
+  speakerAssistant: 'মুখ-লিপি',
+  playTurn: 'শুনুন',
+  lockedTitle: 'ডিভাইস লক করা আছে',
+  enterPin: 'অপারেটর PIN দিন',
+  setupPinTitle: 'অপারেটর PIN তৈরি করুন',
+  setupPinHint: 'আবেদনকারীদের তথ্য এই PIN দিয়ে সুরক্ষিত থাকবে। PIN ভুলে গেলে এই তথ্য আর ফেরত পাওয়া যাবে না।',
+  currentPin: 'বর্তমান PIN',
+  newPin: 'নতুন PIN',
+  confirmPin: 'আবার PIN দিন',
+  unlock: 'খুলুন',
+  savePin: 'সংরক্ষণ করুন',
+  changePin: 'PIN বদলান',
+  lockNow: 'লক করুন',
+  cancel: 'বাতিল',
+  wrongPin: 'ভুল PIN',
+  pinMismatch: 'দুটি PIN মিলছে না',
+  pinInvalid: 'PIN-এ ৪ থেকে ৮টি সংখ্যা থাকতে হবে',
+  pinWorking: 'অনুগ্রহ করে অপেক্ষা করুন...',
+  sourceVoice: '🎤 বলে',
+  sourceDocument: '📄 নথি থেকে',
+  lowConfidence: 'অনুগ্রহ করে যাচাই করুন',
+  confidenceLevel: '{percent}% নিশ্চিত',
+  sourceTyped: 'টাইপ করা',
+  tapToCorrect: 'সংশোধন করতে ট্যাপ করুন',
+  correctingField: '{field} সংশোধন',
+  oldValue: 'পুরানো',
+  newValue: 'নতুন',
+  sayNewValue: 'নতুন উত্তর বলুন…',
+  replaceValue: 'হ্যাঁ, বদলান',
+  keepOldValue: 'পুরানোটা রাখুন',
+  typeInstead: 'অথবা এখানে টাইপ করুন',
+  saveTyped: 'সংরক্ষণ',
+  invalidValue: 'এই উত্তরটি ঠিক মনে হচ্ছে না',
+  docTypeAadhaar: 'আধার কার্ড',
+  docTypePan: 'PAN কার্ড',
+  docTypeVoterId: 'ভোটার আইডি',
+  docTypeOther: 'অন্য নথি',
+  reviewScan: 'স্ক্যান যাচাই করুন',
+  documentNumber: 'নথির নম্বর',
+  numberInvalid: 'নম্বরটি সঠিক নয়',
+  addToForm: 'ফর্মে যোগ করুন',
+  scanFailed: 'নথিটি পড়া যায়নি। আবার চেষ্টা করুন।',
+  unsupportedFile: 'একটি PDF অথবা কার্ডের সামনে-পিছনের দুটি ছবি বাছুন',
+  fileTooLarge: 'ফাইলটি খুব বড়',
+  documentsTitle: 'নথি',
+  nothingExtracted: 'নথি থেকে কোনো তথ্য পাওয়া যায়নি',
+  cameraHint: 'কার্ডটি ফ্রেমের ভিতরে রাখুন',
+  guideDark: 'আলো কম, আলোর দিকে যান',
+  guideBright: 'আলো খুব বেশি, একটু ছায়ায় যান',
+  guideGlare: 'কার্ডে ঝলক পড়ছে, কার্ডটি একটু কাত করুন',
+  guideBlurry: 'ছবি ঝাপসা, ফোন স্থির রাখুন',
+  guideReady: 'ঠিক আছে, এবার ছবি তুলুন',
+  capturePhoto: 'ছবি তুলুন',
+  retake: 'আবার তুলুন',
+  addBackSide: 'পিছনের ছবি তুলুন',
+  usePhotos: 'ব্যবহার করুন',
+  chooseFile: 'ফাইল বাছুন',
+  cameraUnavailable: 'ক্যামেরা খোলা গেল না',
+  reconnecting: 'নেটওয়ার্ক বিচ্ছিন্ন হয়েছে, আবার যুক্ত হচ্ছি। একটু অপেক্ষা করুন।',
+  thinking: 'ভাবছি...',
+  readingAloud: 'ফর্মটি পড়ে শোনানো হচ্ছে...',
+  demoMode: 'প্রশিক্ষণ ডেমো',
+  tryDemo: 'ডেমো চালান',
+  exitDemo: 'ডেমো বন্ধ করুন',
+  demoNotice: 'ডেমোতে কিছুই সংরক্ষণ বা পাঠানো হয় না',
+  kioskMode: 'কিয়স্ক মোড',
+  operator: 'অপারেটর',
+  operatorPanel: 'অপারেটর প্যানেল',
+  queueTitle: 'সারি',
+  addApplicant: '+ আবেদনকারী যোগ করুন',
+  callApplicant: 'ডাকুন',
+  tokenNumber: 'টোকেন {n}',
+  exitKiosk: 'কিয়স্ক মোড বন্ধ করুন',
+  queueEmpty: 'সারিতে কেউ নেই',
+  consentTitle: 'আপনার সম্মতি',
+  consentConversation: 'এই ফর্ম পূরণের জন্য আমাদের কথোপকথন রেকর্ড করা হবে এবং আপনার তথ্য এই ডিভাইসে নিরাপদে রাখা হবে। আবেদন জমা হলে এই তথ্য সংশ্লিষ্ট বিভাগে পাঠানো হবে। আপনি কি এতে সম্মত?',
+  consentDocuments: 'আপনার নথির ছবি তথ্য পড়ার জন্য অনলাইন পরিষেবায় পাঠানো হবে এবং আপনার আবেদনের সঙ্গে রাখা হবে। আপনি কি এতে সম্মত?',
+  consentAgree: 'হ্যাঁ, আমি সম্মত',
+  consentDecline: 'না',
+  consentDeclined: 'ঠিক আছে, আপনার সম্মতি ছাড়া কিছুই লেখা হবে না।',
+  consentRepeat: 'আবার শোনান',
+  cloudSummary: 'জমা দেওয়ার সময় ক্লাউডে সারাংশ তৈরি করুন',
+  consentLabel: 'সম্মতি',
+  consentScopeConversation: 'কথোপকথন',
+  consentScopeDocuments: 'নথি',
+  consentByVoice: 'মুখে বলে',
+  consentByTap: 'স্ক্রিনে',
+  saveChanges: 'পরিবর্তন সংরক্ষণ করুন',
+  deleteRecord: 'মুছুন',
+  confirmDeleteRecord: 'এই আবেদনটি চিরতরে মুছবেন?',
+  deleteUnsyncedWarning: 'এই আবেদনটি এখনও সার্ভারে পৌঁছায়নি।',
+  amendedOn: 'সংশোধিত: {date}',
+  dataSettings: 'ডেটা সেটিংস',
+  retentionTitle: 'পুরনো ডেটা নিজে থেকে মুছুন',
+  retentionSyncedDays: 'পাঠানো আবেদন, এত দিন পরে',
+  retentionDraftDays: 'অসম্পূর্ণ আবেদন, এত দিন পরে',
+  retentionNever: 'কখনও না',
+  auditLogTitle: 'মোছা ও পরিবর্তনের রেকর্ড',
+  auditEmpty: 'এখনও কিছু মোছা বা বদলানো হয়নি',
+  auditDelete: 'মোছা হয়েছে',
+  auditAmend: 'বদলানো হয়েছে',
+  auditDiscard: 'অসম্পূর্ণ আবেদন বাতিল',
+  auditPurge: 'পুরনো হওয়ায় মোছা হয়েছে',
+  auditClear: 'সব ডেটা মোছা হয়েছে ({count}টি আবেদন)',
+  backToHistory: 'ইতিহাসে ফিরুন',
+  latinSpelling: 'ইংরেজিতে',
+  duplicateTitle: 'সম্ভবত আগেই জমা হয়েছে',
+  duplicateNotice: 'একই নাম, জন্ম তারিখ ও শহরের একটি আবেদন আগেই জমা আছে। একটু অপেক্ষা করুন, অপারেটর আপনার সঙ্গে এটি যাচাই করবেন।',
+  duplicateHint: 'জন্ম তারিখ ও শহর একই এবং নাম প্রায় মিলে যায়। এই আবেদনটি কীভাবে সংরক্ষণ করবেন তা বেছে নিন।',
+  duplicateSubmitted: 'জমা: {date}',
+  linkDuplicate: 'এর সঙ্গে যুক্ত করুন',
+  replaceDuplicate: 'এর বদলে রাখুন',
+  submitAsNew: 'নতুন আবেদন জমা দিন',
+  auditReplace: 'নতুন আবেদন দিয়ে বদলানো হয়েছে',
+  linkedRecord: 'একই ব্যক্তির আগের আবেদনের সঙ্গে যুক্ত',
+  recordChangeFailed: 'এই পরিবর্তনটি করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  duplicateCount: '{count}টি মিলে যাওয়া আবেদন পাওয়া গেছে। দেখতে অপারেটর PIN দিন।',
+  databaseRecord: 'ডেটাবেস রেকর্ড',
+  historyLoadFailed: 'ইতিহাস লোড করা যায়নি। আবার চেষ্টা করুন।',
+  pinLocked: 'অনেকবার ভুল PIN দেওয়া হয়েছে। {minutes} মিনিট পরে আবার চেষ্টা করুন।'
+};
+
+const mr: UIStrings = {
+  appTitle: 'मुख-लिपी AI',
+  language: 'भाषा',
+  history: 'इतिहास',
+  scanDocument: 'कागदपत्र स्कॅन',
+  historyTitle: 'अर्ज इतिहास',
+  noHistory: 'कोणताही इतिहास नाही',
+  clearHistory: 'इतिहास पुसा',
+  confirmClear: 'नक्की पुसायचे आहे?',
+  yes: 'हो',
+  no: 'नाही',
+  greeting: 'नमस्कार!',
+  pressToSpeak: 'बोलणे सुरू करण्यासाठी बटण दाबा.',
+  startConversation: 'संवाद सुरू करा',
+  connectionError: 'कनेक्शनमध्ये त्रुटी आली.',
+  retry: 'पुन्हा प्रयत्न करा',
+  scanning: 'कागदपत्र स्कॅन होत आहे...',
+  stopSpeaking: 'बोलणे थांबवा',
+  preparing: 'तयारी सुरू आहे...',
+  listening: 'ऐकत आहे...',
+  formComplete: 'फॉर्म पूर्ण झाला!',
+  submitBelow: 'खालील बटणाने जमा करा.',
+  edit: 'दुरुस्त करा (Edit)',
+  digitalApplication: 'डिजिटल अर्ज',
+  submitting: 'जमा होत आहे...',
+  submitApplication: 'अर्ज जमा करा',
+  poweredBy: 'Gemini AI द्वारे चालवलेला सुरक्षित अर्ज.',
+  provideInfo: 'माहिती द्या',
+  helpFallback: 'नमस्कार, मी तुमच्या मदतीसाठी येथे आहे.',
+  searchHistory: 'नाव किंवा शहर शोधा',
+  fromDate: 'पासून',
+  toDate: 'पर्यंत',
+  newestFirst: 'नवीन आधी',
+  oldestFirst: 'जुने आधी',
+  loading: 'लोड होत आहे...',
+  exportLabel: 'निर्यात',
+  printPdf: 'प्रिंट / PDF',
+  importData: 'आयात करा',
+  selectedCount: '{count} निवडले',
+  allRecords: 'सर्व नोंदी',
+  importSummary: '{imported} जोडले, {skipped} आधीपासून आहेत, {invalid} अवैध',
+  importFailed: 'फाइल वाचता आली नाही.',
+  syncPending: 'पाठवणे बाकी',
+  syncSynced: 'पाठवले',
+  syncFailed: 'पाठवणे अयशस्वी',
+  retrySync: 'पुन्हा पाठवा',
+  drafts: 'अपूर्ण अर्ज',
+  newApplicant: '+ नवीन अर्जदार',
+  resumeDraft: 'पुढे सुरू ठेवा',
+  discardDraft: 'काढा',
+  unnamedDraft: 'नाव नाही',
+  viewDetails: 'तपशील',
+  summaryTitle: 'सारांश',
+  transcriptTitle: 'संभाषण',
+  noTranscript: 'कोणतेही संभाषण नोंदलेले नाही.',
+  speakerUser: 'अर्जदार',
+  speakerAssistant: 'मुख-लिपी',
+  playTurn: 'ऐका',
+  lockedTitle: 'डिव्हाइस लॉक आहे',
+  enterPin: 'ऑपरेटर PIN टाका',
+  setupPinTitle: 'ऑपरेटर PIN तयार करा',
+  setupPinHint: 'अर्जदारांची माहिती या PIN ने सुरक्षित राहील. PIN विसरल्यास ही माहिती परत मिळू शकत नाही.',
+  currentPin: 'सध्याचा PIN',
+  newPin: 'नवीन PIN',
+  confirmPin: 'PIN पुन्हा टाका',
+  unlock: 'उघडा',
+  savePin: 'जतन करा',
+  changePin: 'PIN बदला',
+  lockNow: 'लॉक करा',
+  cancel: 'रद्द करा',
+  wrongPin: 'चुकीचा PIN',
+  pinMismatch: 'दोन्ही PIN जुळत नाहीत',
+  pinInvalid: 'PIN मध्ये 4 ते 8 अंक असावेत',
+  pinWorking: 'कृपया थांबा...',
+  sourceVoice: '🎤 बोलून',
+  sourceDocument: '📄 कागदपत्रातून',
+  lowConfidence: 'कृपया तपासा',
+  confidenceLevel: '{percent}% खात्री',
+  sourceTyped: 'टाइप केले',
+  tapToCorrect: 'दुरुस्त करण्यासाठी टॅप करा',
+  correctingField: '{field} दुरुस्त करा',
+  oldValue: 'जुने',
+  newValue: 'नवीन',
+  sayNewValue: 'नवीन उत्तर बोला…',
+  replaceValue: 'हो, बदला',
+  keepOldValue: 'जुने ठेवा',
+  typeInstead: 'किंवा इथे टाइप करा',
+  saveTyped: 'जतन करा',
+  invalidValue: 'हे उत्तर बरोबर वाटत नाही',
+  docTypeAadhaar: 'आधार कार्ड',
+  docTypePan: 'PAN कार्ड',
+  docTypeVoterId: 'मतदार ओळखपत्र',
+  docTypeOther: 'इतर कागदपत्र',
+  reviewScan: 'स्कॅन तपासा',
+  documentNumber: 'कागदपत्र क्रमांक',
+  numberInvalid: 'क्रमांक बरोबर नाही',
+  addToForm: 'फॉर्ममध्ये जोडा',
+  scanFailed: 'कागदपत्र वाचता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+  unsupportedFile: 'एक PDF किंवा कार्डच्या पुढच्या-मागच्या बाजूचे दोन फोटो निवडा',
+  fileTooLarge: 'फाइल खूप मोठी आहे',
+  documentsTitle: 'कागदपत्रे',
+  nothingExtracted: 'कागदपत्रातून कोणतीही माहिती मिळाली नाही',
+  cameraHint: 'कार्ड चौकटीच्या आत ठेवा',
+  guideDark: 'प्रकाश कमी आहे, उजेडात जा',
+  guideBright: 'प्रकाश खूप जास्त आहे, थोडे सावलीत जा',
+  guideGlare: 'कार्डवर चमक आहे, कार्ड थोडे तिरके करा',
+  guideBlurry: 'फोटो धूसर आहे, फोन स्थिर ठेवा',
+  guideReady: 'ठीक आहे, आता फोटो घ्या',
+  capturePhoto: 'फोटो घ्या',
+  retake: 'पुन्हा घ्या',
+  addBackSide: 'मागच्या बाजूचा फोटो घ्या',
+  usePhotos: 'वापरा',
+  chooseFile: 'फाइल निवडा',
+  cameraUnavailable: 'कॅमेरा उघडता आला नाही',
+  reconnecting: 'नेटवर्क तुटले आहे, आम्ही पुन्हा जोडत आहोत. कृपया थांबा.',
+  thinking: 'विचार करत आहे...',
+  readingAloud: 'फॉर्म वाचून दाखवत आहे...',
+  demoMode: 'प्रशिक्षण डेमो',
+  tryDemo: 'डेमो चालवा',
+  exitDemo: 'डेमो बंद करा',
+  demoNotice: 'डेमोमध्ये काहीही जतन किंवा पाठवले जात नाही',
+  kioskMode: 'कियोस्क मोड',
+  operator: 'ऑपरेटर',
+  operatorPanel: 'ऑपरेटर पॅनेल',
+  queueTitle: 'रांग',
+  addApplicant: '+ अर्जदार जोडा',
+  callApplicant: 'बोलवा',
+  tokenNumber: 'टोकन {n}',
+  exitKiosk: 'कियोस्क मोड बंद करा',
+  queueEmpty: 'रांगेत कोणी नाही',
+  consentTitle: 'तुमची संमती',
+  consentConversation: 'हा फॉर्म भरण्यासाठी आपले संभाषण रेकॉर्ड केले जाईल आणि तुमची माहिती या डिव्हाइसवर सुरक्षित ठेवली जाईल. अर्ज जमा झाल्यावर ही माहिती संबंधित विभागाकडे पाठवली जाईल. तुम्ही यासाठी सहमत आहात का?',
+  consentDocuments: 'तुमच्या कागदपत्राचा फोटो माहिती वाचण्यासाठी ऑनलाइन सेवेकडे पाठवला जाईल आणि तुमच्या अर्जासोबत ठेवला जाईल. तुम्ही यासाठी सहमत आहात का?',
+  consentAgree: 'हो, मी सहमत आहे',
+  consentDecline: 'नाही',
+  consentDeclined: 'ठीक आहे, तुमच्या संमतीशिवाय काहीही नोंदवले जाणार नाही.',
+  consentRepeat: 'पुन्हा ऐकवा',
+  cloudSummary: 'जमा करताना क्लाउडवर सारांश तयार करा',
+  consentLabel: 'संमती',
+  consentScopeConversation: 'संभाषण',
+  consentScopeDocuments: 'कागदपत्र',
+  consentByVoice: 'बोलून',
+  consentByTap: 'स्क्रीनवर',
+  saveChanges: 'बदल जतन करा',
+  deleteRecord: 'हटवा',
+  confirmDeleteRecord: 'हा अर्ज कायमचा हटवायचा?',
+  deleteUnsyncedWarning: 'हा अर्ज अजून सर्व्हरपर्यंत पोहोचलेला नाही.',
+  amendedOn: 'दुरुस्ती: {date}',
+  dataSettings: 'डेटा सेटिंग्ज',
+  retentionTitle: 'जुना डेटा आपोआप हटवा',
+  retentionSyncedDays: 'पाठवलेले अर्ज, इतक्या दिवसांनी',
+  retentionDraftDays: 'अपूर्ण अर्ज, इतक्या दिवसांनी',
+  retentionNever: 'कधीच नाही',
+  auditLogTitle: 'हटवणे आणि बदलांची नोंद',
+  auditEmpty: 'अजून काहीही हटवले किंवा बदलले नाही',
+  auditDelete: 'हटवला',
+  auditAmend: 'बदलला',
+  auditDiscard: 'अपूर्ण अर्ज सोडला',
+  auditPurge: 'जुना झाल्याने हटवला',
+  auditClear: 'सर्व डेटा पुसला ({count} अर्ज)',
+  backToHistory: 'इतिहासाकडे परत',
+  latinSpelling: 'इंग्रजीत',
+  duplicateTitle: 'कदाचित आधीच जमा',
+  duplicateNotice: 'याच नावाचा, जन्मतारखेचा आणि शहराचा एक अर्ज आधीच जमा आहे. कृपया थोडे थांबा, ऑपरेटर तुमच्यासोबत तो तपासतील.',
+  duplicateHint: 'जन्मतारीख आणि शहर तेच आहेत आणि नाव जवळजवळ जुळते. हा अर्ज कसा जतन करायचा ते निवडा.',
+  duplicateSubmitted: 'जमा: {date}',
+  linkDuplicate: 'याच्याशी जोडा',
+  replaceDuplicate: 'याच्या जागी ठेवा',
+  submitAsNew: 'नवीन अर्ज जमा करा',
+  auditReplace: 'नवीन अर्जाने बदलला',
+  linkedRecord: 'याच व्यक्तीच्या जुन्या अर्जाशी जोडलेला',
+  recordChangeFailed: 'हा बदल होऊ शकला नाही. कृपया पुन्हा प्रयत्न करा.',
+  duplicateCount: '{count} मिळतेजुळते अर्ज सापडले. पाहण्यासाठी ऑपरेटर PIN टाका.',
+  databaseRecord: 'डेटाबेस नोंद',
+  historyLoadFailed: 'इतिहास लोड होऊ शकला नाही. कृपया पुन्हा प्रयत्न करा.',
+  pinLocked: 'खूप वेळा चुकीचा PIN टाकला. {minutes} मिनिटांनी पुन्हा प्रयत्न करा.'
+};
+
+const ta: UIStrings = {
+  appTitle: 'முக-லிபி AI',
+  language: 'மொழி',
+  history: 'வரலாறு',
+  scanDocument: 'ஆவணம் ஸ்கேன்',
+  historyTitle: 'விண்ணப்ப வரலாறு',
+  noHistory: 'வரலாறு இல்லை',
+  clearHistory: 'வரலாற்றை அழி',
+  confirmClear: 'உறுதியாக அழிக்கவா?',
+  yes: 'ஆம்',
+  no: 'இல்லை',
+  greeting: 'வணக்கம்!',
+  pressToSpeak: 'பேசத் தொடங்க பொத்தானை அழுத்தவும்.',
+  startConversation: 'உரையாடலைத் தொடங்கு',
+  connectionError: 'இணைப்பில் பிழை ஏற்பட்டது.',
+  retry: 'மீண்டும் முயற்சி செய்',
+  scanning: 'ஆவணம் ஸ்கேன் ஆகிறது...',
+  stopSpeaking: 'பேசுவதை நிறுத்து',
+  preparing: 'தயாராகிறது...',
+  listening: 'கேட்கிறேன்...',
+  formComplete: 'படிவம் முடிந்தது!',
+  submitBelow: 'கீழே உள்ள பொத்தானால் சமர்ப்பிக்கவும்.',
+  edit: 'திருத்து (Edit)',
+  digitalApplication: 'டிஜிட்டல் விண்ணப்பம்',
+  submitting: 'சமர்ப்பிக்கப்படுகிறது...',
+  submitApplication: 'விண்ணப்பத்தைச் சமர்ப்பி',
+  poweredBy: 'Gemini AI மூலம் இயங்கும் பாதுகாப்பான விண்ணப்பம்.',
+  provideInfo: 'தகவல் தரவும்',
+  helpFallback: 'வணக்கம், உங்களுக்கு உதவ நான் இங்கே இருக்கிறேன்.',
+  searchHistory: 'பெயர் அல்லது நகரம் தேடு',
+  fromDate: 'முதல்',
+  toDate: 'வரை',
+  newestFirst: 'புதியவை முதலில்',
+  oldestFirst: 'பழையவை முதலில்',
+  loading: 'ஏற்றுகிறது...',
+  exportLabel: 'ஏற்றுமதி',
+  printPdf: 'அச்சு / PDF',
+  importData: 'இறக்குமதி',
+  selectedCount: '{count} தேர்ந்தெடுக்கப்பட்டது',
+  allRecords: 'அனைத்து பதிவுகள்',
+  importSummary: '{imported} சேர்க்கப்பட்டன, {skipped} ஏற்கனவே உள்ளன, {invalid} தவறானவை',
+  importFailed: 'கோப்பைப் படிக்க முடியவில்லை.',
+  syncPending: 'அனுப்ப வேண்டியது',
+  syncSynced: 'அனுப்பப்பட்டது',
+  syncFailed: 'அனுப்புதல் தோல்வி',
+  retrySync: 'மீண்டும் அனுப்பு',
+  drafts: 'முடிக்காத விண்ணப்பங்கள்',
+  newApplicant: '+ புதிய விண்ணப்பதாரர்',
+  resumeDraft: 'தொடரவும்',
+  discardDraft: 'நீக்கு',
+  unnamedDraft: 'பெயர் இல்லை',
+  viewDetails: 'விவரங்கள்',
+  summaryTitle: 'சுருக்கம்',
+  transcriptTitle: 'உரையாடல்',
+  noTranscript: 'உரையாடல் எதுவும் பதிவு செய்யப்படவில்லை.',
+  speakerUser: 'விண்ணப்பதாரர்',
+  speakerAssistant: 'முக-லிபி',
+  playTurn: 'கேளுங்கள்',
+  lockedTitle: 'சாதனம் பூட்டப்பட்டுள்ளது',
+  enterPin: 'ஆபரேட்டர் PIN ஐ உள்ளிடவும்',
+  setupPinTitle: 'ஆபரேட்டர் PIN ஐ உருவாக்கவும்',
+  setupPinHint: 'விண்ணப்பதாரர் தகவல் இந்த PIN மூலம் பாதுகாக்கப்படும். PIN மறந்தால் இந்தத் தகவலைத் திரும்பப் பெற முடியாது.',
+  currentPin: 'தற்போதைய PIN',
+  newPin: 'புதிய PIN',
+  confirmPin: 'PIN ஐ மீண்டும் உள்ளிடவும்',
+  unlock: 'திற',
+  savePin: 'சேமி',
+  changePin: 'PIN ஐ மாற்று',
+  lockNow: 'பூட்டு',
+  cancel: 'ரத்து',
+  wrongPin: 'தவறான PIN',
+  pinMismatch: 'இரண்டு PIN களும் பொருந்தவில்லை',
+  pinInvalid: 'PIN இல் 4 முதல் 8 இலக்கங்கள் இருக்க வேண்டும்',
+  pinWorking: 'தயவுசெய்து காத்திருக்கவும்...',
+  sourceVoice: '🎤 பேசியது',
+  sourceDocument: '📄 ஆவணத்திலிருந்து',
+  lowConfidence: 'சரிபார்க்கவும்',
+  confidenceLevel: '{percent}% நம்பகத்தன்மை',
+  sourceTyped: 'தட்டச்சு',
+  tapToCorrect: 'திருத்த தட்டவும்',
+  correctingField: '{field} திருத்து',
+  oldValue: 'பழையது',
+  newValue: 'புதியது',
+  sayNewValue: 'புதிய பதிலைச் சொல்லுங்கள்…',
+  replaceValue: 'ஆம், மாற்று',
+  keepOldValue: 'பழையதை வைத்திரு',
+  typeInstead: 'அல்லது இங்கே தட்டச்சு செய்யவும்',
+  saveTyped: 'சேமி',
+  invalidValue: 'இந்த பதில் சரியாகத் தெரியவில்லை',
+  docTypeAadhaar: 'ஆதார் அட்டை',
+  docTypePan: 'PAN அட்டை',
+  docTypeVoterId: 'வாக்காளர் அடையாள அட்டை',
+  docTypeOther: 'பிற ஆவணம்',
+  reviewScan: 'ஸ்கேனைச் சரிபார்க்கவும்',
+  documentNumber: 'ஆவண எண்',
+  numberInvalid: 'எண் சரியில்லை',
+  addToForm: 'படிவத்தில் சேர்',
+  scanFailed: 'ஆவணத்தைப் படிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  unsupportedFile: 'ஒரு PDF அல்லது அட்டையின் முன்/பின் இரண்டு படங்களைத் தேர்ந்தெடுக்கவும்',
+  fileTooLarge: 'கோப்பு மிகப் பெரியது',
+  documentsTitle: 'ஆவணங்கள்',
+  nothingExtracted: 'ஆவணத்திலிருந்து எந்தத் தகவலும் கிடைக்கவில்லை',
+  cameraHint: 'அட்டையைச் சட்டத்திற்குள் வைக்கவும்',
+  guideDark: 'வெளிச்சம் குறைவு, வெளிச்சத்திற்குச் செல்லவும்',
+  guideBright: 'வெளிச்சம் அதிகம், சற்று நிழலுக்குச் செல்லவும்',
+  guideGlare: 'அட்டையில் பளபளப்பு உள்ளது, அட்டையைச் சற்று சாய்க்கவும்',
+  guideBlurry: 'படம் மங்கலாக உள்ளது, கைபேசியை அசையாமல் பிடிக்கவும்',
+  guideReady: 'சரி, இப்போது படம் எடுக்கவும்',
+  capturePhoto: 'படம் எடு',
+  retake: 'மீண்டும் எடு',
+  addBackSide: 'பின்பக்கப் படம் எடு',
+  usePhotos: 'பயன்படுத்து',
+  chooseFile: 'கோப்பைத் தேர்ந்தெடு',
+  cameraUnavailable: 'கேமராவைத் திறக்க முடியவில்லை',
+  reconnecting: 'இணைப்பு துண்டிக்கப்பட்டது, மீண்டும் இணைக்கிறோம். சற்று காத்திருங்கள்.',
+  thinking: 'யோசிக்கிறேன்...',
+  readingAloud: 'படிவம் வாசிக்கப்படுகிறது...',
+  demoMode: 'பயிற்சி டெமோ',
+  tryDemo: 'டெமோவை இயக்கு',
+  exitDemo: 'டெமோவை நிறுத்து',
+  demoNotice: 'டெமோவில் எதுவும் சேமிக்கப்படவோ அனுப்பப்படவோ இல்லை',
+  kioskMode: 'கியோஸ்க் பயன்முறை',
+  operator: 'இயக்குநர்',
+  operatorPanel: 'இயக்குநர் பலகம்',
+  queueTitle: 'வரிசை',
+  addApplicant: '+ விண்ணப்பதாரரைச் சேர்',
+  callApplicant: 'அழை',
+  tokenNumber: 'டோக்கன் {n}',
+  exitKiosk: 'கியோஸ்க் பயன்முறையிலிருந்து வெளியேறு',
+  queueEmpty: 'வரிசையில் யாரும் இல்லை',
+  consentTitle: 'உங்கள் ஒப்புதல்',
+  consentConversation: 'இந்தப் படிவத்தை நிரப்ப நமது உரையாடல் பதிவு செய்யப்படும், உங்கள் தகவல் இந்தச் சாதனத்தில் பாதுகாப்பாக வைக்கப்படும். விண்ணப்பம் சமர்ப்பிக்கப்பட்டதும் இந்தத் தகவல் சம்பந்தப்பட்ட துறைக்கு அனுப்பப்படும். இதற்கு நீங்கள் ஒப்புக்கொள்கிறீர்களா?',
+  consentDocuments: 'உங்கள் ஆவணத்தின் புகைப்படம் தகவலைப் படிக்க ஆன்லைன் சேவைக்கு அனுப்பப்பட்டு உங்கள் விண்ணப்பத்துடன் வைக்கப்படும். இதற்கு நீங்கள் ஒப்புக்கொள்கிறீர்களா?',
+  consentAgree: 'ஆம், ஒப்புக்கொள்கிறேன்',
+  consentDecline: 'இல்லை',
+  consentDeclined: 'சரி, உங்கள் ஒப்புதல் இல்லாமல் எதுவும் பதிவு செய்யப்படாது.',
+  consentRepeat: 'மீண்டும் கேட்க',
+  cloudSummary: 'சமர்ப்பிக்கும்போது கிளவுடில் சுருக்கம் உருவாக்கு',
+  consentLabel: 'ஒப்புதல்',
+  consentScopeConversation: 'உரையாடல்',
+  consentScopeDocuments: 'ஆவணம்',
+  consentByVoice: 'பேசி',
+  consentByTap: 'திரையில்',
+  saveChanges: 'மாற்றங்களைச் சேமி',
+  deleteRecord: 'நீக்கு',
+  confirmDeleteRecord: 'இந்த விண்ணப்பத்தை நிரந்தரமாக நீக்கவா?',
+  deleteUnsyncedWarning: 'இந்த விண்ணப்பம் இன்னும் சர்வரை அடையவில்லை.',
+  amendedOn: 'திருத்தப்பட்டது: {date}',
+  dataSettings: 'தரவு அமைப்புகள்',
+  retentionTitle: 'பழைய தரவைத் தானாக நீக்கு',
+  retentionSyncedDays: 'அனுப்பப்பட்ட விண்ணப்பங்கள், இத்தனை நாட்களுக்குப் பிறகு',
+  retentionDraftDays: 'முழுமையடையாத விண்ணப்பங்கள், இத்தனை நாட்களுக்குப் பிறகு',
+  retentionNever: 'ஒருபோதும் இல்லை',
+  auditLogTitle: 'நீக்கம் மற்றும் மாற்றப் பதிவு',
+  auditEmpty: 'இதுவரை எதுவும் நீக்கப்படவோ மாற்றப்படவோ இல்லை',
+  auditDelete: 'நீக்கப்பட்டது',
+  auditAmend: 'மாற்றப்பட்டது',
+  auditDiscard: 'முழுமையடையாத விண்ணப்பம் கைவிடப்பட்டது',
+  auditPurge: 'பழையதானதால் நீக்கப்பட்டது',
+  auditClear: 'அனைத்து தரவும் அழிக்கப்பட்டது ({count} விண்ணப்பங்கள்)',
+  backToHistory: 'வரலாற்றுக்குத் திரும்பு',
+  latinSpelling: 'ஆங்கிலத்தில்',
+  duplicateTitle: 'ஏற்கனவே சமர்ப்பிக்கப்பட்டிருக்கலாம்',
+  duplicateNotice: 'இதே பெயர், பிறந்த தேதி மற்றும் ஊருடன் ஒரு விண்ணப்பம் ஏற்கனவே சமர்ப்பிக்கப்பட்டுள்ளது. சற்று காத்திருங்கள், இயக்குநர் உங்களுடன் இதைச் சரிபார்ப்பார்.',
+  duplicateHint: 'பிறந்த தேதியும் ஊரும் ஒன்றே, பெயர் ஏறக்குறைய பொருந்துகிறது. இந்த விண்ணப்பத்தை எப்படிச் சேமிப்பது என்று தேர்ந்தெடுக்கவும்.',
+  duplicateSubmitted: 'சமர்ப்பிக்கப்பட்டது: {date}',
+  linkDuplicate: 'இதனுடன் இணை',
+  replaceDuplicate: 'இதற்குப் பதிலாக வை',
+  submitAsNew: 'புதிய விண்ணப்பமாகச் சமர்ப்பி',
+  auditReplace: 'புதிய விண்ணப்பத்தால் மாற்றப்பட்டது',
+  linkedRecord: 'இதே நபரின் முந்தைய விண்ணப்பத்துடன் இணைக்கப்பட்டது',
+  recordChangeFailed: 'இந்த மாற்றத்தைச் செய்ய முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  duplicateCount: '{count} ஒத்த விண்ணப்பங்கள் கண்டறியப்பட்டன. பார்க்க ஆபரேட்டர் PIN-ஐ உள்ளிடவும்.',
+  databaseRecord: 'தரவுத்தளப் பதிவு',
+  historyLoadFailed: 'வரலாற்றை ஏற்ற முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  pinLocked: 'பலமுறை தவறான PIN உள்ளிடப்பட்டது. {minutes} நிமிடங்களுக்குப் பிறகு மீண்டும் முயற்சிக்கவும்.'
+};
+
+export interface LanguageConfig {
+  code: LanguageCode;
+  nativeName: string;
+  englishName: string;
+  fontFamily: string;
+  voiceName: string;
+  /** Question the assistant asks after reading back a complete form */
+  confirmQuestion: string;
+  /** Sentence the assistant says once the form has been submitted */
+  closingPhrase: string;
+  emptyWord: string;
+  strings: UIStrings;
+}
+
+export const LANGUAGES: LanguageConfig[] = [
+  {
+    code: 'hi',
+    nativeName: 'हिन्दी',
+    englishName: 'Hindi',
+    fontFamily: "'Noto Sans Devanagari', sans-serif",
+    voiceName: 'Kore',
+    confirmQuestion: 'Kya main ise jama kar doon?',
+    closingPhrase: 'Dhanyavaad, aapka form jama ho gaya hai.',
+    emptyWord: 'khaali',
+    strings: hi
+  },
+  {
+    code: 'pa',
+    nativeName: 'ਪੰਜਾਬੀ',
+    englishName: 'Punjabi',
+    fontFamily: "'Noto Sans Gurmukhi', sans-serif",
+    voiceName: 'Puck',
+    confirmQuestion: 'ਕੀ ਮੈਂ ਇਸਨੂੰ ਜਮ੍ਹਾਂ ਕਰ ਦਿਆਂ?',
+    closingPhrase: 'ਧੰਨਵਾਦ, ਤੁਹਾਡਾ ਫਾਰਮ ਜਮ੍ਹਾਂ ਹੋ ਗਿਆ ਹੈ।',
+    emptyWord: 'ਖਾਲੀ',
+    strings: pa
+  },
+  {
+    code: 'bn',
+    nativeName: 'বাংলা',
+    englishName: 'Bengali',
+    fontFamily: "'Noto Sans Bengali', sans-serif",
+    voiceName: 'Kore',
+    confirmQuestion: 'আমি কি এটি জমা দেব?',
+    closingPhrase: 'ধন্যবাদ, আপনার ফর্ম জমা হয়েছে।',
+    emptyWord: 'খালি',
+    strings: bn
+  },
+  {
+    code: 'mr',
+    nativeName: 'मराठी',
+    englishName: 'Marathi',
+    fontFamily: "'Noto Sans Devanagari', sans-serif",
+    voiceName: 'Charon',
+    confirmQuestion: 'मी हे जमा करू का?',
+    closingPhrase: 'धन्यवाद, तुमचा फॉर्म जमा झाला आहे.',
+    emptyWord: 'रिकामे',
+    strings: mr
+  },
+  {
+    code: 'ta',
+    nativeName: 'தமிழ்',
+    englishName: 'Tamil',
+    fontFamily: "'Noto Sans Tamil', sans-serif",
+    voiceName: 'Aoede',
+    confirmQuestion: 'நான் இதைச் சமர்ப்பிக்கலாமா?',
+    closingPhrase: 'நன்றி, உங்கள் படிவம் சமர்ப்பிக்கப்பட்டது.',
+    emptyWord: 'காலி',
+    strings: ta
+  }
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'hi';
+
+export function getLanguage(code: string | null | undefined): LanguageConfig {
+  return LANGUAGES.find(l => l.code === code) || LANGUAGES.find(l => l.code === DEFAULT_LANGUAGE)!;
+}
+
+/** Fills `{name}` placeholders in a UI string */
+export function formatString(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in vars ? String(vars[key]) : match));
+}
+
+export function sourceLabel(strings: UIStrings, source: FieldSource): string {
+  if (source === 'document') return strings.sourceDocument;
+  if (source === 'typed') return strings.sourceTyped;
+  return strings.sourceVoice;
+}
+
+export function auditActionLabel(strings: UIStrings, action: AuditAction): string {
+  switch (action) {
+    case 'delete': return strings.auditDelete;
+    case 'amend': return strings.auditAmend;
+    case 'discard': return strings.auditDiscard;
+    case 'purge': return strings.auditPurge;
+    case 'clear': return strings.auditClear;
+    case 'replace': return strings.auditReplace;
+  }
+}
+
+export function documentTypeLabel(strings: UIStrings, type: DocumentType): string {
+  switch (type) {
+    case 'aadhaar': return strings.docTypeAadhaar;
+    case 'pan': return strings.docTypePan;
+    case 'voter_id': return strings.docTypeVoterId;
+    default: return strings.docTypeOther;
+  }
+}
+
+// --- Per-language Prompts ---
+export function buildHelpPrompt(language: LanguageConfig): string {
+  return `Give a 2-sentence simple ${language.englishName} guide on how to use Mukh-Lipi form assistant for an illiterate user.`;
+}
+
+/** Aadhaar and mobile numbers are masked here, so no summary call can see them */
+export function buildSummaryPrompt(language: LanguageConfig, transcriptions: TranscriptionRecord[]): string {
+  return `Summarize this ${language.englishName} form session transcription into a clean final application note, written in ${language.englishName}: ${transcriptions.map(t => redactIdentifiers(t.text)).join(" ")}`;
+}
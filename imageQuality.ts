@@ -0,0 +1,170 @@
+/**
+ * On-device checks and corrections for camera captures, run before anything is
+ * sent for extraction. Everything works on a grayscale copy of the frame.
+ */
+
+export type QualityIssue = 'dark' | 'bright' | 'glare' | 'blurry';
+
+export interface QualityReport {
+  /** Mean luminance, 0–255 */
+  brightness: number;
+  /** Share of pixels blown out to near-white */
+  glareRatio: number;
+  /** Variance of the Laplacian; higher is sharper */
+  sharpness: number;
+  issues: QualityIssue[];
+}
+
+export interface Gray {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Tuned on phone captures of ID cards at ANALYSIS_WIDTH
+const MIN_BRIGHTNESS = 70;
+const MAX_BRIGHTNESS = 215;
+const GLARE_LEVEL = 250;
+const MAX_GLARE_RATIO = 0.02;
+const MIN_SHARPNESS = 60;
+const MAX_SKEW_DEGREES = 12;
+
+/** Frames are scaled to this width for analysis so thresholds don't depend on the camera */
+export const ANALYSIS_WIDTH = 480;
+
+export function toGray(image: ImageData): Gray {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width, height };
+}
+
+function laplacianVariance({ data, width, height }: Gray): number {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+export function assessQuality(gray: Gray): QualityReport {
+  let total = 0;
+  let glare = 0;
+  gray.data.forEach(v => {
+    total += v;
+    if (v >= GLARE_LEVEL) glare++;
+  });
+  const brightness = total / gray.data.length;
+  const glareRatio = glare / gray.data.length;
+  const sharpness = laplacianVariance(gray);
+
+  const issues: QualityIssue[] = [];
+  if (brightness < MIN_BRIGHTNESS) issues.push('dark');
+  else if (brightness > MAX_BRIGHTNESS) issues.push('bright');
+  if (glareRatio > MAX_GLARE_RATIO) issues.push('glare');
+  // A dark frame is always soft; only report blur once the light is fine
+  if (sharpness < MIN_SHARPNESS && !issues.includes('dark')) issues.push('blurry');
+  return { brightness, glareRatio, sharpness, issues };
+}
+
+/** Gradient magnitude per pixel (Sobel), zero on the border */
+function edgeMap({ data, width, height }: Gray): Float32Array {
+  const edges = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = data[i - width + 1] + 2 * data[i + 1] + data[i + width + 1] - data[i - width - 1] - 2 * data[i - 1] - data[i + width - 1];
+      const gy = data[i + width - 1] + 2 * data[i + width] + data[i + width + 1] - data[i - width - 1] - 2 * data[i - width] - data[i - width + 1];
+      edges[i] = Math.hypot(gx, gy);
+    }
+  }
+  return edges;
+}
+
+/**
+ * Bounding box of the document inside the frame: rows and columns at the edges
+ * with little detail are trimmed. Falls back to the whole frame if the result
+ * is implausibly small.
+ */
+export function findContentBounds(gray: Gray): Rect {
+  const { width, height } = gray;
+  const edges = edgeMap(gray);
+  const rows = new Float32Array(height);
+  const cols = new Float32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const e = edges[y * width + x];
+      rows[y] += e;
+      cols[x] += e;
+    }
+  }
+  const trim = (profile: Float32Array): [number, number] => {
+    const threshold = 0.2 * profile.reduce((a, b) => a + b, 0) / profile.length;
+    let start = 0;
+    let end = profile.length - 1;
+    while (start < end && profile[start] < threshold) start++;
+    while (end > start && profile[end] < threshold) end--;
+    return [start, end];
+  };
+  const [top, bottom] = trim(rows);
+  const [left, right] = trim(cols);
+  const bounds = { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  if (bounds.width * bounds.height < 0.5 * width * height) return { x: 0, y: 0, width, height };
+  return bounds;
+}
+
+/**
+ * Skew angle in degrees, found by rotating strong edge points and picking the
+ * angle whose horizontal projection is most peaked (printed lines line up).
+ */
+export function estimateSkew(gray: Gray): number {
+  const { width, height } = gray;
+  const edges = edgeMap(gray);
+  const threshold = 4 * edges.reduce((a, b) => a + b, 0) / edges.length;
+  const points: [number, number][] = [];
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      if (edges[y * width + x] > threshold) points.push([x - width / 2, y - height / 2]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let deg = -MAX_SKEW_DEGREES; deg <= MAX_SKEW_DEGREES; deg += 0.5) {
+    const rad = (deg * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const bins = new Float32Array(diagonal);
+    points.forEach(([x, y]) => {
+      const row = Math.round(y * cos - x * sin + diagonal / 2);
+      if (row >= 0 && row < diagonal) bins[row]++;
+    });
+    const score = bins.reduce((a, b) => a + b * b, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = deg;
+    }
+  }
+  return bestAngle;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { AIProvider, LiveSession, LiveSessionCallbacks, ToolResponse } from './aiProvider';
+import { LiveConnectionStatus, LiveSessionManager } from './liveSessionManager';
+
+/** A provider whose socket opens and asks for a tool before connectLive resolves, as a fast server can */
+const eagerProvider = (sent: ToolResponse[]): AIProvider => ({
+  name: 'stub',
+  isAvailable: () => true,
+  requestAccess: async () => true,
+  connectLive: async (_config, callbacks: LiveSessionCallbacks): Promise<LiveSession> => {
+    callbacks.onopen();
+    callbacks.onmessage({ toolCall: { functionCalls: [{ id: 'call-1', name: 'record_consent', args: { agreed: true } }] } });
+    return {
+      sendRealtimeInput: () => {},
+      sendToolResponse: ({ functionResponses }) => { sent.push(...[functionResponses].flat()); },
+      sendClientContent: () => {},
+      close: () => {}
+    };
+  },
+  extractDocument: async () => ({}),
+  generateText: async () => '',
+  synthesizeSpeech: async () => null
+});
+
+describe('LiveSessionManager', () => {
+  it('holds events that arrive before the session is assigned, so replies to them are sent', async () => {
+    const sent: ToolResponse[] = [];
+    const statuses: LiveConnectionStatus[] = [];
+    let openWhenAnnounced = false;
+    const manager: LiveSessionManager = new LiveSessionManager({
+      provider: eagerProvider(sent),
+      buildConfig: () => ({ systemInstruction: '', tools: [], voiceName: 'Kore' }),
+      onStatus: status => {
+        statuses.push(status);
+        if (status === 'open') openWhenAnnounced = manager.isOpen;
+      },
+      onMessage: message => {
+        message.toolCall?.functionCalls?.forEach(fc => manager.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result: 'ok' } } }));
+      }
+    });
+    manager.start();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(statuses).toEqual(['connecting', 'open']);
+    expect(openWhenAnnounced).toBe(true);
+    expect(sent).toEqual([{ id: 'call-1', name: 'record_consent', response: { result: 'ok' } }]);
+    manager.close();
+  });
+});
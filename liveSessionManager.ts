@@ -0,0 +1,149 @@
+import { AIProvider, LiveMessage, LiveSession, LiveSessionConfig, ToolResponse } from './aiProvider';
+import { backoffDelay } from './backoff';
+
+// Roughly 1s, 2s, 4s… capped at fifteen seconds; a conversation can't wait minutes
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+export type LiveConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'failed';
+
+export interface LiveSessionManagerOptions {
+  provider: AIProvider;
+  /** Called before every connect, so a reconnect carries the latest form state and transcript */
+  buildConfig: (isReconnect: boolean) => LiveSessionConfig;
+  /** `attempt` counts reconnects since the connection was last open */
+  onStatus: (status: LiveConnectionStatus, attempt: number) => void;
+  onMessage: (message: LiveMessage) => void;
+}
+
+/**
+ * Keeps a Live conversation alive across dropped connections. Any close or error
+ * that wasn't asked for is treated as a drop and retried with backoff, waiting
+ * for the network to come back first. Callbacks from superseded sockets are ignored.
+ */
+export class LiveSessionManager implements LiveSession {
+  private session: LiveSession | null = null;
+  private attempts = 0;
+  private stopped = true;
+  // Bumped whenever a socket is abandoned, so its late callbacks are ignored
+  private generation = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onlineListener: (() => void) | null = null;
+
+  constructor(private options: LiveSessionManagerOptions) {}
+
+  get isOpen(): boolean {
+    return !!this.session;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.attempts = 0;
+    this.connect(false);
+  }
+
+  /** Ends the conversation for good; no reconnect follows */
+  close(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.generation++;
+    this.clearPending();
+    const session = this.session;
+    this.session = null;
+    try { session?.close(); } catch (e) {}
+    this.options.onStatus('closed', 0);
+  }
+
+  sendRealtimeInput(params: { media: { data: string; mimeType: string } }): void {
+    try { this.session?.sendRealtimeInput(params); } catch (e) {}
+  }
+
+  sendToolResponse(params: { functionResponses: ToolResponse | ToolResponse[] }): void {
+    try { this.session?.sendToolResponse(params); } catch (e) {}
+  }
+
+  sendClientContent(params: { turns: string; turnComplete?: boolean }): void {
+    try { this.session?.sendClientContent(params); } catch (e) {}
+  }
+
+  private async connect(isReconnect: boolean): Promise<void> {
+    const generation = ++this.generation;
+    const isCurrent = () => !this.stopped && generation === this.generation;
+    // Reconnects were already announced by drop()
+    if (!isReconnect) this.options.onStatus('connecting', 0);
+    // The socket can open and deliver messages before connectLive resolves; hold those
+    // events until the session is assigned, or anything sent in reply would be dropped
+    let isAssigned = false;
+    const early: (() => void)[] = [];
+    const whenAssigned = (run: () => void) => (isAssigned ? run() : early.push(run));
+    try {
+      const session = await this.options.provider.connectLive(this.options.buildConfig(isReconnect), {
+        onopen: () => {
+          if (!isCurrent()) return;
+          whenAssigned(() => {
+            this.attempts = 0;
+            this.options.onStatus('open', 0);
+          });
+        },
+        onmessage: (message: LiveMessage) => {
+          if (isCurrent()) whenAssigned(() => this.options.onMessage(message));
+        },
+        onerror: (e: ErrorEvent) => {
+          console.error("Live Error:", e);
+          if (isCurrent()) this.drop();
+        },
+        onclose: () => {
+          if (isCurrent()) this.drop();
+        }
+      });
+      if (!isCurrent()) {
+        session.close();
+        return;
+      }
+      this.session = session;
+      isAssigned = true;
+      early.forEach(run => run());
+    } catch (err) {
+      console.error("Session Connect Error:", err);
+      if (isCurrent()) this.drop();
+    }
+  }
+
+  private drop(): void {
+    const session = this.session;
+    this.session = null;
+    this.generation++;
+    try { session?.close(); } catch (e) {}
+    if (this.attempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.stopped = true;
+      this.options.onStatus('failed', this.attempts);
+      return;
+    }
+    this.attempts++;
+    this.options.onStatus('reconnecting', this.attempts);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.whenOnline(() => this.connect(true));
+    }, backoffDelay(this.attempts, BASE_DELAY_MS, MAX_DELAY_MS));
+  }
+
+  private whenOnline(run: () => void): void {
+    if (navigator.onLine) {
+      run();
+      return;
+    }
+    this.onlineListener = () => {
+      this.clearPending();
+      run();
+    };
+    window.addEventListener('online', this.onlineListener);
+  }
+
+  private clearPending(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.onlineListener) window.removeEventListener('online', this.onlineListener);
+    this.onlineListener = null;
+  }
+}
@@ -0,0 +1,13 @@
+import { LanguageCode } from './types';
+
+/**
+ * Speaks a short notice with the device's own voice. Works offline and doesn't
+ * wait on the network, so it suits guidance and connection notices.
+ */
+export function speakLocally(text: string, language: LanguageCode): void {
+  if (!window.speechSynthesis) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = `${language}-IN`;
+  window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,54 @@
+import workletUrl from './micCapture.worklet.ts?worker&url';
+import type { MicCaptureProcessorOptions, MicChunkMessage } from './micCapture.worklet';
+
+export interface MicCaptureOptions {
+  /** Rate the chunks are resampled to, whatever the device runs at */
+  targetRate?: number;
+  /** Length of each delivered chunk */
+  chunkMs?: number;
+  onChunk: (pcm: Int16Array, rms: number) => void;
+}
+
+export const DEFAULT_CAPTURE_RATE = 16000;
+export const DEFAULT_CHUNK_MS = 100;
+
+/**
+ * Mic capture through an AudioWorklet. The context runs at the device's native
+ * rate (many Android browsers ignore a requested rate anyway) and the worklet
+ * resamples, so chunks always arrive at `targetRate`.
+ */
+export class MicCapture {
+  private constructor(
+    private context: AudioContext,
+    private source: MediaStreamAudioSourceNode,
+    private node: AudioWorkletNode
+  ) {}
+
+  static async start(stream: MediaStream, { targetRate = DEFAULT_CAPTURE_RATE, chunkMs = DEFAULT_CHUNK_MS, onChunk }: MicCaptureOptions): Promise<MicCapture> {
+    const context = new AudioContext();
+    try {
+      await context.audioWorklet.addModule(workletUrl);
+      await context.resume();
+      const processorOptions: MicCaptureProcessorOptions = {
+        targetRate,
+        chunkSamples: Math.round((targetRate * chunkMs) / 1000)
+      };
+      // No outputs: the node is a sink and is processed without being wired to the speakers
+      const node = new AudioWorkletNode(context, 'mic-capture', { numberOfInputs: 1, numberOfOutputs: 0, processorOptions });
+      node.port.onmessage = (e: MessageEvent<MicChunkMessage>) => onChunk(new Int16Array(e.data.pcm), e.data.rms);
+      const source = context.createMediaStreamSource(stream);
+      source.connect(node);
+      return new MicCapture(context, source, node);
+    } catch (err) {
+      context.close();
+      throw err;
+    }
+  }
+
+  stop(): void {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.context.close();
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Runs on the audio rendering thread: resamples the mic to the target rate and
+ * posts fixed-size 16-bit PCM chunks, each with its RMS level.
+ */
+import { Resampler, floatTo16BitPCM } from './AudioUtils';
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+declare function registerProcessor(name: string, processor: new (options: { processorOptions: MicCaptureProcessorOptions }) => AudioWorkletProcessor): void;
+
+export interface MicCaptureProcessorOptions {
+  targetRate: number;
+  chunkSamples: number;
+}
+
+export interface MicChunkMessage {
+  pcm: ArrayBuffer;
+  rms: number;
+}
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  private resampler: Resampler;
+  private chunk: Float32Array;
+  private filled = 0;
+
+  constructor(options: { processorOptions: MicCaptureProcessorOptions }) {
+    super(options);
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.resampler = new Resampler(sampleRate, targetRate);
+    this.chunk = new Float32Array(chunkSamples);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+    const samples = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(samples.length - offset, this.chunk.length - this.filled);
+      this.chunk.set(samples.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.chunk.length) this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    let sumSq = 0;
+    for (let i = 0; i < this.chunk.length; i++) sumSq += this.chunk[i] * this.chunk[i];
+    const pcm = floatTo16BitPCM(this.chunk).buffer;
+    const message: MicChunkMessage = { pcm, rms: Math.sqrt(sumSq / this.chunk.length) };
+    this.port.postMessage(message, [pcm]);
+    this.filled = 0;
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
@@ -0,0 +1,175 @@
+import { Draft, FormData } from './types';
+import { DEFAULT_SCHEMA_ID } from './formSchemas';
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Steps that walk existing records return a promise so the next step sees their writes */
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void | Promise<void>;
+}
+
+// The single draft kept in localStorage before drafts moved into IndexedDB
+const LEGACY_DRAFT_KEY = 'current_draft';
+
+// Record keys that are not form values in pre-v2 flat submissions
+const LEGACY_META_KEYS = ['id', 'formType', 'language', 'summary', 'submittedAt'];
+
+const normalizeKey = (s: string) => s.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Visits every record in `store`, resolving once the cursor is exhausted */
+const forEachRecord = (store: IDBObjectStore, visit: (cursor: IDBCursorWithValue) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Denormalized, lower-cased copies of the name and city used by the search indexes.
+ */
+function buildSearchKeys(values: FormData): { nameTokens: string[]; cityKey: string } {
+  const name = normalizeKey(values.fullName || '');
+  return {
+    nameTokens: name ? Array.from(new Set([name, ...name.split(' ')])) : [],
+    cityKey: normalizeKey(values.city || '')
+  };
+}
+
+/** Outbox fields for a record that has never been sent */
+export function newOutboxEntry(idempotencyKey: string = crypto.randomUUID()) {
+  return { idempotencyKey, syncStatus: 'pending' as const, syncAttempts: 0 };
+}
+
+/**
+ * Ordered schema upgrades. Each step runs exactly once, inside the versionchange
+ * transaction, when a device opens the database at an older version.
+ * Never edit a shipped step; append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create submissions store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains('submissions')) {
+        db.createObjectStore('submissions', { keyPath: 'id', autoIncrement: true });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Nest form values, add search keys and indexes',
+    upgrade: (_db, tx) => {
+      const store = tx.objectStore('submissions');
+      store.createIndex('submittedAt', 'submittedAt');
+      store.createIndex('cityKey', 'cityKey');
+      store.createIndex('nameTokens', 'nameTokens', { multiEntry: true });
+
+      return forEachRecord(store, cursor => {
+        const record = cursor.value;
+        if (!record.values) {
+          const values: FormData = {};
+          Object.keys(record).forEach(k => {
+            if (!LEGACY_META_KEYS.includes(k)) values[k] = record[k];
+          });
+          cursor.update({
+            id: record.id,
+            formType: record.formType || DEFAULT_SCHEMA_ID,
+            language: record.language,
+            summary: record.summary,
+            submittedAt: record.submittedAt,
+            values,
+            ...buildSearchKeys(values)
+          });
+        }
+      });
+    }
+  },
+  {
+    version: 3,
+    description: 'Queue existing submissions in the sync outbox',
+    upgrade: (_db, tx) => {
+      const store = tx.objectStore('submissions');
+      store.createIndex('syncStatus', 'syncStatus');
+
+      return forEachRecord(store, cursor => {
+        if (!cursor.value.syncStatus) {
+          cursor.update({ ...cursor.value, ...newOutboxEntry() });
+        }
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Create drafts store and move the localStorage draft into it',
+    upgrade: (db) => {
+      const store = db.createObjectStore('drafts', { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+
+      const raw = localStorage.getItem(LEGACY_DRAFT_KEY);
+      if (!raw) return;
+      try {
+        const legacy = JSON.parse(raw);
+        // Drafts saved before form schemas existed are plain field maps
+        const draft: Draft = legacy.formType
+          ? { id: crypto.randomUUID(), formType: legacy.formType, language: legacy.language, values: legacy.data, transcript: [], updatedAt: new Date().toISOString() }
+          : { id: crypto.randomUUID(), formType: DEFAULT_SCHEMA_ID, values: legacy, transcript: [], updatedAt: new Date().toISOString() };
+        store.add(draft);
+      } catch (e) {
+        console.warn("Discarding unreadable legacy draft:", e);
+      }
+      localStorage.removeItem(LEGACY_DRAFT_KEY);
+    }
+  },
+  {
+    version: 5,
+    description: 'Create audio clip store for recorded conversation turns',
+    upgrade: (db) => {
+      db.createObjectStore('audioClips', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 6,
+    description: 'Add vault store and replace plaintext search indexes with a blind index',
+    upgrade: (db, tx) => {
+      db.createObjectStore('vault', { keyPath: 'id' });
+      // Existing plaintext records are sealed, and their keys rebuilt, once the operator sets a PIN
+      const store = tx.objectStore('submissions');
+      store.deleteIndex('nameTokens');
+      store.deleteIndex('cityKey');
+      store.createIndex('searchKeys', 'searchKeys', { multiEntry: true });
+    }
+  },
+  {
+    version: 7,
+    description: 'Create audit log store and index submissions by sync time for retention',
+    upgrade: (db, tx) => {
+      const audit = db.createObjectStore('audit', { keyPath: 'id', autoIncrement: true });
+      audit.createIndex('at', 'at');
+      tx.objectStore('submissions').createIndex('syncedAt', 'syncedAt');
+    }
+  }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs pending steps in order inside the versionchange transaction. A step that
+ * returns a promise must finish before the next starts; otherwise two cursors
+ * over the same store would interleave and the later one would write stale copies.
+ */
+export function runMigrations(db: IDBDatabase, tx: IDBTransaction, oldVersion: number): void {
+  const pending = MIGRATIONS.filter(m => m.version > oldVersion);
+  const runNext = (): void => {
+    const m = pending.shift();
+    if (!m) return;
+    const done = m.upgrade(db, tx);
+    if (done) done.then(runNext, err => { console.error(`DB migration v${m.version} failed:`, err); tx.abort(); });
+    else runNext();
+  };
+  runNext();
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { redactIdentifiers } from './redaction';
+
+describe('redactIdentifiers', () => {
+  it.each([
+    ['spaced', 'Aadhaar 2341 2341 2346 hai', 'Aadhaar XXXX XXXX 2346 hai'],
+    ['run together', 'aadhaar 234123412346.', 'aadhaar XXXX XXXX 2346.'],
+    ['hyphenated', '2341-2341-2346', 'XXXX XXXX 2346'],
+    ['in Devanagari digits', 'आधार २३४१ २३४१ २३४६', 'आधार XXXX XXXX 2346'],
+    ['in Bengali digits', 'আধার ২৩৪১ ২৩৪১ ২৩৪৬', 'আধার XXXX XXXX 2346'],
+    ['spoken in Hindi', 'नंबर दो तीन चार एक दो तीन चार एक दो तीन चार छह है', 'नंबर XXXX XXXX 2346 है']
+  ])('masks an Aadhaar number written %s', (_, text, masked) => {
+    expect(redactIdentifiers(text)).toBe(masked);
+  });
+
+  it.each([
+    ['spaced', 'mobile 98765 43210', 'mobile XXXXXX3210'],
+    ['with +91', 'call +91 98765-43210 today', 'call XXXXXX3210 today'],
+    ['with a leading 0', '09876543210', 'XXXXXX3210'],
+    ['in Gurmukhi digits', 'ਫ਼ੋਨ ੯੮੭੬੫੪੩੨੧੦', 'ਫ਼ੋਨ XXXXXX3210'],
+    ['in Tamil digits', '௯௮௭௬௫௪௩௨௧௦', 'XXXXXX3210'],
+    ['spoken in romanised Hindi', 'nau aath saat chhe paanch chaar teen do ek shunya', 'XXXXXX3210'],
+    ['spoken in English', 'nine eight seven six five four three two one zero', 'XXXXXX3210']
+  ])('masks a mobile number written %s', (_, text, masked) => {
+    expect(redactIdentifiers(text)).toBe(masked);
+  });
+
+  it('leaves dates, ages and other numbers alone', () => {
+    const text = 'Born 15/08/1990, age 35, 4 family members, pin code 226001';
+    expect(redactIdentifiers(text)).toBe(text);
+  });
+
+  it('does not read digit words inside longer words', () => {
+    const text = 'Donald teenager ektara';
+    expect(redactIdentifiers(text)).toBe(text);
+  });
+});
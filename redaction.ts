@@ -0,0 +1,51 @@
+// Zero of each decimal digit block an Indian transcript may use: ASCII, Devanagari,
+// Bengali, Gurmukhi, Gujarati, Odia, Tamil, Telugu, Kannada, Malayalam
+const DIGIT_ZEROS = [0x30, 0x966, 0x9e6, 0xa66, 0xae6, 0xb66, 0xbe6, 0xc66, 0xce6, 0xd66];
+
+const DIGIT_CLASS = `[${DIGIT_ZEROS.map(z => `\\u{${z.toString(16)}}-\\u{${(z + 9).toString(16)}}`).join('')}]`;
+
+// Spoken transcripts often spell numbers out; Hindi, romanised Hindi and English digit words
+const DIGIT_WORDS: Record<string, string> = {
+  'शून्य': '0', 'ज़ीरो': '0', 'जीरो': '0', 'एक': '1', 'दो': '2', 'तीन': '3', 'चार': '4',
+  'पाँच': '5', 'पांच': '5', 'छह': '6', 'छः': '6', 'छे': '6', 'सात': '7', 'आठ': '8', 'नौ': '9',
+  shunya: '0', zero: '0', ek: '1', do: '2', teen: '3', char: '4', chaar: '4', paanch: '5', panch: '5',
+  chhah: '6', chhe: '6', che: '6', saat: '7', sat: '7', aath: '8', nau: '9',
+  one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+};
+
+const WORD_ALTERNATION = Object.keys(DIGIT_WORDS).sort((a, b) => b.length - a.length).join('|');
+
+// A digit, or a digit word that isn't the start of a longer word
+const TOKEN = `(?:${DIGIT_CLASS}|(?:${WORD_ALTERNATION})(?![\\p{L}\\p{M}]))`;
+
+// Tokens separated by spaces, commas or hyphens, with an optional +91 in front
+const NUMBER_RUN = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])\\+?${TOKEN}(?:[\\s,\\-]*${TOKEN})*`, 'giu');
+
+const TOKEN_PATTERN = new RegExp(TOKEN, 'giu');
+
+const digitValue = (token: string): string => {
+  const word = DIGIT_WORDS[token.toLowerCase()];
+  if (word) return word;
+  const code = token.codePointAt(0)!;
+  const zero = DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!;
+  return String(code - zero);
+};
+
+const isMobile = (digits: string) => /^(?:91|0)?[6-9]\d{9}$/.test(digits);
+
+// Aadhaar numbers never start with 0 or 1
+const isAadhaar = (digits: string) => /^[2-9]\d{11}$/.test(digits);
+
+/**
+ * Masks Aadhaar and mobile numbers before text leaves the device for anything other
+ * than the conversation itself. Numbers are recognised in any Indic digit script and
+ * when spoken digit by digit; the last four digits are kept, as on a masked Aadhaar.
+ */
+export function redactIdentifiers(text: string): string {
+  return text.replace(NUMBER_RUN, run => {
+    const digits = (run.match(TOKEN_PATTERN) || []).map(digitValue).join('');
+    if (isMobile(digits)) return `XXXXXX${digits.slice(-4)}`;
+    if (isAadhaar(digits)) return `XXXX XXXX ${digits.slice(-4)}`;
+    return run;
+  });
+}
@@ -0,0 +1,141 @@
+import { DocumentRequest, LiveMessage, LiveSession, LiveSessionCallbacks, LiveSessionConfig, TextPurpose, ToolResponse } from './aiProvider';
+import { FakeProvider } from './fakeProvider';
+import { DemoScript, DemoTurn } from './demoScripts';
+import { encode } from './AudioUtils';
+
+// Pacing that makes a replay feel like a conversation rather than a dump
+const USER_PAUSE_MS = 1200;
+const SPEECH_MS_PER_CHAR = 60;
+const MAX_SILENT_SPEECH_MS = 6000;
+
+export interface ScriptMismatch {
+  turn: number;
+  tool: string;
+  expected: Record<string, unknown>;
+  actual: Record<string, unknown>;
+}
+
+const silence = (ms: number) => encode(new Uint8Array(Math.round(24000 * ms / 1000) * 2));
+
+// Playback length of base64 16-bit PCM at 24 kHz
+const audioMs = (base64: string) => (base64.length * 3 / 4 / 2 / 24000) * 1000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Every key in `expected` must be in `actual`; nested objects are matched the same way */
+function matches(expected: Record<string, unknown>, actual: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(([key, value]) => isObject(value)
+    ? isObject(actual[key]) && matches(value, actual[key] as Record<string, unknown>)
+    : JSON.stringify(actual[key]) === JSON.stringify(value));
+}
+
+/**
+ * Replays a script through the same callbacks a real Live session uses, so the
+ * app's message handling, tools and state machine all run unchanged.
+ */
+class ScriptedLiveSession implements LiveSession {
+  private index = 0;
+  private closed = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private awaiting: { id: string; turn: number; tool: string; expect?: Record<string, unknown> } | null = null;
+
+  constructor(
+    private turns: DemoTurn[],
+    private callbacks: LiveSessionCallbacks,
+    private onMismatch: (mismatch: ScriptMismatch) => void
+  ) {}
+
+  start() {
+    this.after(0, () => {
+      this.callbacks.onopen();
+      this.next();
+    });
+  }
+
+  private after(ms: number, fn: () => void) {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.closed) fn();
+    }, ms);
+  }
+
+  private send(message: LiveMessage) {
+    this.callbacks.onmessage(message);
+  }
+
+  private next() {
+    const turn = this.turns[this.index];
+    if (!turn) return;
+    const at = this.index++;
+    if ('user' in turn) {
+      this.after(turn.pauseMs ?? USER_PAUSE_MS, () => {
+        this.send({ serverContent: { inputTranscription: { text: turn.user }, turnComplete: true } });
+        this.next();
+      });
+    } else if ('assistant' in turn) {
+      const data = turn.audio || silence(Math.min(MAX_SILENT_SPEECH_MS, turn.assistant.length * SPEECH_MS_PER_CHAR));
+      this.send({ serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType: 'audio/pcm;rate=24000' } }] } } });
+      this.send({ serverContent: { outputTranscription: { text: turn.assistant }, turnComplete: true } });
+      this.after(audioMs(data), () => this.next());
+    } else {
+      const id = `script-${at}`;
+      this.awaiting = { id, turn: at, tool: turn.tool, expect: turn.expect };
+      this.send({ toolCall: { functionCalls: [{ id, name: turn.tool, args: turn.args }] } });
+    }
+  }
+
+  sendRealtimeInput() {}
+
+  sendClientContent() {}
+
+  sendToolResponse({ functionResponses }: { functionResponses: ToolResponse | ToolResponse[] }) {
+    const awaiting = this.awaiting;
+    const response = (Array.isArray(functionResponses) ? functionResponses : [functionResponses]).find(r => r.id === awaiting?.id);
+    if (!awaiting || !response) return;
+    this.awaiting = null;
+    if (awaiting.expect && !matches(awaiting.expect, response.response)) {
+      this.onMismatch({ turn: awaiting.turn, tool: awaiting.tool, expected: awaiting.expect, actual: response.response });
+    }
+    this.after(0, () => this.next());
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.callbacks.onclose(new CloseEvent('close'));
+  }
+}
+
+/**
+ * Offline provider for demos and field-worker training: the conversation, the scan
+ * result and the summary all come from a script instead of the network.
+ */
+export class ScriptedProvider extends FakeProvider {
+  readonly name = 'scripted';
+
+  constructor(
+    readonly script: DemoScript,
+    private onMismatch: (mismatch: ScriptMismatch) => void = m => console.error("Demo script mismatch:", m)
+  ) {
+    super();
+  }
+
+  async connectLive(_config: LiveSessionConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+    const session = new ScriptedLiveSession(this.script.turns, callbacks, this.onMismatch);
+    session.start();
+    return session;
+  }
+
+  async extractDocument(request: DocumentRequest): Promise<Record<string, unknown>> {
+    const document = this.script.document;
+    if (!document) return super.extractDocument(request);
+    return request.purpose === 'classify' ? document.classify : document.extract;
+  }
+
+  async generateText(prompt: string, purpose: TextPurpose): Promise<string> {
+    if (purpose === 'summary' && this.script.summary) return this.script.summary;
+    return super.generateText(prompt, purpose);
+  }
+}
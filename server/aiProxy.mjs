@@ -0,0 +1,248 @@
+// Server side of the AI calls: holds the Gemini key so it never reaches the browser.
+// Handlers take a Fetch API Request and return a Response, so the same code runs as a
+// Vercel function (api/*.mjs) and under the local dev server (server/proxy-dev.mjs).
+import { GoogleGenAI } from '@google/genai';
+
+// Mirrors DEFAULT_GEMINI_MODELS in geminiProvider.ts; the key can't be used for anything else
+const DEFAULT_ALLOWED_MODELS = [
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-3-flash-preview',
+  'gemini-3-pro-preview',
+  'gemini-flash-lite-latest',
+  'gemini-2.5-flash-preview-tts'
+];
+
+// Requests per device per minute; a document scan makes two generate calls per side
+const DEFAULT_LIMITS = { generate: 30, liveToken: 10 };
+// Requests per client address per minute, whatever device ids it sends. A service centre
+// may run a few counters behind one address, so this is looser than the per-device limit
+const DEFAULT_IP_LIMITS = { generate: 120, liveToken: 40 };
+const WINDOW_MS = 60 * 1000;
+
+// Vercel rejects bodies over 4.5 MB anyway; this keeps the dev server honest
+const MAX_BODY_BYTES = 4.5 * 1024 * 1024;
+
+// A Live token must open its session within a minute and is good for one connection
+const TOKEN_NEW_SESSION_MS = 60 * 1000;
+const TOKEN_EXPIRE_MS = 30 * 60 * 1000;
+
+const DEVICE_ID = /^[A-Za-z0-9-]{8,64}$/;
+
+// Generation settings the app sends. Anything else is refused: httpOptions could send the
+// key to another host, and tools could reach beyond what the app asks of the model
+const ALLOWED_CONFIG_FIELDS = ['responseMimeType', 'responseSchema', 'responseModalities', 'speechConfig', 'systemInstruction', 'temperature'];
+
+class ProxyError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (status, body, headers = {}) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers }
+});
+
+/**
+ * Fixed-window counter per key. State lives in the instance, so on serverless it
+ * limits each warm instance rather than the deployment as a whole.
+ */
+export class RateLimiter {
+  constructor(limit, windowMs = WINDOW_MS, now = Date.now) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+    this.now = now;
+    this.windows = new Map();
+  }
+
+  /** Returns 0 when the request may go ahead, otherwise the seconds until it may */
+  take(key) {
+    const now = this.now();
+    let window = this.windows.get(key);
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    if (window.count >= this.limit) return Math.ceil((window.resetAt - now) / 1000);
+    window.count++;
+    // Drop expired windows now and then so the map doesn't grow without bound
+    if (this.windows.size > 10000) {
+      for (const [k, w] of this.windows) if (now >= w.resetAt) this.windows.delete(k);
+    }
+    return 0;
+  }
+}
+
+// The last x-forwarded-for entry is the one our own platform added; earlier ones come from the caller
+const clientAddress = (request) => {
+  const ip = (request.headers.get('x-forwarded-for') || '').split(',').pop().trim();
+  return `ip:${ip || 'unknown'}`;
+};
+
+// The browser sends a random per-install id; without one, fall back to the caller's address.
+// The caller picks the id, so it only spreads honest devices apart; the address limit still applies
+const clientKey = (request) => {
+  const deviceId = request.headers.get('x-device-id');
+  if (deviceId && DEVICE_ID.test(deviceId)) return `device:${deviceId}`;
+  return clientAddress(request);
+};
+
+const readJSON = async (request) => {
+  const length = Number(request.headers.get('content-length') || 0);
+  if (length > MAX_BODY_BYTES) throw new ProxyError('Request body too large', 413);
+  const raw = await request.text();
+  if (raw.length > MAX_BODY_BYTES) throw new ProxyError('Request body too large', 413);
+  try {
+    const body = JSON.parse(raw);
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch (e) {}
+  throw new ProxyError('Request body must be a JSON object', 400);
+};
+
+/**
+ * @param {object} options
+ * @param {string} options.apiKey
+ * @param {string} [options.upstream] Base URL of the Gemini API, e.g. a local stub
+ * @param {string[]} [options.allowedModels]
+ * @param {{ generate: number, liveToken: number }} [options.limits] Per device
+ * @param {{ generate: number, liveToken: number }} [options.ipLimits] Per client address
+ * @param {(entry: object) => void} [options.log]
+ * @param {() => number} [options.now]
+ */
+export function createAiProxy({
+  apiKey,
+  upstream,
+  allowedModels = DEFAULT_ALLOWED_MODELS,
+  limits = DEFAULT_LIMITS,
+  ipLimits = DEFAULT_IP_LIMITS,
+  log = (entry) => console.log(JSON.stringify(entry)),
+  now = Date.now
+}) {
+  // Without a key every request is answered 503, so there is nothing to construct
+  const client = apiKey ? new GoogleGenAI({ apiKey, httpOptions: upstream ? { baseUrl: upstream } : undefined }) : null;
+  const limiters = {
+    generate: new RateLimiter(limits.generate, WINDOW_MS, now),
+    liveToken: new RateLimiter(limits.liveToken, WINDOW_MS, now)
+  };
+  const ipLimiters = {
+    generate: new RateLimiter(ipLimits.generate, WINDOW_MS, now),
+    liveToken: new RateLimiter(ipLimits.liveToken, WINDOW_MS, now)
+  };
+
+  const checkModel = (model) => {
+    if (typeof model !== 'string' || !allowedModels.includes(model)) {
+      throw new ProxyError(`Model not allowed: ${String(model).slice(0, 80)}`, 400);
+    }
+    return model;
+  };
+
+  // Rebuilt from the allowed fields rather than passed on, so nothing else reaches the SDK
+  const checkConfig = (config) => {
+    if (config === undefined) return undefined;
+    if (!config || typeof config !== 'object' || Array.isArray(config)) throw new ProxyError('config must be an object', 400);
+    const refused = Object.keys(config).filter(field => !ALLOWED_CONFIG_FIELDS.includes(field));
+    if (refused.length > 0) throw new ProxyError(`Config field not allowed: ${refused.join(', ').slice(0, 80)}`, 400);
+    return Object.fromEntries(ALLOWED_CONFIG_FIELDS.filter(field => config[field] !== undefined).map(field => [field, config[field]]));
+  };
+
+  // Body is the SDK's generateContent parameters; the reply drops the SDK's raw HTTP details
+  const generate = async (body) => {
+    const model = checkModel(body.model);
+    if (body.contents === undefined) throw new ProxyError('contents is required', 400);
+    const config = checkConfig(body.config);
+    const response = await client.models.generateContent({ model, contents: body.contents, config });
+    const { candidates, promptFeedback, usageMetadata, modelVersion, responseId } = response;
+    return { model, reply: { candidates, promptFeedback, usageMetadata, modelVersion, responseId } };
+  };
+
+  const liveToken = async (body) => {
+    const model = checkModel(body.model);
+    const issuedAt = now();
+    const expireTime = new Date(issuedAt + TOKEN_EXPIRE_MS).toISOString();
+    const token = await client.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime,
+        newSessionExpireTime: new Date(issuedAt + TOKEN_NEW_SESSION_MS).toISOString(),
+        liveConnectConstraints: { model },
+        httpOptions: { apiVersion: 'v1alpha' }
+      }
+    });
+    if (!token.name) throw new ProxyError('Upstream returned no token', 502);
+    return { model, reply: { token: token.name, expireTime } };
+  };
+
+  const routes = {
+    '/api/generate': { run: generate, limiter: limiters.generate, ipLimiter: ipLimiters.generate },
+    '/api/live-token': { run: liveToken, limiter: limiters.liveToken, ipLimiter: ipLimiters.liveToken }
+  };
+
+  /** Routes by path, so it can sit behind one catch-all or one function per route */
+  return async function handle(request) {
+    const started = now();
+    const route = new URL(request.url).pathname.replace(/\/+$/, '');
+    const key = clientKey(request);
+    let status = 500;
+    let model;
+    let error;
+    try {
+      const target = routes[route];
+      if (!target) throw new ProxyError('Not found', 404);
+      if (request.method !== 'POST') throw new ProxyError('Method not allowed', 405);
+      if (!apiKey) throw new ProxyError('GEMINI_API_KEY is not set on the server', 503);
+      const retryAfter = target.ipLimiter.take(clientAddress(request)) || target.limiter.take(key);
+      if (retryAfter > 0) {
+        status = 429;
+        error = 'rate limited';
+        return json(429, { error: 'Too many requests' }, { 'Retry-After': String(retryAfter) });
+      }
+      const result = await target.run(await readJSON(request));
+      model = result.model;
+      status = 200;
+      return json(200, result.reply);
+    } catch (err) {
+      // SDK errors carry the upstream status. A bad request or rate limit is passed on;
+      // an upstream outage or a rejected key is reported as a bad gateway
+      const upstreamStatus = typeof err?.status === 'number' && err.status >= 400 && err.status < 600 ? err.status : 0;
+      const isGatewayFault = upstreamStatus >= 500 || upstreamStatus === 401 || upstreamStatus === 403;
+      status = err instanceof ProxyError ? err.status : isGatewayFault ? 502 : upstreamStatus || 500;
+      error = err instanceof Error ? err.message.slice(0, 200) : String(err);
+      if (!(err instanceof ProxyError)) console.error('AI proxy error:', err);
+      return json(status, { error: err instanceof ProxyError ? err.message : 'Upstream request failed' });
+    } finally {
+      // Never the request body: prompts carry applicant details
+      log({
+        at: new Date(started).toISOString(),
+        route,
+        client: key.slice(0, 20),
+        model,
+        status,
+        ms: now() - started,
+        ...(error ? { error } : {})
+      });
+    }
+  };
+}
+
+const numberFromEnv = (value, fallback) => (Number(value) > 0 ? Number(value) : fallback);
+
+let shared;
+
+/** One proxy per process, configured from the environment */
+export function proxyFromEnv(env = process.env) {
+  shared ??= createAiProxy({
+    apiKey: env.GEMINI_API_KEY,
+    upstream: env.GEMINI_UPSTREAM || undefined,
+    allowedModels: env.GEMINI_ALLOWED_MODELS ? env.GEMINI_ALLOWED_MODELS.split(',').map(m => m.trim()).filter(Boolean) : undefined,
+    limits: {
+      generate: numberFromEnv(env.RATE_LIMIT_GENERATE, DEFAULT_LIMITS.generate),
+      liveToken: numberFromEnv(env.RATE_LIMIT_LIVE_TOKEN, DEFAULT_LIMITS.liveToken)
+    },
+    ipLimits: {
+      generate: numberFromEnv(env.RATE_LIMIT_GENERATE_PER_IP, DEFAULT_IP_LIMITS.generate),
+      liveToken: numberFromEnv(env.RATE_LIMIT_LIVE_TOKEN_PER_IP, DEFAULT_IP_LIMITS.liveToken)
+    }
+  });
+  return shared;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { fileURLToPath } from 'node:url';
+import { createAiProxy } from './aiProxy.mjs';
+
+const MODEL = 'gemini-3-flash-preview';
+const SERVER_KEY = 'server-only-key';
+
+const freePort = async () => {
+  const probe = http.createServer().listen(0, '127.0.0.1');
+  await once(probe, 'listening');
+  const { port } = probe.address();
+  probe.close();
+  await once(probe, 'close');
+  return port;
+};
+
+let stub;
+let upstream;
+// Stands in for a host a client might try to send the key to; records whatever reaches it
+let elsewhere;
+let elsewhereUrl;
+const captured = [];
+
+beforeAll(async () => {
+  const port = await freePort();
+  stub = spawn(process.execPath, [fileURLToPath(new URL('./gemini-stub.mjs', import.meta.url))], {
+    env: { ...process.env, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  await new Promise((resolve, reject) => {
+    stub.stdout.on('data', chunk => {
+      if (String(chunk).includes('listening')) resolve();
+    });
+    stub.on('exit', code => reject(new Error(`Gemini stub exited with ${code}`)));
+  });
+  upstream = `http://127.0.0.1:${port}`;
+
+  elsewhere = http.createServer((req, res) => {
+    captured.push({ url: req.url, key: req.headers['x-goog-api-key'] });
+    req.resume();
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end('{}');
+  }).listen(0, '127.0.0.1');
+  await once(elsewhere, 'listening');
+  elsewhereUrl = `http://127.0.0.1:${elsewhere.address().port}`;
+});
+
+afterAll(() => {
+  stub?.kill();
+  elsewhere?.close();
+});
+
+const generate = (body) => {
+  const proxy = createAiProxy({ apiKey: SERVER_KEY, upstream, log: () => {} });
+  return proxy(new Request('http://localhost/api/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': 'test-device-1' },
+    body: JSON.stringify(body)
+  }));
+};
+
+describe('/api/generate', () => {
+  it('passes the allowed generation settings on to the upstream', async () => {
+    const response = await generate({ model: MODEL, contents: 'hello', config: { responseMimeType: 'application/json', temperature: 0 } });
+    expect(response.status).toBe(200);
+    const reply = await response.json();
+    expect(reply.candidates[0].content.parts[0].text).toBe('{}');
+  });
+
+  it('refuses httpOptions, so the key cannot be sent to another host', async () => {
+    const response = await generate({
+      model: MODEL,
+      contents: 'hello',
+      config: { responseMimeType: 'application/json', httpOptions: { baseUrl: elsewhereUrl } }
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/httpOptions/);
+    expect(captured).toEqual([]);
+  });
+
+  it('ignores httpOptions outside the config', async () => {
+    const response = await generate({ model: MODEL, contents: 'hello', httpOptions: { baseUrl: elsewhereUrl } });
+    expect(response.status).toBe(200);
+    expect(captured).toEqual([]);
+  });
+
+  it('refuses tools', async () => {
+    const response = await generate({ model: MODEL, contents: 'hello', config: { tools: [{ googleSearch: {} }] } });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/tools/);
+  });
+
+  it('refuses a config that is not an object', async () => {
+    const response = await generate({ model: MODEL, contents: 'hello', config: ['httpOptions'] });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('rate limits', () => {
+  const call = (proxy, deviceId, address = '203.0.113.7') => proxy(new Request('http://localhost/api/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId, 'x-forwarded-for': address },
+    body: JSON.stringify({ model: 'not-allowed', contents: 'hello' })
+  }));
+
+  it('limits each device', async () => {
+    const proxy = createAiProxy({ apiKey: SERVER_KEY, upstream, limits: { generate: 2, liveToken: 2 }, log: () => {} });
+    expect((await call(proxy, 'device-aaaa')).status).toBe(400);
+    expect((await call(proxy, 'device-aaaa')).status).toBe(400);
+    expect((await call(proxy, 'device-aaaa')).status).toBe(429);
+    expect((await call(proxy, 'device-bbbb', '198.51.100.2')).status).toBe(400);
+  });
+
+  it('still limits a caller that sends a new device id every time', async () => {
+    const proxy = createAiProxy({ apiKey: SERVER_KEY, upstream, ipLimits: { generate: 3, liveToken: 3 }, log: () => {} });
+    const statuses = [];
+    for (let i = 0; i < 4; i++) statuses.push((await call(proxy, `fresh-device-${i}`)).status);
+    expect(statuses).toEqual([400, 400, 400, 429]);
+    expect((await call(proxy, 'fresh-device-9', '198.51.100.2')).status).toBe(400);
+  });
+
+  it('keys the address on the entry the platform added, not ones the caller forged', async () => {
+    const proxy = createAiProxy({ apiKey: SERVER_KEY, upstream, ipLimits: { generate: 1, liveToken: 1 }, log: () => {} });
+    expect((await call(proxy, 'device-cccc', '10.0.0.1, 203.0.113.7')).status).toBe(400);
+    expect((await call(proxy, 'device-dddd', '10.0.0.2, 203.0.113.7')).status).toBe(429);
+  });
+});
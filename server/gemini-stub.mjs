@@ -0,0 +1,57 @@
+// Local stand-in for the Gemini API, so the AI proxy can be exercised without a real key.
+//   npm run gemini-stub
+//   GEMINI_UPSTREAM=http://localhost:8788 GEMINI_API_KEY=stub npm run proxy
+// Text calls echo the prompt, JSON calls return an empty object and Live tokens are fake.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8788);
+
+let issued = 0;
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const textOf = (contents) => {
+  const list = Array.isArray(contents) ? contents : [contents];
+  return list.flatMap(c => c?.parts || []).map(p => p.text).filter(Boolean).join(' ');
+};
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const key = req.headers['x-goog-api-key'];
+    if (!key) return send(res, 401, { error: { code: 401, message: 'API key missing', status: 'UNAUTHENTICATED' } });
+    let body;
+    try {
+      body = JSON.parse(raw || '{}');
+    } catch {
+      return send(res, 400, { error: { code: 400, message: 'invalid JSON', status: 'INVALID_ARGUMENT' } });
+    }
+
+    const generate = req.url.match(/^\/v1beta\/models\/([^/:]+):generateContent/);
+    if (req.method === 'POST' && generate) {
+      const wantsJSON = body.generationConfig?.responseMimeType === 'application/json';
+      const text = wantsJSON ? '{}' : `stub reply: ${textOf(body.contents).slice(0, 200)}`;
+      console.log(`200 generateContent ${generate[1]}`);
+      return send(res, 200, {
+        candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+        modelVersion: generate[1]
+      });
+    }
+
+    if (req.method === 'POST' && req.url.startsWith('/v1alpha/auth_tokens')) {
+      const name = `auth_tokens/stub-${++issued}`;
+      console.log(`200 ${name}`);
+      return send(res, 200, { name });
+    }
+
+    send(res, 404, { error: { code: 404, message: `no stub for ${req.method} ${req.url}`, status: 'NOT_FOUND' } });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini stub listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,34 @@
+// Runs the AI proxy locally on the same routes as the Vercel functions.
+//   GEMINI_API_KEY=... npm run proxy
+//   GEMINI_UPSTREAM=http://localhost:8788 GEMINI_API_KEY=stub npm run proxy   # against the stub
+// `npm run dev` forwards /api to this port.
+import http from 'node:http';
+import { proxyFromEnv } from './aiProxy.mjs';
+
+const PORT = Number(process.env.PORT || 8790);
+
+const handle = proxyFromEnv();
+
+const server = http.createServer(async (req, res) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  // Vercel sets this in production; locally the socket address stands in for it
+  if (!headers.has('x-forwarded-for')) headers.set('x-forwarded-for', req.socket.remoteAddress || '');
+  const request = new Request(`http://localhost:${PORT}${req.url}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined
+  });
+  const response = await handle(request);
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+});
+
+server.listen(PORT, () => {
+  console.log(`AI proxy listening on http://localhost:${PORT}/api${process.env.GEMINI_UPSTREAM ? ` (upstream ${process.env.GEMINI_UPSTREAM})` : ''}`);
+});
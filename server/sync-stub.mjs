@@ -0,0 +1,58 @@
+// Local stand-in for the submissions backend, so the outbox can be exercised without network.
+//   npm run sync-stub
+//   PORT=8787 FAIL_RATE=0.3 npm run sync-stub   # answer ~30% of requests with 503
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+const FAIL_RATE = Number(process.env.FAIL_RATE || 0);
+
+// Idempotency-Key -> stored record
+const received = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.url !== '/submissions') return send(res, 404, { error: 'not found' });
+  if (req.method === 'GET') return send(res, 200, Array.from(received.values()));
+  if (req.method !== 'POST') return send(res, 405, { error: 'method not allowed' });
+
+  const key = req.headers['idempotency-key'];
+  if (!key) return send(res, 400, { error: 'Idempotency-Key header is required' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    if (Math.random() < FAIL_RATE) {
+      console.log(`503 ${key} (simulated failure)`);
+      return send(res, 503, { error: 'simulated failure' });
+    }
+    // A replayed key returns the original result without storing a second copy
+    if (received.has(key)) {
+      console.log(`200 ${key} (duplicate)`);
+      return send(res, 200, received.get(key));
+    }
+    let record;
+    try {
+      record = JSON.parse(raw);
+    } catch {
+      return send(res, 400, { error: 'invalid JSON' });
+    }
+    const stored = { ...record, idempotencyKey: key, receivedAt: new Date().toISOString() };
+    received.set(key, stored);
+    console.log(`201 ${key} ${record.formType}`);
+    send(res, 201, stored);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync stub listening on http://localhost:${PORT}/submissions`);
+});
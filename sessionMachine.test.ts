@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { SessionState, Submission } from './types';
+import { DocumentScan } from './documents';
+import { sessionReducer, SessionEvent, SessionMachineState, INITIAL_SESSION, TRANSITIONS, canHandle, isAtRest, isDialog, isLive, screenOf } from './sessionMachine';
+
+const run = (events: SessionEvent[], from: SessionMachineState = INITIAL_SESSION) => events.reduce(sessionReducer, from);
+
+const at = (status: SessionState, previous = SessionState.IDLE): SessionMachineState => ({ status, previous });
+
+const scan = { document: { type: 'aadhaar' }, typeConfidence: 0.9, fields: [] } as unknown as DocumentScan;
+const match: Submission = { id: 1, formType: 'general', values: {}, submittedAt: '2026-01-01T00:00:00.000Z' };
+
+describe('TRANSITIONS', () => {
+  it('lists every state', () => {
+    expect(Object.keys(TRANSITIONS).sort()).toEqual(Object.values(SessionState).sort());
+  });
+
+  it('lets every dialog be closed by RESET, so the idle timers can clear the screen', () => {
+    Object.values(SessionState).filter(isDialog).forEach(status => {
+      expect(sessionReducer(at(status), { type: 'RESET' }).status).toBe(SessionState.IDLE);
+    });
+  });
+
+  it('never leaves a live conversation without a way to drop or fail', () => {
+    Object.values(SessionState).filter(isLive).forEach(status => {
+      expect(canHandle(status, 'CONNECTION_LOST')).toBe(true);
+      expect(canHandle(status, 'FAILED')).toBe(true);
+    });
+  });
+});
+
+describe('sessionReducer', () => {
+  it('ignores events the current state does not handle', () => {
+    const state = at(SessionState.EXTRACTING);
+    expect(sessionReducer(state, { type: 'CONNECT' })).toBe(state);
+    expect(sessionReducer(state, { type: 'OPERATOR_OPENED' })).toBe(state);
+  });
+
+  it('follows a conversation from connecting to done', () => {
+    const state = run([
+      { type: 'CONNECT' },
+      { type: 'OPENED' },
+      { type: 'USER_STOPPED_SPEAKING' },
+      { type: 'PLAYBACK_STARTED' },
+      { type: 'PLAYBACK_STOPPED' },
+      { type: 'FORM_FINISHED' }
+    ]);
+    expect(state.status).toBe(SessionState.DONE);
+  });
+
+  it('stays live through the closing turn and finishes the form at its end', () => {
+    // confirm_submission arrives while the assistant is still saying its closing words
+    const closing = run([{ type: 'CONNECT' }, { type: 'OPENED' }, { type: 'USER_STOPPED_SPEAKING' }, { type: 'PLAYBACK_STARTED' }]);
+    expect(isLive(closing.status)).toBe(true);
+    expect(isAtRest(closing.status)).toBe(false);
+    // What App dispatches on that turn's turnComplete; closing the session must not undo DONE
+    const queued = run([{ type: 'TURN_COMPLETE' }, { type: 'FORM_FINISHED' }, { type: 'CLOSED' }, { type: 'SUBMIT_REQUESTED' }], closing);
+    expect(queued.status).toBe(SessionState.SUBMIT_QUEUED);
+    const spokenOut = run([{ type: 'PLAYBACK_STOPPED' }, { type: 'TURN_COMPLETE' }, { type: 'FORM_FINISHED' }, { type: 'CLOSED' }, { type: 'SUBMIT_REQUESTED' }], closing);
+    expect(spokenOut.status).toBe(SessionState.SUBMIT_QUEUED);
+  });
+
+  it('ends up idle, not submitting, if the session closes before the form is finished', () => {
+    const closing = run([{ type: 'CONNECT' }, { type: 'OPENED' }, { type: 'USER_STOPPED_SPEAKING' }]);
+    expect(run([{ type: 'CLOSED' }, { type: 'FORM_FINISHED' }, { type: 'SUBMIT_REQUESTED' }], closing).status).toBe(SessionState.IDLE);
+  });
+
+  it('reconnects after a dropped connection', () => {
+    const state = run([{ type: 'CONNECT' }, { type: 'OPENED' }, { type: 'CONNECTION_LOST' }]);
+    expect(state.status).toBe(SessionState.RECONNECTING);
+    expect(sessionReducer(state, { type: 'OPENED' }).status).toBe(SessionState.LISTENING);
+  });
+
+  it('returns from reading aloud to where it started', () => {
+    const done = at(SessionState.DONE, SessionState.SPEAKING);
+    expect(run([{ type: 'READ_ALOUD_STARTED' }, { type: 'READ_ALOUD_FINISHED' }], done).status).toBe(SessionState.DONE);
+    expect(run([{ type: 'READ_ALOUD_STARTED' }, { type: 'READ_ALOUD_FINISHED' }]).status).toBe(SessionState.IDLE);
+  });
+
+  it('returns from the operator panel and a help request to where they were opened', () => {
+    const done = at(SessionState.DONE, SessionState.SPEAKING);
+    expect(run([{ type: 'OPERATOR_OPENED' }, { type: 'OPERATOR_CLOSED' }], done).status).toBe(SessionState.DONE);
+    expect(run([{ type: 'HELP_REQUESTED' }, { type: 'HELP_FINISHED' }], done).status).toBe(SessionState.DONE);
+  });
+
+  it('asks for consent, then opens the camera', () => {
+    const asking = run([{ type: 'CONSENT_ASKED', scope: 'documents' }]);
+    expect(asking).toMatchObject({ status: SessionState.ASKING_CONSENT, consentScope: 'documents' });
+    const capturing = run([{ type: 'CONSENT_ANSWERED' }, { type: 'CAMERA_OPENED' }], asking);
+    expect(capturing.status).toBe(SessionState.CAPTURING);
+    expect(capturing.consentScope).toBeUndefined();
+  });
+
+  it('holds a finished scan for review and drops it once reviewed', () => {
+    const reviewing = run([{ type: 'CAMERA_OPENED' }, { type: 'CAMERA_CLOSED' }, { type: 'SCAN_STARTED' }, { type: 'SCAN_FINISHED', scan }]);
+    expect(reviewing).toMatchObject({ status: SessionState.REVIEWING_SCAN, scan });
+    const reviewed = sessionReducer(reviewing, { type: 'SCAN_REVIEWED' });
+    expect(reviewed.status).toBe(SessionState.IDLE);
+    expect(reviewed.scan).toBeUndefined();
+  });
+
+  it('goes back to rest when a scan fails', () => {
+    expect(run([{ type: 'SCAN_STARTED' }, { type: 'SCAN_FAILED' }]).status).toBe(SessionState.IDLE);
+  });
+
+  it('stops a submit on likely duplicates until the operator decides', () => {
+    const confirming = run([{ type: 'SUBMIT_STARTED' }, { type: 'DUPLICATES_FOUND', matches: [match] }]);
+    expect(confirming).toMatchObject({ status: SessionState.CONFIRMING_DUPLICATE, duplicates: [match] });
+    expect(sessionReducer(confirming, { type: 'DUPLICATE_CANCELLED' }).status).toBe(SessionState.IDLE);
+    const resumed = sessionReducer(confirming, { type: 'SUBMIT_STARTED' });
+    expect(resumed.status).toBe(SessionState.SUBMITTING);
+    expect(resumed.duplicates).toBeUndefined();
+  });
+
+  it('queues a submit confirmed by voice and lands at rest whatever happens', () => {
+    const queued = run([{ type: 'SUBMIT_REQUESTED' }], at(SessionState.DONE));
+    expect(queued.status).toBe(SessionState.SUBMIT_QUEUED);
+    expect(sessionReducer(queued, { type: 'SUBMIT_FAILED' }).status).toBe(SessionState.IDLE);
+    expect(run([{ type: 'SUBMIT_STARTED' }, { type: 'SUBMIT_FINISHED' }], queued).status).toBe(SessionState.IDLE);
+  });
+
+  it('does not let a closing connection interrupt a submit', () => {
+    const submitting = run([{ type: 'CONNECT' }, { type: 'OPENED' }, { type: 'SUBMIT_STARTED' }]);
+    expect(sessionReducer(submitting, { type: 'CLOSED' })).toBe(submitting);
+    expect(sessionReducer(submitting, { type: 'SUBMIT_FAILED' }).status).toBe(SessionState.IDLE);
+  });
+});
+
+describe('isAtRest', () => {
+  it('covers the welcome and finished screens and open dialogs, not work in progress', () => {
+    const atRest = Object.values(SessionState).filter(isAtRest);
+    expect(atRest.sort()).toEqual([
+      SessionState.IDLE,
+      SessionState.DONE,
+      SessionState.ASKING_CONSENT,
+      SessionState.CAPTURING,
+      SessionState.REVIEWING_SCAN,
+      SessionState.CONFIRMING_DUPLICATE,
+      SessionState.OPERATOR
+    ].sort());
+  });
+});
+
+describe('screenOf', () => {
+  it('shows the welcome screen under dialogs', () => {
+    expect(screenOf(at(SessionState.CAPTURING))).toBe(SessionState.IDLE);
+    expect(screenOf(at(SessionState.CONFIRMING_DUPLICATE, SessionState.SUBMITTING))).toBe(SessionState.IDLE);
+  });
+
+  it('keeps the screen the operator panel or help was opened from', () => {
+    expect(screenOf(at(SessionState.OPERATOR, SessionState.DONE))).toBe(SessionState.DONE);
+    expect(screenOf(at(SessionState.GETTING_HELP, SessionState.IDLE))).toBe(SessionState.IDLE);
+  });
+
+  it('shows a queued submit as submitting', () => {
+    expect(screenOf(at(SessionState.SUBMIT_QUEUED, SessionState.DONE))).toBe(SessionState.SUBMITTING);
+  });
+});
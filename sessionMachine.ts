@@ -0,0 +1,204 @@
+import { ConsentScope, SessionState, Submission } from './types';
+import { DocumentScan } from './documents';
+
+/**
+ * Everything that can move the session between states. Live connection events
+ * come from LiveSessionManager, speech edges from the mic's voice activity
+ * detector and playback events from the output queue. The rest come from the
+ * screen: dialogs, document scans and submitting.
+ */
+export type SessionEvent =
+  | { type: 'CONNECT' }
+  | { type: 'OPENED' }
+  | { type: 'CONNECTION_LOST' }
+  | { type: 'CLOSED' }
+  | { type: 'FAILED' }
+  | { type: 'USER_STARTED_SPEAKING' }
+  | { type: 'USER_STOPPED_SPEAKING' }
+  | { type: 'PLAYBACK_STARTED' }
+  | { type: 'PLAYBACK_STOPPED' }
+  | { type: 'TURN_COMPLETE' }
+  | { type: 'FORM_FINISHED' }
+  | { type: 'CONSENT_ASKED'; scope: ConsentScope }
+  | { type: 'CONSENT_ANSWERED' }
+  | { type: 'CAMERA_OPENED' }
+  | { type: 'CAMERA_CLOSED' }
+  | { type: 'SCAN_STARTED' }
+  | { type: 'SCAN_FINISHED'; scan: DocumentScan }
+  | { type: 'SCAN_FAILED' }
+  | { type: 'SCAN_REVIEWED' }
+  | { type: 'READ_ALOUD_STARTED' }
+  | { type: 'READ_ALOUD_FINISHED' }
+  | { type: 'SUBMIT_REQUESTED' }
+  | { type: 'SUBMIT_STARTED' }
+  | { type: 'DUPLICATES_FOUND'; matches: Submission[] }
+  | { type: 'DUPLICATE_CANCELLED' }
+  | { type: 'SUBMIT_FINISHED' }
+  | { type: 'SUBMIT_FAILED' }
+  | { type: 'OPERATOR_OPENED' }
+  | { type: 'OPERATOR_CLOSED' }
+  | { type: 'HELP_REQUESTED' }
+  | { type: 'HELP_FINISHED' }
+  | { type: 'RESET' };
+
+export type SessionEventType = SessionEvent['type'];
+
+export interface SessionMachineState {
+  status: SessionState;
+  /** The state left by the last transition, which short activities return to */
+  previous: SessionState;
+  /** What ASKING_CONSENT is asking for */
+  consentScope?: ConsentScope;
+  /** The scan REVIEWING_SCAN shows for checking */
+  scan?: DocumentScan;
+  /** Earlier records CONFIRMING_DUPLICATE asks about */
+  duplicates?: Submission[];
+}
+
+// Target for activities that hand back to wherever they were started from
+const PREVIOUS = 'PREVIOUS';
+
+type Transitions = Partial<Record<SessionEventType, SessionState | typeof PREVIOUS>>;
+
+// While a conversation is live the connection can drop, fail or end from any of its states
+const LIVE: Transitions = {
+  CONNECTION_LOST: SessionState.RECONNECTING,
+  CLOSED: SessionState.IDLE,
+  FAILED: SessionState.ERROR
+};
+
+const CONVERSING: Transitions = {
+  ...LIVE,
+  FORM_FINISHED: SessionState.DONE,
+  SUBMIT_STARTED: SessionState.SUBMITTING
+};
+
+/** Anything not listed here is not allowed and leaves the state unchanged */
+export const TRANSITIONS: Record<SessionState, Transitions> = {
+  [SessionState.IDLE]: {
+    CONNECT: SessionState.CONNECTING,
+    CONSENT_ASKED: SessionState.ASKING_CONSENT,
+    CAMERA_OPENED: SessionState.CAPTURING,
+    SCAN_STARTED: SessionState.EXTRACTING,
+    READ_ALOUD_STARTED: SessionState.READING_ALOUD,
+    SUBMIT_STARTED: SessionState.SUBMITTING,
+    OPERATOR_OPENED: SessionState.OPERATOR,
+    HELP_REQUESTED: SessionState.GETTING_HELP,
+    FAILED: SessionState.ERROR
+  },
+  [SessionState.CONNECTING]: { ...LIVE, OPENED: SessionState.LISTENING },
+  [SessionState.RECONNECTING]: { ...LIVE, OPENED: SessionState.LISTENING },
+  [SessionState.LISTENING]: {
+    ...CONVERSING,
+    USER_STOPPED_SPEAKING: SessionState.THINKING,
+    PLAYBACK_STARTED: SessionState.SPEAKING
+  },
+  [SessionState.THINKING]: {
+    ...CONVERSING,
+    USER_STARTED_SPEAKING: SessionState.LISTENING,
+    PLAYBACK_STARTED: SessionState.SPEAKING,
+    TURN_COMPLETE: SessionState.LISTENING
+  },
+  [SessionState.SPEAKING]: {
+    ...CONVERSING,
+    PLAYBACK_STOPPED: SessionState.LISTENING
+  },
+  [SessionState.DONE]: {
+    CONNECT: SessionState.CONNECTING,
+    READ_ALOUD_STARTED: SessionState.READING_ALOUD,
+    SUBMIT_STARTED: SessionState.SUBMITTING,
+    // The assistant finished the form by voice; App submits once the turn has been handled
+    SUBMIT_REQUESTED: SessionState.SUBMIT_QUEUED,
+    OPERATOR_OPENED: SessionState.OPERATOR,
+    HELP_REQUESTED: SessionState.GETTING_HELP,
+    RESET: SessionState.IDLE
+  },
+  [SessionState.ERROR]: {
+    CONNECT: SessionState.CONNECTING,
+    RESET: SessionState.IDLE
+  },
+  [SessionState.EXTRACTING]: {
+    SCAN_FINISHED: SessionState.REVIEWING_SCAN,
+    SCAN_FAILED: SessionState.IDLE
+  },
+  [SessionState.READING_ALOUD]: { READ_ALOUD_FINISHED: PREVIOUS },
+  [SessionState.SUBMIT_QUEUED]: {
+    SUBMIT_STARTED: SessionState.SUBMITTING,
+    SUBMIT_FAILED: SessionState.IDLE,
+    RESET: SessionState.IDLE
+  },
+  // Submitting closes any live conversation first, so a failure lands back at rest
+  [SessionState.SUBMITTING]: {
+    DUPLICATES_FOUND: SessionState.CONFIRMING_DUPLICATE,
+    SUBMIT_FINISHED: SessionState.IDLE,
+    SUBMIT_FAILED: SessionState.IDLE
+  },
+  [SessionState.CONFIRMING_DUPLICATE]: {
+    SUBMIT_STARTED: SessionState.SUBMITTING,
+    DUPLICATE_CANCELLED: SessionState.IDLE,
+    RESET: SessionState.IDLE
+  },
+  [SessionState.ASKING_CONSENT]: { CONSENT_ANSWERED: SessionState.IDLE, RESET: SessionState.IDLE },
+  [SessionState.CAPTURING]: { CAMERA_CLOSED: SessionState.IDLE, RESET: SessionState.IDLE },
+  [SessionState.REVIEWING_SCAN]: { SCAN_REVIEWED: SessionState.IDLE, RESET: SessionState.IDLE },
+  [SessionState.OPERATOR]: { OPERATOR_CLOSED: PREVIOUS, RESET: SessionState.IDLE },
+  [SessionState.GETTING_HELP]: { HELP_FINISHED: PREVIOUS }
+};
+
+export const INITIAL_SESSION: SessionMachineState = { status: SessionState.IDLE, previous: SessionState.IDLE };
+
+export function canHandle(status: SessionState, type: SessionEventType): boolean {
+  return TRANSITIONS[status][type] !== undefined;
+}
+
+// The events that enter a dialog carry what it shows; leaving the dialog drops it
+function payloadOf(event: SessionEvent): Partial<SessionMachineState> {
+  switch (event.type) {
+    case 'CONSENT_ASKED': return { consentScope: event.scope };
+    case 'SCAN_FINISHED': return { scan: event.scan };
+    case 'DUPLICATES_FOUND': return { duplicates: event.matches };
+    default: return {};
+  }
+}
+
+export function sessionReducer(state: SessionMachineState, event: SessionEvent): SessionMachineState {
+  const target = TRANSITIONS[state.status][event.type];
+  if (target === undefined) return state;
+  if (target === PREVIOUS) return { status: state.previous, previous: state.status };
+  if (target === state.status) return state;
+  return { status: target, previous: state.status, ...payloadOf(event) };
+}
+
+/** A live conversation is using the mic and speaker */
+export function isLive(status: SessionState): boolean {
+  return status === SessionState.CONNECTING
+    || status === SessionState.RECONNECTING
+    || status === SessionState.LISTENING
+    || status === SessionState.THINKING
+    || status === SessionState.SPEAKING;
+}
+
+/** A dialog is open over the welcome screen, waiting on the person at the screen */
+export function isDialog(status: SessionState): boolean {
+  return status === SessionState.ASKING_CONSENT
+    || status === SessionState.CAPTURING
+    || status === SessionState.REVIEWING_SCAN
+    || status === SessionState.CONFIRMING_DUPLICATE
+    || status === SessionState.OPERATOR;
+}
+
+/**
+ * Nothing is in progress, so settings, PIN and lock are safe to touch. An open
+ * dialog counts too, so the idle timers can close it with RESET.
+ */
+export function isAtRest(status: SessionState): boolean {
+  return status === SessionState.IDLE || status === SessionState.DONE || isDialog(status);
+}
+
+/** The state the main panel shows under a dialog, a help request or a queued submit */
+export function screenOf({ status, previous }: SessionMachineState): SessionState {
+  if (status === SessionState.OPERATOR || status === SessionState.GETTING_HELP) return previous;
+  if (isDialog(status)) return SessionState.IDLE;
+  if (status === SessionState.SUBMIT_QUEUED) return SessionState.SUBMITTING;
+  return status;
+}
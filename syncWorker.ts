@@ -0,0 +1,144 @@
+import { Submission, SyncState } from './types';
+import { api } from './api';
+import { toPortable } from './exportImport';
+import { backoffDelay } from './backoff';
+
+// Roughly 2s, 4s, 8s… capped at five minutes
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+type SyncListener = (id: number, state: SyncState) => void;
+
+// 4xx responses will not succeed on retry, except timeouts and rate limiting
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+class SyncError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+  }
+}
+
+/**
+ * Delivers outbox records to the backend one at a time. Each POST carries the
+ * record's idempotency key so a retry after a lost response cannot create a
+ * duplicate on the server.
+ */
+class SyncWorker {
+  private isStarted = false;
+  private isFlushing = false;
+  // Set when a flush is requested mid-run, e.g. by a new submission
+  private flushAgain = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<SyncListener>();
+
+  constructor(private endpoint: string) {}
+
+  get isConfigured(): boolean {
+    return !!this.endpoint;
+  }
+
+  start(): void {
+    if (!this.isConfigured || this.isStarted) return;
+    this.isStarted = true;
+    // Anything that failed while offline is due again as soon as the network returns
+    window.addEventListener('online', () => this.flush(true));
+    this.flush();
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Manually re-queues a record, including one whose retries were exhausted */
+  async retry(id: number): Promise<void> {
+    await this.record(id, { syncStatus: 'pending', syncAttempts: 0, nextSyncAt: undefined, lastSyncError: undefined });
+    this.flush();
+  }
+
+  async flush(ignoreBackoff = false): Promise<void> {
+    // Outbox records can only be read while the vault is unlocked; unlocking flushes again
+    if (!this.isConfigured || !navigator.onLine || !api.isUnlocked) return;
+    if (this.isFlushing) {
+      this.flushAgain = true;
+      return;
+    }
+    this.isFlushing = true;
+    this.flushAgain = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    try {
+      const now = new Date().toISOString();
+      const due = (await api.getOutbox()).filter(s =>
+        s.syncStatus === 'pending' || (s.nextSyncAt && (ignoreBackoff || s.nextSyncAt <= now))
+      );
+      for (const submission of due) {
+        if (!navigator.onLine) break;
+        await this.push(submission);
+      }
+    } catch (e) {
+      console.error("Sync Error:", e);
+    } finally {
+      this.isFlushing = false;
+      if (this.flushAgain) this.flush();
+      else this.scheduleNext();
+    }
+  }
+
+  private async push(submission: Submission): Promise<void> {
+    const attempts = (submission.syncAttempts || 0) + 1;
+    try {
+      await this.send(submission);
+      await this.record(submission.id!, {
+        syncStatus: 'synced',
+        syncAttempts: attempts,
+        nextSyncAt: undefined,
+        lastSyncError: undefined,
+        syncedAt: new Date().toISOString()
+      });
+    } catch (e) {
+      const retryable = !(e instanceof SyncError) || e.retryable;
+      const willRetry = retryable && attempts < MAX_ATTEMPTS;
+      await this.record(submission.id!, {
+        syncStatus: 'failed',
+        syncAttempts: attempts,
+        nextSyncAt: willRetry ? new Date(Date.now() + backoffDelay(attempts, BASE_DELAY_MS, MAX_DELAY_MS)).toISOString() : undefined,
+        lastSyncError: e instanceof Error ? e.message : String(e)
+      });
+    }
+  }
+
+  private async send(submission: Submission): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': submission.idempotencyKey!
+      },
+      body: JSON.stringify(toPortable(submission))
+    });
+    if (!response.ok) {
+      throw new SyncError(`HTTP ${response.status}`, isRetryableStatus(response.status));
+    }
+  }
+
+  private async record(id: number, state: SyncState): Promise<void> {
+    await api.updateSyncState(id, state);
+    this.listeners.forEach(listener => listener(id, state));
+  }
+
+  // Wakes up for the earliest scheduled retry; the 'online' event covers the offline case
+  private async scheduleNext(): Promise<void> {
+    if (!api.isUnlocked) return;
+    const retryTimes = (await api.getOutbox())
+      .map(s => s.nextSyncAt)
+      .filter((at): at is string => !!at)
+      .sort();
+    if (retryTimes.length === 0 || this.timer) return;
+    const wait = Math.max(0, Date.parse(retryTimes[0]) - Date.now());
+    this.timer = setTimeout(() => this.flush(), wait);
+  }
+}
+
+export const syncWorker = new SyncWorker(process.env.SYNC_ENDPOINT || '');
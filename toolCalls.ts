@@ -0,0 +1,112 @@
+import { FieldCorrection, FormData, FormSchema } from './types';
+import { LanguageConfig } from './i18n';
+import { fieldLabel } from './formSchemas';
+import { validateField, ValidationResult } from './validation';
+
+/**
+ * What answering the assistant's tool calls needs from whoever holds the form.
+ * Getters must already reflect changes made by earlier calls in the same message.
+ */
+export interface ToolHost {
+  schema: FormSchema;
+  language: LanguageConfig;
+  formData: () => FormData;
+  latinData: () => FormData;
+  hasConsent: () => boolean;
+  recordConsent: (agreed: boolean) => void;
+  /** Returns the value as stored, which for text fields may be in the other script */
+  updateField: (field: string, value: string, confidence: number) => string;
+  correction: () => FieldCorrection | null;
+  changeCorrection: (next: FieldCorrection | null) => void;
+  settleCorrection: (accept: boolean) => void;
+  /** The values read back by request_confirmation; confirm_submission only holds if they haven't changed */
+  readBack: () => string | null;
+  setReadBack: (key: string | null) => void;
+  /** The applicant declined consent; the session should end after the assistant's next turn */
+  onDeclined: () => void;
+  /** The applicant confirmed the read-back; the form should be submitted after the assistant's next turn */
+  onConfirmed: () => void;
+}
+
+const readBackKey = (host: ToolHost) => JSON.stringify([host.formData(), host.latinData()]);
+
+/** The response to send back for one of the tools the form conversation declares; null for any other tool */
+export function answerToolCall(host: ToolHost, name: string, args: Record<string, unknown>): Record<string, unknown> | null {
+  const { schema, language } = host;
+  if (name === 'record_consent') {
+    const { agreed } = args as { agreed: boolean };
+    host.recordConsent(!!agreed);
+    if (agreed) return { result: "ok", instruction: "Thank the user and ask the first question." };
+    host.onDeclined();
+    return { result: "declined", instruction: `Say "${language.strings.consentDeclined}" and nothing else.` };
+  }
+  if (!host.hasConsent()) {
+    return { error: { code: 'no_consent', message: "The user has not agreed to the consent notice." }, instruction: "Read the consent notice and call record_consent first." };
+  }
+  if (name === 'update_form_field') {
+    const { field, value } = args as { field: string, value: string };
+    const fieldSchema = schema.fields.find(f => f.id === field);
+    const check: ValidationResult = fieldSchema
+      ? validateField(fieldSchema, value)
+      : { ok: false, value: '', code: 'unknown_field', message: `Unknown field "${field}".` };
+    const pending = host.correction();
+    if (!check.ok) {
+      return { error: { field, code: check.code, message: check.message }, instruction: `Politely tell the user the problem in ${language.englishName} and ask for this field again.` };
+    }
+    if (pending?.fieldId === field) {
+      // Held back until the user hears both values and agrees
+      host.changeCorrection({ ...pending, proposedValue: check.value, proposedConfidence: check.confidence });
+      return { result: "pending_confirmation", oldValue: pending.oldValue, newValue: check.value, instruction: "Read back the old and new value and ask whether to replace it, then call confirm_field_correction." };
+    }
+    const saved = host.updateField(field, check.value, check.confidence);
+    return { result: "ok", value: saved, latin: host.latinData()[field] };
+  }
+  if (name === 'correct_form_field') {
+    const { field } = args as { field: string };
+    if (!schema.fields.some(f => f.id === field)) {
+      return { error: { field, code: 'unknown_field', message: `Unknown field "${field}".` } };
+    }
+    const oldValue = host.formData()[field] || '';
+    host.changeCorrection({ fieldId: field, oldValue });
+    return { result: "ok", oldValue, instruction: "Ask only for the correct value of this field, then call update_form_field." };
+  }
+  if (name === 'request_confirmation') {
+    const data = host.formData();
+    const missing = schema.fields.filter(f => f.required && !data[f.id]?.trim()).map(f => f.id);
+    if (missing.length > 0) {
+      host.setReadBack(null);
+      return { error: { code: 'incomplete', missing, message: "Some required fields are still empty." }, instruction: "Ask for the missing fields first." };
+    }
+    host.setReadBack(readBackKey(host));
+    return {
+      result: "ok",
+      fields: schema.fields.map(f => ({ field: f.id, label: fieldLabel(f, language.code), value: data[f.id] || language.emptyWord, latin: host.latinData()[f.id] || undefined })),
+      instruction: `Read every value back, spelling each "latin" value letter by letter as its English spelling, then ask "${language.confirmQuestion}" and call confirm_submission with the answer.`
+    };
+  }
+  if (name === 'confirm_submission') {
+    const { confirmed } = args as { confirmed: boolean };
+    const readBack = host.readBack();
+    if (readBack === null) {
+      return { error: { code: 'not_read_back', message: "The form has not been read back yet." }, instruction: "Call request_confirmation first." };
+    }
+    host.setReadBack(null);
+    if (readBack !== readBackKey(host)) {
+      return { error: { code: 'changed', message: "The form changed after it was read back." }, instruction: "Call request_confirmation again." };
+    }
+    if (!confirmed) {
+      return { result: "not_submitted", instruction: "Ask what needs to change and use correct_form_field for it." };
+    }
+    host.onConfirmed();
+    return { result: "submitted", instruction: `Say "${language.closingPhrase}" and nothing else.` };
+  }
+  if (name === 'confirm_field_correction') {
+    const { confirmed } = args as { confirmed: boolean };
+    if (host.correction()?.proposedValue === undefined) {
+      return { error: { code: 'nothing_to_confirm', message: "No new value is waiting for confirmation." } };
+    }
+    host.settleCorrection(!!confirmed);
+    return { result: confirmed ? "replaced" : "kept", instruction: "Continue with the form." };
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { FormFieldSchema, FormFieldType } from './types';
+import { dualScript, knownDevanagari, toDevanagari, toLatin } from './transliterate';
+
+const field = (type: FormFieldType): FormFieldSchema => ({ id: type, label: type, type, required: true, prompt: '' });
+
+describe('toLatin', () => {
+  it.each([
+    ['राम', 'Ram'],
+    ['कमल', 'Kamal'],
+    ['भारत', 'Bharat'],
+    ['अर्जुन', 'Arjun']
+  ])('drops a final inherent vowel: %s → %s', (deva, latin) => {
+    expect(toLatin(deva)).toBe(latin);
+  });
+
+  it.each([
+    ['मित्र', 'Mitra'],
+    ['दुर्गा', 'Durga']
+  ])('keeps it after a conjunct: %s → %s', (deva, latin) => {
+    expect(toLatin(deva)).toBe(latin);
+  });
+
+  it.each([
+    ['सरला', 'Sarla'],
+    ['रजनी', 'Rajni'],
+    ['रचना', 'Rachna'],
+    ['गुरप्रीत', 'Gurpreet'],
+    ['मनमोहन', 'Manmohan']
+  ])('drops a medial inherent vowel before a syllable: %s → %s', (deva, latin) => {
+    expect(toLatin(deva)).toBe(latin);
+  });
+
+  it.each([
+    ['नीरज', 'Neeraj'],
+    ['राजीव', 'Rajeev'],
+    ['संदीप', 'Sandeep'],
+    ['अमित', 'Amit'],
+    ['कृषि', 'Krishi']
+  ])('writes long vowels long only in a first or closing syllable: %s → %s', (deva, latin) => {
+    expect(toLatin(deva)).toBe(latin);
+  });
+
+  it('handles glides, nukta letters, nasals and digits', () => {
+    expect(toLatin('स्वामी')).toBe('Swami');
+    expect(toLatin('ज्ञान')).toBe('Gyan');
+    expect(toLatin('ज़फ़र')).toBe('Zafar');
+    expect(toLatin('चंपा')).toBe('Champa');
+    expect(toLatin('गली १२')).toBe('Gali 12');
+  });
+
+  it('uses the everyday spelling of common name words', () => {
+    expect(toLatin('सुनीता सिंह')).toBe('Sunita Singh');
+    expect(toLatin('लक्ष्मी')).toBe('Lakshmi');
+  });
+});
+
+describe('toDevanagari', () => {
+  it('writes a final a, i or u long, as names usually end', () => {
+    expect(toDevanagari('Rekha')).toBe('रेखा');
+    expect(toDevanagari('Shanti')).toBe('शांति');
+    expect(toDevanagari('Raju')).toBe('राजू');
+  });
+
+  it('uses anusvara for a nasal before its own class', () => {
+    expect(toDevanagari('Chandan')).toBe('चंदन');
+  });
+
+  it('reads every Latin spelling of a known name word', () => {
+    expect(toDevanagari('Puja')).toBe('पूजा');
+    expect(toDevanagari('Pooja')).toBe('पूजा');
+  });
+});
+
+describe('knownDevanagari', () => {
+  it('converts only text made entirely of known name words', () => {
+    expect(knownDevanagari('Sunita Sharma')).toBe('सुनीता शर्मा');
+    expect(knownDevanagari('Shyam Sundar')).toBeUndefined();
+    expect(knownDevanagari('Sunita Farmer')).toBeUndefined();
+    expect(knownDevanagari('12')).toBeUndefined();
+  });
+});
+
+describe('dualScript', () => {
+  it('keeps Devanagari as the value in Hindi and adds a Latin spelling', () => {
+    expect(dualScript(field('name'), 'गुरप्रीत कौर', 'hi')).toEqual({ value: 'गुरप्रीत कौर', latin: 'Gurpreet Kaur' });
+  });
+
+  it('turns known Latin names into Devanagari for Hindi and Marathi', () => {
+    expect(dualScript(field('name'), 'Rajesh Kumar', 'hi')).toEqual({ value: 'राजेश कुमार', latin: 'Rajesh Kumar' });
+    expect(dualScript(field('name'), 'Rajesh Kumar', 'mr')).toEqual({ value: 'राजेश कुमार', latin: 'Rajesh Kumar' });
+  });
+
+  it('keeps Latin it can only guess at as captured', () => {
+    expect(dualScript(field('name'), 'Shyam Sundar', 'hi')).toEqual({ value: 'Shyam Sundar', latin: 'Shyam Sundar' });
+    expect(dualScript(field('text'), 'Farmer', 'mr')).toEqual({ value: 'Farmer', latin: 'Farmer' });
+    expect(dualScript(field('place'), 'Sitapur Kalan', 'hi')).toEqual({ value: 'Sitapur Kalan', latin: 'Sitapur Kalan' });
+  });
+
+  it('uses the official name of a known place in either script', () => {
+    expect(dualScript(field('place'), 'Lucknow', 'hi')).toEqual({ value: 'लखनऊ', latin: 'Lucknow' });
+    expect(dualScript(field('place'), 'Lucknow', 'pa')).toEqual({ value: 'Lucknow', latin: 'Lucknow' });
+  });
+
+  it('leaves other languages as captured', () => {
+    expect(dualScript(field('name'), 'Rajesh Kumar', 'ta')).toEqual({ value: 'Rajesh Kumar', latin: 'Rajesh Kumar' });
+    expect(dualScript(field('name'), 'ਗੁਰਪ੍ਰੀਤ', 'pa')).toEqual({ value: 'ਗੁਰਪ੍ਰੀਤ', latin: '' });
+  });
+});
@@ -0,0 +1,256 @@
+import { FormFieldSchema, FormFieldType, LanguageCode } from './types';
+import { isDevanagari, knownPlace, toAsciiDigits } from './validation';
+
+// Field types kept in both scripts; dates, numbers and phone numbers are digits either way
+const DUAL_SCRIPT_TYPES: FormFieldType[] = ['name', 'place', 'text'];
+
+// Languages whose form values are written in Devanagari
+const DEVANAGARI_LANGUAGES: LanguageCode[] = ['hi', 'mr'];
+
+// Common name words whose everyday spelling the letter rules don't produce, e.g. सिंह is
+// "Singh", not "Sinh". The first Latin spelling is used for output; all are accepted as input.
+const NAME_WORDS: [string, ...string[]][] = [
+  ['सिंह', 'Singh'], ['कुमार', 'Kumar'], ['कुमारी', 'Kumari'], ['देवी', 'Devi'], ['बाई', 'Bai'], ['कौर', 'Kaur'],
+  ['श्री', 'Shri', 'Sri'], ['श्रीमती', 'Shrimati', 'Smt'], ['मोहम्मद', 'Mohammad', 'Mohammed', 'Mohd'], ['अली', 'Ali'],
+  ['ख़ान', 'Khan'], ['शेख़', 'Shaikh', 'Sheikh'], ['बेगम', 'Begum'], ['फ़ातिमा', 'Fatima'], ['कृष्ण', 'Krishna'],
+  ['चंद्र', 'Chandra'], ['इंद्र', 'Indra'], ['मित्र', 'Mitra'], ['लक्ष्मी', 'Lakshmi', 'Laxmi'], ['राव', 'Rao'],
+  ['राय', 'Rai', 'Roy'], ['शर्मा', 'Sharma'], ['वर्मा', 'Verma'], ['गुप्ता', 'Gupta'], ['मिश्रा', 'Mishra'],
+  ['यादव', 'Yadav'], ['प्रसाद', 'Prasad'], ['पांडेय', 'Pandey'], ['चौधरी', 'Chaudhary', 'Choudhary'],
+  ['ठाकुर', 'Thakur'], ['रेड्डी', 'Reddy'], ['पटेल', 'Patel'], ['तिवारी', 'Tiwari'], ['त्रिपाठी', 'Tripathi'],
+  ['द्विवेदी', 'Dwivedi'], ['श्रीवास्तव', 'Srivastava'], ['अग्रवाल', 'Agarwal', 'Aggarwal'], ['जैन', 'Jain'],
+  ['राम', 'Ram'], ['राज', 'Raj'], ['राजेश', 'Rajesh'], ['राकेश', 'Rakesh'], ['राजू', 'Raju'], ['आनंद', 'Anand'],
+  ['आशा', 'Asha'], ['कमला', 'Kamla', 'Kamala'], ['सुनीता', 'Sunita'], ['अनीता', 'Anita'], ['विनीता', 'Vinita'],
+  ['पूजा', 'Pooja', 'Puja'], ['गीता', 'Geeta', 'Gita'], ['सीता', 'Sita', 'Seeta'], ['सूरज', 'Suraj'],
+  ['दिलीप', 'Dilip'], ['सुधीर', 'Sudhir'], ['प्रिया', 'Priya'], ['साई', 'Sai'], ['गणेश', 'Ganesh'],
+  ['महेश', 'Mahesh'], ['सुरेश', 'Suresh'], ['दिनेश', 'Dinesh'], ['नरेश', 'Naresh'], ['मनोज', 'Manoj'],
+  ['ज्योति', 'Jyoti'], ['शांति', 'Shanti'], ['पार्वती', 'Parvati'], ['रामनगर', 'Ramnagar']
+];
+
+const LATIN_BY_DEVANAGARI = new Map(NAME_WORDS.map(([deva, latin]) => [deva.normalize('NFC'), latin]));
+const DEVANAGARI_BY_LATIN = new Map(NAME_WORDS.flatMap(([deva, ...latin]) => latin.map(l => [l.toLowerCase(), deva] as const)));
+
+const titleCase = (word: string) => (word ? word[0].toUpperCase() + word.slice(1) : word);
+
+// --- Devanagari to Latin ---
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n', 'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n', 'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm', 'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h'
+};
+
+// Consonants with a nukta, mostly for Urdu and Persian sounds
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'gh', 'ज': 'z', 'फ': 'f', 'ड': 'r', 'ढ': 'rh', 'य': 'y'
+};
+
+// [short, long] spellings; ई and ऊ are written "ee" and "oo" where names usually are
+const VOWEL_SIGNS: Record<string, [string, string?]> = {
+  'ा': ['a'], 'ि': ['i'], 'ी': ['i', 'ee'], 'ु': ['u'], 'ू': ['u', 'oo'], 'े': ['e'], 'ै': ['ai'],
+  'ो': ['o'], 'ौ': ['au'], 'ृ': ['ri'], 'ॅ': ['e'], 'ॉ': ['o']
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'a', 'इ': 'i', 'ई': 'i', 'उ': 'u', 'ऊ': 'u', 'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au',
+  'ऋ': 'ri', 'ऑ': 'o'
+};
+
+const VIRAMA = '्';
+const NUKTA = '़';
+
+type Token =
+  /** `conjunct` marks a consonant joined to the next one by a virama */
+  | { kind: 'consonant'; text: string; conjunct?: boolean }
+  | { kind: 'vowel'; text: string; long?: string }
+  // The inherent "a" of a consonant with no vowel sign, which Hindi often leaves silent
+  | { kind: 'schwa' }
+  | { kind: 'nasal' }
+  | { kind: 'visarga' };
+
+const isVowel = (t?: Token) => t?.kind === 'vowel' || t?.kind === 'schwa';
+
+function tokenize(word: string): Token[] {
+  const chars = Array.from(word.normalize('NFD'));
+  const tokens: Token[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const last = tokens[tokens.length - 1];
+    if (CONSONANTS[ch]) {
+      let text = CONSONANTS[ch];
+      if (chars[i + 1] === NUKTA) {
+        text = NUKTA_CONSONANTS[ch] ?? text;
+        i++;
+      }
+      // व after a consonant is a glide (स्वामी → Swami); ज्ञ is said "gy" (ज्ञान → Gyan)
+      if (ch === 'व' && last?.kind === 'consonant') text = 'w';
+      if (ch === 'ञ' && last?.kind === 'consonant' && last.text === 'j') {
+        last.text = 'g';
+        text = 'y';
+      }
+      const next = chars[i + 1];
+      tokens.push({ kind: 'consonant', text, conjunct: next === VIRAMA });
+      if (next === VIRAMA) i++;
+      else if (VOWEL_SIGNS[next]) {
+        const [short, long] = VOWEL_SIGNS[next];
+        tokens.push({ kind: 'vowel', text: short, long });
+        i++;
+      } else tokens.push({ kind: 'schwa' });
+    } else if (VOWELS[ch]) {
+      tokens.push({ kind: 'vowel', text: VOWELS[ch] });
+    } else if (ch === 'ं' || ch === 'ँ') {
+      tokens.push({ kind: 'nasal' });
+    } else if (ch === 'ः') {
+      tokens.push({ kind: 'visarga' });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Drops the inherent "a" where Hindi doesn't pronounce it, scanning right to left:
+ * word-finally after a single consonant (राम → Ram, but मित्र → Mitra), and between
+ * a vowel and a consonant that carries its own vowel or starts a written conjunct
+ * (सरला → Sarla, गुरप्रीत → Gurpreet).
+ */
+function deleteSchwas(tokens: Token[]): Token[] {
+  const out = [...tokens];
+  const vowelCount = out.filter(isVowel).length;
+  for (let i = out.length - 1; i >= 0; i--) {
+    if (out[i].kind !== 'schwa') continue;
+    const afterSingleConsonant = out[i - 1]?.kind === 'consonant' && out[i - 2]?.kind !== 'consonant';
+    if (!afterSingleConsonant) continue;
+    const isFinal = i === out.length - 1;
+    const next = out[i + 1];
+    const beforeSyllable = next?.kind === 'consonant' && (next.conjunct || isVowel(out[i + 2]));
+    if (isFinal ? vowelCount > 1 : i >= 2 && beforeSyllable) {
+      out.splice(i, 1);
+    }
+  }
+  return out;
+}
+
+function render(tokens: Token[]): string {
+  const firstVowel = tokens.findIndex(isVowel);
+  return tokens.map((t, i) => {
+    switch (t.kind) {
+      case 'consonant': return t.text;
+      case 'schwa': return 'a';
+      case 'visarga': return 'h';
+      case 'nasal': {
+        const next = tokens[i + 1];
+        return next?.kind === 'consonant' && /^[pbm]/.test(next.text) ? 'm' : 'n';
+      }
+      case 'vowel': {
+        if (!t.long) return t.text;
+        // Long in a first or closing syllable (Geeta, Rajeev), short in the middle or at the end (Sunita, Lakshmi)
+        const rest = tokens.slice(i + 1);
+        const closesWord = rest.length > 0 && rest.every(r => r.kind === 'consonant');
+        return rest.length > 0 && (i === firstVowel || closesWord) ? t.long : t.text;
+      }
+    }
+  }).join('');
+}
+
+/** Latin spelling of Devanagari text, following common conventions for Indian names */
+export function toLatin(text: string): string {
+  return toAsciiDigits(text).replace(/[ऀ-ॿ]+/g, word => {
+    const known = LATIN_BY_DEVANAGARI.get(word.normalize('NFC'));
+    return known ?? titleCase(render(deleteSchwas(tokenize(word))));
+  });
+}
+
+// --- Latin to Devanagari ---
+
+// Longest spellings first so "chh" is not read as "ch" + "h"
+const LATIN_CONSONANTS: [string, string][] = [
+  ['ksh', 'क्ष'], ['chh', 'छ'], ['kh', 'ख'], ['gh', 'घ'], ['ch', 'च'], ['jh', 'झ'], ['th', 'थ'], ['dh', 'ध'],
+  ['ph', 'फ'], ['bh', 'भ'], ['sh', 'श'], ['gy', 'ज्ञ'], ['k', 'क'], ['g', 'ग'], ['c', 'क'], ['j', 'ज'], ['t', 'त'],
+  ['d', 'द'], ['n', 'न'], ['p', 'प'], ['b', 'ब'], ['m', 'म'], ['y', 'य'], ['r', 'र'], ['l', 'ल'], ['v', 'व'],
+  ['w', 'व'], ['s', 'स'], ['h', 'ह'], ['f', 'फ़'], ['z', 'ज़'], ['q', 'क़'], ['x', 'क्स']
+];
+
+// [spelling, vowel sign, independent vowel]; a short "a" after a consonant is its inherent vowel
+const LATIN_VOWELS: [string, string, string][] = [
+  ['aa', 'ा', 'आ'], ['ai', 'ै', 'ऐ'], ['au', 'ौ', 'औ'], ['ee', 'ी', 'ई'], ['ii', 'ी', 'ई'], ['oo', 'ू', 'ऊ'],
+  ['uu', 'ू', 'ऊ'], ['a', '', 'अ'], ['i', 'ि', 'इ'], ['u', 'ु', 'उ'], ['e', 'े', 'ए'], ['o', 'ो', 'ओ']
+];
+
+// Names end in a long vowel far more often than a short one: Sunita, Lakshmi, Raju
+const FINAL_VOWEL_SIGNS: Record<string, string> = { a: 'ा', i: 'ी', u: 'ू' };
+
+// A nasal before a consonant of its own class is written as anusvara: Chandan → चंदन
+const ANUSVARA_BEFORE: Record<string, string[]> = {
+  n: ['k', 'kh', 'g', 'gh', 'ch', 'chh', 'j', 'jh', 't', 'th', 'd', 'dh'],
+  m: ['p', 'ph', 'b', 'bh']
+};
+
+function latinWordToDevanagari(word: string): string {
+  const lower = word.toLowerCase();
+  const known = DEVANAGARI_BY_LATIN.get(lower);
+  if (known) return known;
+
+  let out = '';
+  // Spelling of a consonant still waiting for its vowel
+  let pending: string | null = null;
+  for (let i = 0; i < lower.length;) {
+    const vowel = LATIN_VOWELS.find(([spelling]) => lower.startsWith(spelling, i));
+    if (vowel) {
+      const [spelling, sign, independent] = vowel;
+      const isLast = i + spelling.length === lower.length;
+      out += pending === null ? independent : (isLast && FINAL_VOWEL_SIGNS[spelling]) || sign;
+      pending = null;
+      i += spelling.length;
+      continue;
+    }
+    const consonant = LATIN_CONSONANTS.find(([spelling]) => lower.startsWith(spelling, i));
+    if (consonant) {
+      const [spelling, letter] = consonant;
+      if (pending !== null) {
+        if (ANUSVARA_BEFORE[pending]?.includes(spelling)) out = out.slice(0, -1) + 'ं';
+        else out += VIRAMA;
+      }
+      out += letter;
+      pending = spelling;
+      i += spelling.length;
+      continue;
+    }
+    i++;
+  }
+  return out;
+}
+
+/** Devanagari spelling of romanised Indian text; the inverse of `toLatin` for common names */
+export function toDevanagari(text: string): string {
+  return text.replace(/[A-Za-z]+/g, latinWordToDevanagari);
+}
+
+/** Devanagari for text made only of words the name list knows, e.g. "Sunita Sharma"; undefined otherwise */
+export function knownDevanagari(text: string): string | undefined {
+  const words = text.match(/[A-Za-z]+/g) || [];
+  if (words.length === 0 || !words.every(w => DEVANAGARI_BY_LATIN.has(w.toLowerCase()))) return undefined;
+  return toDevanagari(text);
+}
+
+// --- Form Values ---
+
+export function hasLatinSpelling(field: FormFieldSchema): boolean {
+  return DUAL_SCRIPT_TYPES.includes(field.type);
+}
+
+/**
+ * Both spellings of a value captured in either script. Hindi and Marathi forms keep the
+ * Devanagari spelling as the value with a Latin one beside it; other languages keep the
+ * value as captured and only get a Latin spelling when it was captured in Latin.
+ * Well-known places use their official names rather than a letter-by-letter spelling.
+ * Latin is only turned into Devanagari when every word is a known name: the letter rules
+ * can't tell how a Latin spelling is said (Shyam → श्यम), so anything else stays as captured.
+ */
+export function dualScript(field: FormFieldSchema, value: string, language: LanguageCode): { value: string; latin: string } {
+  const writesDevanagari = DEVANAGARI_LANGUAGES.includes(language);
+  const place = field.type === 'place' ? knownPlace(value) : undefined;
+  if (place) return { value: writesDevanagari ? place.deva : value, latin: place.latin };
+  if (isDevanagari(value)) return { value, latin: toLatin(value) };
+  if (!/[A-Za-z]/.test(value)) return { value, latin: '' };
+  return { value: (writesDevanagari && knownDevanagari(value)) || value, latin: value };
+}
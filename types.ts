@@ -1,23 +1,221 @@
+export type FormData = Record<string, string>;
 
-export interface FormData {
-  fullName: string;
-  dob: string;
-  city: string;
+export type FieldSource = 'voice' | 'document' | 'typed';
+
+/** Where a field value came from and how sure we are of it */
+export interface FieldProvenance {
+  source: FieldSource;
+  /** ISO timestamp of when the value was set */
+  at: string;
+  /** 0–1; combines model-reported confidence with how cleanly the value validated */
+  confidence: number;
+}
+
+export type FormProvenance = Record<string, FieldProvenance>;
+
+/** A targeted fix of one field; the new value is only applied once confirmed */
+export interface FieldCorrection {
+  fieldId: string;
+  oldValue: string;
+  /** Heard or scanned value awaiting the user's confirmation */
+  proposedValue?: string;
+  proposedConfidence?: number;
+}
+
+export type LanguageCode = 'hi' | 'pa' | 'bn' | 'mr' | 'ta';
+
+/** Translations keyed by language; the Hindi default lives on the owning object */
+export type LocalizedText = Partial<Record<LanguageCode, string>>;
+
+export type FormFieldType = 'name' | 'text' | 'date' | 'place' | 'number' | 'phone';
+
+export interface FormFieldSchema {
+  id: string;
+  label: string;
+  labels?: LocalizedText;
+  type: FormFieldType;
+  required: boolean;
+  prompt: string;
+  description?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface FormSchema {
+  id: string;
+  title: string;
+  titles?: LocalizedText;
+  description: string;
+  fields: FormFieldSchema[];
 }
 
 export enum SessionState {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
+  RECONNECTING = 'RECONNECTING',
   LISTENING = 'LISTENING',
   THINKING = 'THINKING',
   SPEAKING = 'SPEAKING',
   DONE = 'DONE',
   ERROR = 'ERROR',
-  EXTRACTING = 'EXTRACTING'
+  EXTRACTING = 'EXTRACTING',
+  READING_ALOUD = 'READING_ALOUD',
+  SUBMITTING = 'SUBMITTING',
+  ASKING_CONSENT = 'ASKING_CONSENT',
+  CAPTURING = 'CAPTURING',
+  REVIEWING_SCAN = 'REVIEWING_SCAN',
+  CONFIRMING_DUPLICATE = 'CONFIRMING_DUPLICATE',
+  SUBMIT_QUEUED = 'SUBMIT_QUEUED',
+  OPERATOR = 'OPERATOR',
+  GETTING_HELP = 'GETTING_HELP'
 }
 
 export interface TranscriptionRecord {
   role: 'user' | 'assistant';
   text: string;
   timestamp: number;
+  /** Recorded audio for this turn, kept in the `audioClips` store */
+  audioClipId?: string;
+}
+
+export type DocumentType = 'aadhaar' | 'pan' | 'voter_id' | 'other';
+
+/** An identity document scanned for an application */
+export interface ScannedDocument {
+  type: DocumentType;
+  /** Aadhaar numbers are masked to the last four digits; empty when none was read */
+  number: string;
+  numberValid: boolean;
+  scannedAt: string;
+}
+
+/** Raw mono 16-bit PCM for one conversation turn */
+export interface AudioClip {
+  id: string;
+  sampleRate: number;
+  pcm: ArrayBuffer;
+}
+
+export type ConsentScope = 'conversation' | 'documents';
+
+/** An applicant's answer to a consent notice, kept with the draft and the submission */
+export interface ConsentRecord {
+  scope: ConsentScope;
+  agreed: boolean;
+  /** 'voice' when the applicant answered the assistant, 'tap' when the operator entered their answer */
+  method: 'voice' | 'tap';
+  language: LanguageCode;
+  /** The notice exactly as it was read out */
+  notice: string;
+  at: string;
+}
+
+/** An application still being filled in; several can be open at once */
+export interface Draft {
+  id: string;
+  formType: string;
+  language?: LanguageCode;
+  values: FormData;
+  /** Latin spellings of name, place and text values, keyed like `values` */
+  latin?: FormData;
+  provenance?: FormProvenance;
+  documents?: ScannedDocument[];
+  transcript: TranscriptionRecord[];
+  consent?: ConsentRecord[];
+  updatedAt: string;
+  /** Queue number handed to the applicant in kiosk mode */
+  token?: number;
+}
+
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
+export interface Submission {
+  id?: number;
+  formType: string;
+  language?: LanguageCode;
+  values: FormData;
+  /** Latin spellings of name, place and text values, keyed like `values` */
+  latin?: FormData;
+  provenance?: FormProvenance;
+  documents?: ScannedDocument[];
+  summary?: string;
+  /** The conversation the values were collected from, kept as evidence */
+  transcript?: TranscriptionRecord[];
+  consent?: ConsentRecord[];
+  /** Operator edits made after submission, oldest first */
+  amendments?: Amendment[];
+  submittedAt: string;
+  // Outbox state maintained by the sync worker
+  idempotencyKey?: string;
+  /** Idempotency key of the delivered version this amended or replacing record supersedes */
+  supersedes?: string;
+  /** Idempotency key of an earlier record the operator linked as the same applicant */
+  linkedTo?: string;
+  syncStatus?: SyncStatus;
+  syncAttempts?: number;
+  /** When the next automatic retry is due; absent once retries are exhausted */
+  nextSyncAt?: string;
+  lastSyncError?: string;
+  syncedAt?: string;
+}
+
+/** One edit of a submitted record; the replaced values are kept with the record */
+export interface Amendment {
+  at: string;
+  previous: FormData;
+}
+
+export type SyncState = Pick<Submission, 'syncStatus' | 'syncAttempts' | 'nextSyncAt' | 'lastSyncError' | 'syncedAt'>;
+
+export type NewSubmission = Pick<Submission, 'formType' | 'language' | 'values' | 'latin' | 'provenance' | 'documents' | 'summary' | 'transcript' | 'consent'>;
+
+/** What the operator chose when a new submission looked like an earlier one */
+export type DuplicateResolution =
+  | { action: 'link'; submissionId: number }
+  | { action: 'replace'; submissionId: number }
+  | { action: 'proceed' };
+
+export interface SubmissionQuery {
+  /** Prefix match against any word of the name, or the start of the city */
+  search?: string;
+  /** Inclusive ISO timestamps */
+  from?: string;
+  to?: string;
+  order?: 'newest' | 'oldest';
+  limit?: number;
+  /** Opaque cursor returned by the previous page */
+  after?: string;
+}
+
+export interface SubmissionPage {
+  items: Submission[];
+  next?: string;
+}
+
+/** Settings for removing old records automatically; an unset limit keeps records forever */
+export interface RetentionPolicy {
+  /** Days after a submission was accepted by the backend */
+  syncedDays?: number;
+  /** Days since a draft was last changed */
+  draftDays?: number;
+}
+
+export type AuditAction = 'delete' | 'amend' | 'discard' | 'purge' | 'clear' | 'replace';
+
+/**
+ * A record of one deletion or edit. Stored in the clear and never removed by
+ * clearing or retention, so it must not hold anything that identifies the applicant.
+ */
+export interface AuditEntry {
+  id?: number;
+  action: AuditAction;
+  target: 'submission' | 'draft' | 'all';
+  /** Submission id or draft id; absent when everything was cleared */
+  recordId?: number | string;
+  formType?: string;
+  /** Field ids changed by an amendment, never their values */
+  fields?: string[];
+  /** Records removed by a clear */
+  count?: number;
+  at: string;
 }
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { FormFieldSchema, FormFieldType } from './types';
+import {
+  toAsciiDigits, parseSpokenNumber, parseSpokenDate, validateField, canonicalizePlace,
+  isValidVerhoeff, validateAadhaar, maskAadhaar, validatePan, validateVoterId
+} from './validation';
+
+const field = (type: FormFieldType, extra: Partial<FormFieldSchema> = {}): FormFieldSchema =>
+  ({ id: type, label: type, type, required: true, prompt: '', ...extra });
+
+describe('toAsciiDigits', () => {
+  it.each([
+    ['Devanagari', '१२३४५६७८९०'],
+    ['Bengali', '১২৩৪৫৬৭৮৯০'],
+    ['Gurmukhi', '੧੨੩੪੫੬੭੮੯੦'],
+    ['Tamil', '௧௨௩௪௫௬௭௮௯௦']
+  ])('maps %s digits', (_, digits) => {
+    expect(toAsciiDigits(digits)).toBe('1234567890');
+  });
+
+  it('leaves letters alone', () => {
+    expect(toAsciiDigits('सन १९९०')).toBe('सन 1990');
+  });
+});
+
+describe('parseSpokenNumber', () => {
+  it('reads Hindi and Hinglish number words', () => {
+    expect(parseSpokenNumber(['unnees', 'sau', 'nabbe'])).toBe(1990);
+    expect(parseSpokenNumber(['दो', 'हजार', 'पांच'])).toBe(2005);
+    expect(parseSpokenNumber(['pandraah'])).toBe(15);
+  });
+
+  it('returns null for anything that is not a number', () => {
+    expect(parseSpokenNumber(['bahut'])).toBeNull();
+    expect(parseSpokenNumber([])).toBeNull();
+  });
+});
+
+describe('parseSpokenDate', () => {
+  it.each([
+    ['15/08/1990'],
+    ['1990-08-15'],
+    ['pandrah August unnees sau nabbe'],
+    ['१५ अगस्त १९९०'],
+    ['১৫/০৮/১৯৯০'],
+    ['੧੫-੦੮-੧੯੯੦'],
+    ['௧௫.௦௮.௧௯௯௦']
+  ])('reads %s', (input) => {
+    expect(parseSpokenDate(input)).toEqual({ day: 15, month: 8, year: 1990 });
+  });
+
+  it('needs a day before the month', () => {
+    expect(parseSpokenDate('August 1990')).toBeNull();
+  });
+});
+
+describe('validateField', () => {
+  it('formats dates and is less sure of spoken ones', () => {
+    expect(validateField(field('date'), '5/3/1950')).toMatchObject({ ok: true, value: '05/03/1950', confidence: 1 });
+    expect(validateField(field('date'), 'paanch march unnees sau pachaas')).toMatchObject({ ok: true, value: '05/03/1950', confidence: 0.85 });
+  });
+
+  it('rejects dates that do not exist, are in the future or too old', () => {
+    expect(validateField(field('date'), '30/02/1988').code).toBe('invalid_date');
+    expect(validateField(field('date'), `01/01/${new Date().getFullYear() + 1}`).code).toBe('future_date');
+    expect(validateField(field('date'), '01/01/1850').code).toBe('date_too_old');
+  });
+
+  it('normalizes mobile numbers in any supported digits', () => {
+    expect(validateField(field('phone'), '+91 98765 43210').value).toBe('9876543210');
+    expect(validateField(field('phone'), '৯৮৭৬৫৪৩২১০').value).toBe('9876543210');
+    expect(validateField(field('phone'), '12345').code).toBe('invalid_phone');
+  });
+
+  it('checks number ranges', () => {
+    expect(validateField(field('number', { min: 1, max: 20 }), 'paanch').value).toBe('5');
+    expect(validateField(field('number', { min: 1, max: 20 }), '௨௫').code).toBe('out_of_range');
+  });
+
+  it('title-cases names and refuses digits in them', () => {
+    expect(validateField(field('name'), '  sunita   sharma ').value).toBe('Sunita Sharma');
+    expect(validateField(field('name'), 'Sunita ੨').code).toBe('invalid_name');
+  });
+
+  it('rejects empty input', () => {
+    expect(validateField(field('text'), '  ').code).toBe('empty');
+  });
+});
+
+describe('canonicalizePlace', () => {
+  it('maps old and alternate names onto the official one in the same script', () => {
+    expect(canonicalizePlace('bombay')).toBe('Mumbai');
+    expect(canonicalizePlace('कलकत्ता')).toBe('कोलकाता');
+    expect(canonicalizePlace('new   delhi')).toBe('Delhi');
+  });
+
+  it('title-cases places it does not know and is less sure of them', () => {
+    expect(canonicalizePlace('sitapur')).toBe('Sitapur');
+    expect(validateField(field('place'), 'sitapur').confidence).toBe(0.6);
+    expect(validateField(field('place'), 'Lucknow').confidence).toBe(1);
+  });
+});
+
+describe('identity numbers', () => {
+  it('checks the Aadhaar Verhoeff digit', () => {
+    expect(isValidVerhoeff('234123412346')).toBe(true);
+    expect(isValidVerhoeff('234123412347')).toBe(false);
+    expect(validateAadhaar('2341 2341 2346')).toMatchObject({ ok: true, value: '234123412346' });
+    expect(validateAadhaar('२३४१-२३४१-२३४६').ok).toBe(true);
+    expect(validateAadhaar('234123412347').code).toBe('aadhaar_checksum');
+    expect(validateAadhaar('134123412346').code).toBe('aadhaar_format');
+  });
+
+  it('keeps only the last four Aadhaar digits when masking', () => {
+    expect(maskAadhaar('234123412346')).toBe('XXXX XXXX 2346');
+  });
+
+  it('checks PAN and voter ID formats', () => {
+    expect(validatePan('abcpe 1234f').value).toBe('ABCPE1234F');
+    expect(validatePan('ABCDE1234F').code).toBe('pan_format');
+    expect(validateVoterId('abc/1234567').value).toBe('ABC1234567');
+    expect(validateVoterId('AB12345678').code).toBe('epic_format');
+  });
+});
@@ -0,0 +1,330 @@
+import { FormFieldSchema } from './types';
+
+export interface ValidationResult {
+  ok: boolean;
+  value: string;
+  code?: string;
+  /** In English for the assistant, which tells the applicant in the session language */
+  message?: string;
+  /** 0–1: how unambiguously the input mapped to the normalized value */
+  confidence?: number;
+}
+
+// Inputs made only of digits and separators leave nothing to interpret
+const isNumericInput = (raw: string) => /^[\d\s\/.\-]+$/.test(toAsciiDigits(raw).trim());
+
+const fail = (code: string, message: string): ValidationResult => ({ ok: false, value: '', code, message });
+
+// --- Script Helpers ---
+// Zero of the digits each supported language may be spoken or typed in:
+// Devanagari (Hindi, Marathi), Bengali, Gurmukhi (Punjabi) and Tamil
+const DIGIT_ZEROS = [0x966, 0x9e6, 0xa66, 0xbe6];
+const NATIVE_DIGITS = DIGIT_ZEROS.map(z => `\\u{${z.toString(16)}}-\\u{${(z + 9).toString(16)}}`).join('');
+const NATIVE_DIGIT_RE = new RegExp(`[${NATIVE_DIGITS}]`, 'gu');
+const DEVANAGARI_RE = /[ऀ-ॿ]/;
+
+export function toAsciiDigits(input: string): string {
+  return input.replace(NATIVE_DIGIT_RE, d => {
+    const code = d.codePointAt(0)!;
+    return String(code - DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!);
+  });
+}
+
+export function isDevanagari(input: string): boolean {
+  return DEVANAGARI_RE.test(input);
+}
+
+/**
+ * Folds common Hinglish spelling variants onto one key ("pandraah" / "pandrah" / "pandra"),
+ * and drops nukta / chandrabindu differences in Devanagari.
+ */
+function normalizeToken(token: string): string {
+  if (isDevanagari(token)) {
+    return token.replace(/़/g, '').replace(/ँ/g, 'ं').replace(/[ःॅ]$/, '');
+  }
+  return token
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/w/g, 'v')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/ch/g, 'c')
+    .replace(/([aeiou])h$/, '$1');
+}
+
+// --- Hindi Number Words ---
+// [value, Hinglish spellings, Devanagari spellings]
+const NUMBER_WORDS: [number, string, string][] = [
+  [1, 'ek', 'एक'], [2, 'do', 'दो'], [3, 'teen', 'तीन'], [4, 'chaar', 'चार'], [5, 'paanch', 'पांच'],
+  [6, 'chhah|chhe|chheh', 'छह|छः|छै'], [7, 'saat', 'सात'], [8, 'aath', 'आठ'], [9, 'nau', 'नौ'], [10, 'das', 'दस'],
+  [11, 'gyaarah', 'ग्यारह'], [12, 'baarah', 'बारह'], [13, 'terah', 'तेरह'], [14, 'chaudah', 'चौदह'], [15, 'pandrah', 'पंद्रह|पन्द्रह'],
+  [16, 'solah', 'सोलह'], [17, 'satrah', 'सत्रह'], [18, 'athaarah|attharah', 'अठारह'], [19, 'unnees|unis', 'उन्नीस'], [20, 'bees', 'बीस'],
+  [21, 'ikkees', 'इक्कीस'], [22, 'baees|bais', 'बाईस'], [23, 'teis|teyis', 'तेईस'], [24, 'chaubees', 'चौबीस'], [25, 'pachchees|pachees', 'पच्चीस'],
+  [26, 'chhabbees', 'छब्बीस'], [27, 'sattaees|sattais', 'सत्ताईस'], [28, 'atthaees|atthais', 'अट्ठाईस|अठ्ठाईस'], [29, 'untees', 'उनतीस|उन्तीस'], [30, 'tees', 'तीस'],
+  [31, 'iktees|ikattees', 'इकतीस|इकत्तीस'], [32, 'battees', 'बत्तीस'], [33, 'taintees|tentees', 'तैंतीस'], [34, 'chauntees|chautees', 'चौंतीस|चौतीस'], [35, 'paintees', 'पैंतीस'],
+  [36, 'chhattees', 'छत्तीस'], [37, 'saintees', 'सैंतीस'], [38, 'adtees|artees', 'अड़तीस'], [39, 'untaalees', 'उनतालीस'], [40, 'chaalees', 'चालीस'],
+  [41, 'iktaalees', 'इकतालीस'], [42, 'bayaalees', 'बयालीस'], [43, 'taintaalees|tentaalees', 'तैंतालीस'], [44, 'chavaalees|chauvaalees', 'चवालीस|चौवालीस'], [45, 'paintaalees', 'पैंतालीस'],
+  [46, 'chhiyaalees', 'छियालीस'], [47, 'saintaalees', 'सैंतालीस'], [48, 'adtaalees|artaalees', 'अड़तालीस'], [49, 'unchaas', 'उनचास'], [50, 'pachaas', 'पचास'],
+  [51, 'ikyaavan', 'इक्यावन'], [52, 'baavan', 'बावन'], [53, 'tirpan', 'तिरपन'], [54, 'chauvan', 'चौवन'], [55, 'pachpan', 'पचपन'],
+  [56, 'chhappan', 'छप्पन'], [57, 'sattaavan', 'सत्तावन'], [58, 'atthaavan', 'अट्ठावन'], [59, 'unsath', 'उनसठ'], [60, 'saath', 'साठ'],
+  [61, 'iksath', 'इकसठ'], [62, 'baasath', 'बासठ'], [63, 'tirsath', 'तिरसठ'], [64, 'chausath|chaunsath', 'चौंसठ|चौसठ'], [65, 'painsath', 'पैंसठ'],
+  [66, 'chhiyaasath', 'छियासठ'], [67, 'sadsath|sarsath', 'सड़सठ'], [68, 'adsath|arsath', 'अड़सठ'], [69, 'unhattar', 'उनहत्तर'], [70, 'sattar', 'सत्तर'],
+  [71, 'ikhattar', 'इकहत्तर'], [72, 'bahattar', 'बहत्तर'], [73, 'tihattar', 'तिहत्तर'], [74, 'chauhattar', 'चौहत्तर'], [75, 'pachhattar', 'पचहत्तर'],
+  [76, 'chhihattar', 'छिहत्तर'], [77, 'sathattar|satattar', 'सतहत्तर'], [78, 'athhattar|athattar', 'अठहत्तर'], [79, 'unaasi|unyaasi', 'उन्यासी|उनासी'], [80, 'assi', 'अस्सी'],
+  [81, 'ikyaasi', 'इक्यासी'], [82, 'bayaasi', 'बयासी'], [83, 'tiraasi', 'तिरासी'], [84, 'chauraasi', 'चौरासी'], [85, 'pachaasi', 'पचासी'],
+  [86, 'chhiyaasi', 'छियासी'], [87, 'sattaasi', 'सत्तासी'], [88, 'atthaasi', 'अट्ठासी'], [89, 'navaasi', 'नवासी'], [90, 'nabbe|nabbey', 'नब्बे'],
+  [91, 'ikyaanve|ikyaanbe', 'इक्यानबे'], [92, 'baanve|baanbe', 'बानबे'], [93, 'tiraanve|tiraanbe', 'तिरानबे'], [94, 'chauraanve|chauraanbe', 'चौरानबे'], [95, 'pachaanve|pachaanbe', 'पचानबे'],
+  [96, 'chhiyaanve|chhiyaanbe', 'छियानबे'], [97, 'sattaanve|sattaanbe', 'सत्तानबे'], [98, 'atthaanve|atthaanbe', 'अट्ठानबे'], [99, 'ninyaanve|ninyaanbe', 'निन्यानबे'],
+  [100, 'sau', 'सौ'], [1000, 'hazaar|hajaar|hazar', 'हजार']
+];
+
+const NUMBER_LOOKUP = new Map<string, number>();
+NUMBER_WORDS.forEach(([value, latin, deva]) => {
+  const devaVariants = deva.split('|').flatMap(w => (w.endsWith('नबे') ? [w, w.replace(/नबे$/, 'नवे')] : [w]));
+  [...latin.split('|'), ...devaVariants].forEach(w => NUMBER_LOOKUP.set(normalizeToken(w), value));
+});
+
+/**
+ * Parses a run of digit or Hindi number-word tokens ("unnees sau nabbe", "do hazaar paanch", "1990").
+ * Returns null if any token is not numeric.
+ */
+export function parseSpokenNumber(tokens: string[]): number | null {
+  if (tokens.length === 0) return null;
+  let total = 0;
+  let current = 0;
+  for (const raw of tokens) {
+    const token = toAsciiDigits(raw).replace(/^(\d+)(st|nd|rd|th)$/i, '$1');
+    let n: number | undefined;
+    if (/^\d+$/.test(token)) n = parseInt(token, 10);
+    else n = NUMBER_LOOKUP.get(normalizeToken(token));
+    if (n === undefined) return null;
+    if (n === 100) current = (current || 1) * 100;
+    else if (n === 1000) { total += (current || 1) * 1000; current = 0; }
+    else current += n;
+  }
+  return total + current;
+}
+
+// --- Dates ---
+const MONTHS: [number, string][] = [
+  [1, 'january|jan|janvari|जनवरी'], [2, 'february|feb|farvari|pharvari|फरवरी'], [3, 'march|mar|maarch|मार्च'],
+  [4, 'april|apr|aprail|अप्रैल'], [5, 'may|mai|मई'], [6, 'june|jun|joon|जून'],
+  [7, 'july|jul|julai|जुलाई'], [8, 'august|aug|agast|अगस्त'], [9, 'september|sep|sept|sitambar|सितंबर|सितम्बर'],
+  [10, 'october|oct|aktubar|aktoobar|अक्टूबर|अक्तूबर'], [11, 'november|nov|navambar|नवंबर|नवम्बर'], [12, 'december|dec|disambar|दिसंबर|दिसम्बर']
+];
+
+const MONTH_LOOKUP = new Map<string, number>();
+MONTHS.forEach(([month, names]) => names.split('|').forEach(n => MONTH_LOOKUP.set(normalizeToken(n), month)));
+
+const DATE_FILLER = new Set(['tarikh', 'tarik', 'san', 'sal', 'year', 'ko', 'ki', 'तारीख', 'तारिख', 'सन', 'साल', 'को', 'की'].map(normalizeToken));
+
+export interface DateParts {
+  day: number;
+  month: number;
+  year: number;
+}
+
+const expandYear = (y: number): number => {
+  if (y >= 100) return y;
+  const pivot = new Date().getFullYear() % 100;
+  return y > pivot ? 1900 + y : 2000 + y;
+};
+
+/**
+ * Parses numeric (15/08/1990, 1990-08-15) and spoken Hindi / Hinglish dates
+ * ("pandrah August unnees sau nabbe", "१५ अगस्त १९९०").
+ */
+export function parseSpokenDate(input: string): DateParts | null {
+  const text = toAsciiDigits(input).trim();
+
+  const dmy = text.match(/^(\d{1,2})\s*[\/\-. ]\s*(\d{1,2})\s*[\/\-. ]\s*(\d{2,4})$/);
+  if (dmy) return { day: +dmy[1], month: +dmy[2], year: expandYear(+dmy[3]) };
+
+  const ymd = text.match(/^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/);
+  if (ymd) return { day: +ymd[3], month: +ymd[2], year: +ymd[1] };
+
+  const tokens = text.split(/[\s,\/\-.]+/).filter(t => t && !DATE_FILLER.has(normalizeToken(t)));
+  const monthIndex = tokens.findIndex(t => MONTH_LOOKUP.has(normalizeToken(t)));
+  if (monthIndex <= 0) return null;
+
+  const day = parseSpokenNumber(tokens.slice(0, monthIndex));
+  const year = parseSpokenNumber(tokens.slice(monthIndex + 1));
+  if (day === null || year === null) return null;
+  return { day, month: MONTH_LOOKUP.get(normalizeToken(tokens[monthIndex]))!, year: expandYear(year) };
+}
+
+export function formatDate({ day, month, year }: DateParts): string {
+  return `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`;
+}
+
+function validateDate(raw: string): ValidationResult {
+  const parts = parseSpokenDate(raw);
+  if (!parts) return fail('unparseable_date', 'The date could not be understood; ask for the day, month and year.');
+  const { day, month, year } = parts;
+  const date = new Date(year, month - 1, day);
+  if (month < 1 || month > 12 || date.getDate() !== day || date.getMonth() !== month - 1) {
+    return fail('invalid_date', 'This date does not exist.');
+  }
+  if (date.getTime() > Date.now()) return fail('future_date', 'A date of birth cannot be in the future.');
+  if (year < new Date().getFullYear() - 120) return fail('date_too_old', 'The year is too far in the past.');
+  return { ok: true, value: formatDate(parts), confidence: isNumericInput(raw) ? 1 : 0.85 };
+}
+
+// --- Places ---
+// Canonical spelling per script, with common alternate / historic names
+const CITIES: { latin: string; deva: string; aliases: string[] }[] = [
+  { latin: 'Delhi', deva: 'दिल्ली', aliases: ['new delhi', 'dilli', 'dehli', 'नई दिल्ली', 'देहली'] },
+  { latin: 'Mumbai', deva: 'मुंबई', aliases: ['bombay', 'bambai', 'बंबई', 'बम्बई', 'मुम्बई'] },
+  { latin: 'Kolkata', deva: 'कोलकाता', aliases: ['calcutta', 'kalkatta', 'कलकत्ता'] },
+  { latin: 'Chennai', deva: 'चेन्नई', aliases: ['madras', 'मद्रास'] },
+  { latin: 'Bengaluru', deva: 'बेंगलुरु', aliases: ['bangalore', 'bengaluru', 'बैंगलोर', 'बंगलौर', 'बेंगलूरु'] },
+  { latin: 'Prayagraj', deva: 'प्रयागराज', aliases: ['allahabad', 'इलाहाबाद'] },
+  { latin: 'Varanasi', deva: 'वाराणसी', aliases: ['banaras', 'benares', 'kashi', 'बनारस', 'काशी'] },
+  { latin: 'Gurugram', deva: 'गुरुग्राम', aliases: ['gurgaon', 'गुड़गांव', 'गुडगाँव'] },
+  { latin: 'Lucknow', deva: 'लखनऊ', aliases: ['lakhnau'] },
+  { latin: 'Kanpur', deva: 'कानपुर', aliases: ['cawnpore'] },
+  { latin: 'Pune', deva: 'पुणे', aliases: ['poona', 'पूना'] },
+  { latin: 'Patna', deva: 'पटना', aliases: [] },
+  { latin: 'Jaipur', deva: 'जयपुर', aliases: [] },
+  { latin: 'Bhopal', deva: 'भोपाल', aliases: [] },
+  { latin: 'Indore', deva: 'इंदौर', aliases: ['इन्दौर'] },
+  { latin: 'Ahmedabad', deva: 'अहमदाबाद', aliases: ['amdavad', 'अमदावाद'] },
+  { latin: 'Chandigarh', deva: 'चंडीगढ़', aliases: ['चण्डीगढ़'] },
+  { latin: 'Amritsar', deva: 'अमृतसर', aliases: [] },
+  { latin: 'Ludhiana', deva: 'लुधियाना', aliases: [] },
+  { latin: 'Hyderabad', deva: 'हैदराबाद', aliases: [] },
+  { latin: 'Thiruvananthapuram', deva: 'तिरुवनंतपुरम', aliases: ['trivandrum', 'त्रिवेंद्रम'] },
+  { latin: 'Vadodara', deva: 'वडोदरा', aliases: ['baroda', 'बड़ौदा'] },
+  { latin: 'Mysuru', deva: 'मैसूर', aliases: ['mysore', 'मैसूरु'] }
+];
+
+const placeKey = (s: string) => (isDevanagari(s) ? normalizeToken(s.replace(/\s+/g, '')) : s.toLowerCase().replace(/[^a-z]/g, ''));
+
+const CITY_LOOKUP = new Map<string, (typeof CITIES)[number]>();
+CITIES.forEach(c => [c.latin, c.deva, ...c.aliases].forEach(a => CITY_LOOKUP.set(placeKey(a), c)));
+
+const titleCase = (s: string) => s.replace(/[A-Za-z]+/g, w => w[0].toUpperCase() + w.slice(1).toLowerCase());
+const collapseSpaces = (s: string) => s.trim().replace(/\s+/g, ' ');
+
+/** Official spellings of a well-known place, matched by any common or historic name */
+export function knownPlace(raw: string): { latin: string; deva: string } | undefined {
+  return CITY_LOOKUP.get(placeKey(collapseSpaces(raw)));
+}
+
+export function canonicalizePlace(raw: string): string {
+  const value = collapseSpaces(raw);
+  const known = knownPlace(value);
+  if (known) return isDevanagari(value) ? known.deva : known.latin;
+  return titleCase(value);
+}
+
+const isKnownPlace = (raw: string) => CITY_LOOKUP.has(placeKey(collapseSpaces(raw)));
+
+function validatePlace(raw: string): ValidationResult {
+  const value = collapseSpaces(raw);
+  if (value.length < 2 || /\d/.test(toAsciiDigits(value))) return fail('invalid_place', 'The city or village name is not clear.');
+  // Unknown places are accepted as heard but may be misrecognized
+  return { ok: true, value: canonicalizePlace(value), confidence: isKnownPlace(value) ? 1 : 0.6 };
+}
+
+// --- Other Field Types ---
+function validateName(raw: string): ValidationResult {
+  const value = collapseSpaces(raw);
+  if (value.length < 2) return fail('name_too_short', 'The name is too short; ask for the full name.');
+  if (/\d/.test(toAsciiDigits(value))) return fail('invalid_name', 'A name cannot contain digits.');
+  return { ok: true, value: titleCase(value), confidence: 0.9 };
+}
+
+function validatePhone(raw: string): ValidationResult {
+  const digits = toAsciiDigits(raw).replace(/\D/g, '').replace(/^(91|0)(?=\d{10}$)/, '');
+  if (!/^[6-9]\d{9}$/.test(digits)) return fail('invalid_phone', 'A mobile number has 10 digits and starts with 6, 7, 8 or 9.');
+  return { ok: true, value: digits, confidence: 1 };
+}
+
+function validateNumber(field: FormFieldSchema, raw: string): ValidationResult {
+  const n = parseSpokenNumber(collapseSpaces(raw).split(' '));
+  if (n === null) return fail('invalid_number', 'The number could not be understood.');
+  if ((field.min !== undefined && n < field.min) || (field.max !== undefined && n > field.max)) {
+    return fail('out_of_range', `The number must be between ${field.min ?? 0} and ${field.max ?? '∞'}.`);
+  }
+  return { ok: true, value: String(n), confidence: isNumericInput(raw) ? 1 : 0.85 };
+}
+
+/**
+ * Validates and normalizes a raw value (spoken or scanned) for a schema field.
+ */
+export function validateField(field: FormFieldSchema, raw: string): ValidationResult {
+  if (!raw || !raw.trim()) return fail('empty', 'No value was given.');
+  switch (field.type) {
+    case 'date': return validateDate(raw);
+    case 'place': return validatePlace(raw);
+    case 'name': return validateName(raw);
+    case 'phone': return validatePhone(raw);
+    case 'number': return validateNumber(field, raw);
+    default: return { ok: true, value: collapseSpaces(raw), confidence: 0.8 };
+  }
+}
+
+// --- Identity Document Numbers ---
+// Verhoeff multiplication and permutation tables (dihedral group D5), as used for the Aadhaar check digit
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+/** True when the last digit is a valid Verhoeff check digit for the rest */
+export function isValidVerhoeff(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let c = 0;
+  digits.split('').reverse().forEach((d, i) => {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][Number(d)]];
+  });
+  return c === 0;
+}
+
+/** 12 digits, not starting with 0 or 1, with a valid check digit */
+export function validateAadhaar(raw: string): ValidationResult {
+  const digits = toAsciiDigits(raw).replace(/[\s\-]/g, '');
+  if (!/^[2-9]\d{11}$/.test(digits)) return fail('aadhaar_format', 'An Aadhaar number has 12 digits.');
+  if (!isValidVerhoeff(digits)) return fail('aadhaar_checksum', 'The Aadhaar number fails its check digit.');
+  return { ok: true, value: digits, confidence: 1 };
+}
+
+/** Only the last four digits are ever kept, in UIDAI's masked-Aadhaar style */
+export function maskAadhaar(digits: string): string {
+  return `XXXX XXXX ${digits.slice(-4)}`;
+}
+
+// Twelve digits in any supported script, optionally grouped 4-4-4 by spaces or hyphens
+const ANY_DIGIT = `0-9${NATIVE_DIGITS}`;
+const AADHAAR_IN_TEXT_RE = new RegExp(`(?<![${ANY_DIGIT}])[${ANY_DIGIT}]{4}[\\s-]?[${ANY_DIGIT}]{4}[\\s-]?[${ANY_DIGIT}]{4}(?![${ANY_DIGIT}])`, 'gu');
+
+/** Masks every valid Aadhaar number written anywhere in the text, whatever the field claims to hold */
+export function maskAadhaarNumbers(text: string): string {
+  return text.replace(AADHAAR_IN_TEXT_RE, match => {
+    const check = validateAadhaar(match);
+    return check.ok ? maskAadhaar(check.value) : match;
+  });
+}
+
+/** Five letters, four digits, one letter; the fourth letter is the holder type (P for a person, etc.) */
+export function validatePan(raw: string): ValidationResult {
+  const pan = raw.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(pan)) return fail('pan_format', 'The PAN does not have the AAAAA9999A format.');
+  return { ok: true, value: pan, confidence: 1 };
+}
+
+/** EPIC numbers: three letters followed by seven digits */
+export function validateVoterId(raw: string): ValidationResult {
+  const epic = toAsciiDigits(raw).replace(/[\s\/\-]/g, '').toUpperCase();
+  if (!/^[A-Z]{3}\d{7}$/.test(epic)) return fail('epic_format', 'The voter ID does not have the AAA9999999 format.');
+  return { ok: true, value: epic, confidence: 1 };
+}
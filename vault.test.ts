@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { pinRetryDelay } from './vault';
+
+describe('pinRetryDelay', () => {
+  it('lets the first few wrong PINs through without waiting', () => {
+    expect([0, 1, 2].map(pinRetryDelay)).toEqual([0, 0, 0]);
+  });
+
+  it('doubles the wait with every further wrong PIN', () => {
+    expect([3, 4, 5].map(pinRetryDelay)).toEqual([30_000, 60_000, 120_000]);
+  });
+
+  it('settles at an hour, so guessing every 4-digit PIN takes over a year', () => {
+    expect(pinRetryDelay(10)).toBe(60 * 60 * 1000);
+    expect(pinRetryDelay(500)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * WebCrypto primitives for keeping applicant data encrypted at rest.
+ * Keys are derived from the operator PIN and only ever held in memory.
+ */
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Longest prefix indexed for search; longer search terms are cut to this
+const MAX_INDEXED_PREFIX = 24;
+// Known plaintext sealed into the vault record so a wrong PIN is detected on unlock
+const CHECK_TEXT = 'mukh-lipi-vault';
+
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface VaultMeta {
+  id: 'meta';
+  salt: Uint8Array;
+  iterations: number;
+  check: SealedData;
+}
+
+export interface VaultKeys {
+  /** AES-GCM key for record contents */
+  encryption: CryptoKey;
+  /** HMAC key for the blind search index */
+  index: CryptoKey;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Vault is locked');
+  }
+}
+
+export class WrongPinError extends Error {
+  constructor() {
+    super('Incorrect PIN');
+  }
+}
+
+/** Too many wrong PINs in a row; no PIN is checked again until `until` (epoch ms) */
+export class PinLockedError extends Error {
+  constructor(public readonly until: number) {
+    super('Too many incorrect PINs');
+  }
+}
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+// Wrong PINs allowed before each further one makes the next attempt wait
+const FREE_PIN_ATTEMPTS = 3;
+const FIRST_PIN_DELAY_MS = 30 * 1000;
+const PIN_LOCKOUT_MS = 60 * 60 * 1000;
+
+/**
+ * How long to refuse PINs after `failures` wrong ones in a row: nothing at first,
+ * then doubling from 30 seconds until it settles at an hour-long lockout.
+ */
+export function pinRetryDelay(failures: number): number {
+  if (failures < FREE_PIN_ATTEMPTS) return 0;
+  return Math.min(PIN_LOCKOUT_MS, FIRST_PIN_DELAY_MS * 2 ** (failures - FREE_PIN_ATTEMPTS));
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/** Derives both keys from one PBKDF2 run: the first half keys AES, the second HMAC */
+export async function deriveKeys(pin: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<VaultKeys> {
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    512
+  ));
+  const [encryption, index] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  ]);
+  return { encryption, index };
+}
+
+export async function sealBytes(keys: VaultKeys, bytes: ArrayBuffer | Uint8Array): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.encryption, bytes);
+  return { iv, data };
+}
+
+export async function openBytes(keys: VaultKeys, sealed: SealedData): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, keys.encryption, sealed.data);
+}
+
+export async function sealJSON(keys: VaultKeys, value: unknown): Promise<SealedData> {
+  return sealBytes(keys, textEncoder.encode(JSON.stringify(value)));
+}
+
+export async function openJSON<T>(keys: VaultKeys, sealed: SealedData): Promise<T> {
+  return JSON.parse(textDecoder.decode(await openBytes(keys, sealed)));
+}
+
+/** Creates the vault record for a new PIN, returning it with the derived keys */
+export async function createVault(pin: string): Promise<{ meta: VaultMeta; keys: VaultKeys }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const keys = await deriveKeys(pin, salt);
+  const check = await sealJSON(keys, CHECK_TEXT);
+  return { meta: { id: 'meta', salt, iterations: PBKDF2_ITERATIONS, check }, keys };
+}
+
+/** Derives keys for `pin` and proves them against the vault record */
+export async function unlockVault(pin: string, meta: VaultMeta): Promise<VaultKeys> {
+  const keys = await deriveKeys(pin, meta.salt, meta.iterations);
+  try {
+    if ((await openJSON<string>(keys, meta.check)) === CHECK_TEXT) return keys;
+  } catch (e) {
+    // AES-GCM authentication fails for a key derived from the wrong PIN
+  }
+  throw new WrongPinError();
+}
+
+/** Keyed hash of a search term, so the index can be queried without storing names or cities */
+export async function blindIndex(keys: VaultKeys, term: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', keys.index, textEncoder.encode(term.slice(0, MAX_INDEXED_PREFIX)));
+  return Array.from(new Uint8Array(mac).slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Blind-index entries for every prefix of the whole text and of each word in it,
+ * matching the prefix search the history drawer offers.
+ */
+export async function blindPrefixes(keys: VaultKeys, texts: string[]): Promise<string[]> {
+  const prefixes = new Set<string>();
+  texts.forEach(text => {
+    const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!normalized) return;
+    [normalized, ...normalized.split(' ')].forEach(part => {
+      for (let i = 1; i <= Math.min(part.length, MAX_INDEXED_PREFIX); i++) prefixes.add(part.slice(0, i));
+    });
+  });
+  return Promise.all(Array.from(prefixes, p => blindIndex(keys, p)));
+}
@@ -4,15 +4,23 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The key only goes into the bundle when asked for; otherwise it stays with the AI proxy
+    const bundledKey = env.AI_PROVIDER === 'direct' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.AI_PROXY_TARGET || 'http://localhost:8790'
+        }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.SYNC_ENDPOINT': JSON.stringify(env.SYNC_ENDPOINT)
       },
       resolve: {
         alias: {
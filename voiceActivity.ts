@@ -0,0 +1,74 @@
+/**
+ * Energy-based voice activity detection on the mic level the capture worklet
+ * reports for each chunk. The noise floor adapts while nobody is talking, so a
+ * fan or street noise doesn't count as speech.
+ */
+
+export interface VadOptions {
+  /** Duration of each analysed chunk */
+  chunkMs: number;
+  /** How far above the noise floor speech must be */
+  ratio?: number;
+  /** Speech shorter than this (a cough, a click) is ignored */
+  minSpeechMs?: number;
+  /** Silence needed before speech is considered over */
+  hangoverMs?: number;
+}
+
+// Below this RMS nothing counts as speech, however quiet the room
+const MIN_SPEECH_RMS = 0.015;
+const INITIAL_NOISE_FLOOR = 0.005;
+const NOISE_ADAPT_RATE = 0.05;
+
+export class VoiceActivityDetector {
+  private noiseFloor = INITIAL_NOISE_FLOOR;
+  private loudMs = 0;
+  private quietMs = 0;
+  private speaking = false;
+  private readonly ratio: number;
+  private readonly minSpeechMs: number;
+  private readonly hangoverMs: number;
+
+  constructor(private options: VadOptions) {
+    this.ratio = options.ratio ?? 3;
+    this.minSpeechMs = options.minSpeechMs ?? 200;
+    this.hangoverMs = options.hangoverMs ?? 500;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /** Feeds one chunk's RMS; returns true only on the chunk where speech starts */
+  update(rms: number): boolean {
+    const { chunkMs } = this.options;
+    const isLoud = rms > Math.max(MIN_SPEECH_RMS, this.noiseFloor * this.ratio);
+    if (isLoud) {
+      this.loudMs += chunkMs;
+      this.quietMs = 0;
+    } else {
+      this.quietMs += chunkMs;
+      this.loudMs = 0;
+      if (!this.speaking) this.noiseFloor += (rms - this.noiseFloor) * NOISE_ADAPT_RATE;
+    }
+    if (!this.speaking && this.loudMs >= this.minSpeechMs) {
+      this.speaking = true;
+      return true;
+    }
+    if (this.speaking && this.quietMs >= this.hangoverMs) this.speaking = false;
+    return false;
+  }
+
+  reset(): void {
+    this.noiseFloor = INITIAL_NOISE_FLOOR;
+    this.loudMs = 0;
+    this.quietMs = 0;
+    this.speaking = false;
+  }
+}
+
+/** Maps RMS onto 0–1 across a 60 dB range, for level meters */
+export function rmsToLevel(rms: number): number {
+  if (rms <= 0) return 0;
+  return Math.max(0, Math.min(1, (20 * Math.log10(rms) + 60) / 60));
+}